@@ -16,6 +16,13 @@ const nextConfig = {
         port: "",
         pathname: "/uploads/**",
       },
+      // YouTube trailer thumbnails (click-to-load embeds)
+      {
+        protocol: "https",
+        hostname: "i.ytimg.com",
+        port: "",
+        pathname: "/vi/**",
+      },
     ],
   },
 };
@@ -0,0 +1,209 @@
+/**
+ * Backfill for supabase/migrations/20261019000000_provider_show_ref.sql.
+ *
+ * The migration labels every existing row provider = 'tmdb', but rows saved
+ * while TVMaze was the metadata provider hold TVMaze IDs (e.g. the show
+ * scripts/cleanup-wrong-show.ts had to delete by hand). For each tracked
+ * show this checks the stored name against TMDB, and if it only matches
+ * TVMaze, re-points the user_shows and watch_progress rows to the TMDB ID —
+ * or, when TMDB has no match, relabels them provider = 'tvmaze' so the app
+ * resolves them through the /show/tvmaze-<id> compatibility URL.
+ *
+ * Run: npx tsx scripts/backfill-show-refs.ts            (dry run)
+ *      npx tsx scripts/backfill-show-refs.ts --apply    (write changes)
+ *
+ * Needs NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (rows of all
+ * users are read and written, bypassing RLS) and TMDB_API_KEY. Rows are
+ * moved with the move_show_ref() function from
+ * supabase/migrations/20261019005000_move_show_ref.sql.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createClient } from "@supabase/supabase-js";
+
+// ── Load .env.local ────────────────────────────────────────────────────────
+function loadEnv() {
+  const envPath = path.join(process.cwd(), ".env.local");
+  if (!fs.existsSync(envPath)) return;
+  const lines = fs.readFileSync(envPath, "utf-8").split("\n");
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const eqIdx = trimmed.indexOf("=");
+    if (eqIdx === -1) continue;
+    const key = trimmed.slice(0, eqIdx).trim();
+    const val = trimmed.slice(eqIdx + 1).trim();
+    if (!process.env[key]) process.env[key] = val;
+  }
+}
+loadEnv();
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY ?? "";
+const TMDB_API_KEY = process.env.TMDB_API_KEY ?? "";
+
+if (!SUPABASE_URL || !SERVICE_ROLE_KEY || !TMDB_API_KEY) {
+  console.error("Missing NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY or TMDB_API_KEY");
+  process.exit(1);
+}
+
+// ── Config ─────────────────────────────────────────────────────────────────
+const APPLY = process.argv.includes("--apply");
+const PAGE_SIZE = 1000;
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+interface ShowRow {
+  id: string;
+  user_id: string;
+  external_id: number;
+  show_name: string;
+}
+
+// ── Metadata lookups ───────────────────────────────────────────────────────
+
+/** Lowercase, alphanumerics only — "Grey's Anatomy" ≈ "Greys Anatomy" */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+async function tmdbGet<T>(endpoint: string): Promise<T | null> {
+  const auth = TMDB_API_KEY.startsWith("Bearer ") ? TMDB_API_KEY : `Bearer ${TMDB_API_KEY}`;
+  const res = await fetch(`https://api.themoviedb.org/3${endpoint}`, {
+    headers: { Authorization: auth },
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`TMDB ${endpoint} → HTTP ${res.status}`);
+  return res.json() as Promise<T>;
+}
+
+async function tvmazeGet<T>(endpoint: string): Promise<T | null> {
+  const res = await fetch(`https://api.tvmaze.com${endpoint}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`TVMaze ${endpoint} → HTTP ${res.status}`);
+  return res.json() as Promise<T>;
+}
+
+async function matchesTmdb(id: number, name: string): Promise<boolean> {
+  const show = await tmdbGet<{ name: string; original_name?: string }>(`/tv/${id}`);
+  if (!show) return false;
+  const wanted = normalizeName(name);
+  return [show.name, show.original_name ?? ""].some((n) => normalizeName(n) === wanted);
+}
+
+/** TMDB ID of a TVMaze show via its TVDB / IMDb IDs, or null */
+async function tmdbIdForTvmaze(externals: { thetvdb: number | null; imdb: string | null }): Promise<number | null> {
+  const lookups: [string, string | number | null][] = [
+    ["tvdb_id", externals.thetvdb],
+    ["imdb_id", externals.imdb],
+  ];
+  for (const [source, value] of lookups) {
+    if (value === null) continue;
+    const found = await tmdbGet<{ tv_results: { id: number }[] }>(
+      `/find/${value}?external_source=${source}`
+    );
+    if (found?.tv_results[0]) return found.tv_results[0].id;
+  }
+  return null;
+}
+
+// ── Row updates ────────────────────────────────────────────────────────────
+
+/**
+ * Move one user's rows for a show to a new (provider, external_id). The
+ * user_shows and watch_progress rows move together in one transaction, or
+ * not at all.
+ */
+async function moveRows(row: ShowRow, provider: "tmdb" | "tvmaze", externalId: number): Promise<boolean> {
+  if (!APPLY) return true;
+  const { error } = await supabase.rpc("move_show_ref", {
+    show_row_id:     row.id,
+    new_provider:    provider,
+    new_external_id: externalId,
+  });
+  if (error) console.error(`    user_shows ${row.id}: ${error.message}`);
+  return !error;
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+async function main() {
+  console.log(APPLY ? "Applying changes\n" : "Dry run — pass --apply to write changes\n");
+
+  // Step 1: Load every TMDB-labelled row
+  const rows: ShowRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("user_shows")
+      .select("id, user_id, external_id, show_name")
+      .eq("provider", "tmdb")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      console.error("Failed to read user_shows:", error.message);
+      process.exit(1);
+    }
+    rows.push(...(data as ShowRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const byShow = new Map<string, ShowRow[]>();
+  for (const row of rows) {
+    const key = `${row.external_id}:${row.show_name}`;
+    byShow.set(key, [...(byShow.get(key) ?? []), row]);
+  }
+  console.log(`${rows.length} row(s), ${byShow.size} distinct show(s)\n`);
+
+  // Step 2: Check each show against TMDB, then TVMaze
+  const counts = { ok: 0, repointed: 0, relabelled: 0, unmatched: 0, failed: 0 };
+
+  for (const group of Array.from(byShow.values())) {
+    const { external_id: id, show_name: name } = group[0];
+    if (await matchesTmdb(id, name)) {
+      counts.ok += group.length;
+      continue;
+    }
+
+    const tvmazeShow = await tvmazeGet<{
+      name: string;
+      externals: { thetvdb: number | null; imdb: string | null };
+    }>(`/shows/${id}`);
+    if (!tvmazeShow || normalizeName(tvmazeShow.name) !== normalizeName(name)) {
+      console.log(`? ${id} "${name}" — matches neither TMDB nor TVMaze, left as is`);
+      counts.unmatched += group.length;
+      continue;
+    }
+
+    const tmdbId = await tmdbIdForTvmaze(tvmazeShow.externals);
+    console.log(
+      tmdbId !== null
+        ? `→ ${id} "${name}" is TVMaze ${id} = TMDB ${tmdbId} (${group.length} user(s))`
+        : `→ ${id} "${name}" is TVMaze ${id}, no TMDB match — relabelling (${group.length} user(s))`
+    );
+
+    for (const row of group) {
+      // Re-pointing fails on the unique key when the user already tracks the
+      // TMDB show — keep the legacy row, labelled, rather than losing progress
+      if (tmdbId !== null && (await moveRows(row, "tmdb", tmdbId))) {
+        counts.repointed++;
+      } else if (await moveRows(row, "tvmaze", id)) {
+        counts.relabelled++;
+      } else {
+        counts.failed++;
+      }
+    }
+  }
+
+  console.log(
+    `\nDone: ${counts.ok} already correct, ${counts.repointed} re-pointed to TMDB, ` +
+    `${counts.relabelled} relabelled as TVMaze, ${counts.unmatched} unmatched, ${counts.failed} failed`
+  );
+  process.exit(counts.failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("Unexpected error:", err);
+  process.exit(1);
+});
@@ -31,12 +31,13 @@ const { error: delError, count } = await supabase
   .from("user_shows")
   .delete({ count: "exact" })
   .eq("user_id", user.id)
-  .eq("tvmaze_show_id", 1190);
+  .eq("provider", "tmdb")
+  .eq("external_id", 1190);
 
 if (delError) {
   console.error("Delete failed:", delError.message);
 } else {
-  console.log(`Deleted ${count} row(s) with tvmaze_show_id=1190`);
+  console.log(`Deleted ${count} row(s) with tmdb external_id=1190`);
 }
 
 process.exit(0);
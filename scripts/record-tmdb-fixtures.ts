@@ -0,0 +1,195 @@
+/**
+ * Records TMDB responses into fixtures/tmdb/ for METADATA_PROVIDER=mock
+ * (served by src/lib/tmdb-fixtures.ts).
+ *
+ * The fixtures form a closed world: popular, top rated, search, discover and
+ * recommendations only list the recorded shows, so every card in the app
+ * opens a detail page that exists offline. Searches are recorded per query,
+ * one for each show's title.
+ *
+ * Run: npx tsx scripts/record-tmdb-fixtures.ts [showId ...]
+ *      (defaults to the shows already in fixtures/tmdb/tv/)
+ *
+ * Needs TMDB_API_KEY.
+ */
+
+import fs from "fs";
+import path from "path";
+
+// ── Load .env.local ────────────────────────────────────────────────────────
+function loadEnv() {
+  const envPath = path.join(process.cwd(), ".env.local");
+  if (!fs.existsSync(envPath)) return;
+  const lines = fs.readFileSync(envPath, "utf-8").split("\n");
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const eqIdx = trimmed.indexOf("=");
+    if (eqIdx === -1) continue;
+    const key = trimmed.slice(0, eqIdx).trim();
+    const val = trimmed.slice(eqIdx + 1).trim();
+    if (!process.env[key]) process.env[key] = val;
+  }
+}
+loadEnv();
+
+const TMDB_API_KEY = process.env.TMDB_API_KEY ?? "";
+
+if (!TMDB_API_KEY) {
+  console.error("Missing TMDB_API_KEY");
+  process.exit(1);
+}
+
+// ── Config ─────────────────────────────────────────────────────────────────
+const FIXTURE_DIR = path.join(process.cwd(), "fixtures", "tmdb");
+/** Watch regions to keep in per-show provider fixtures */
+const REGIONS = ["IN", "US"];
+/** Appended show resources, each saved as tv/{id}/{key}.json */
+const SHOW_RESOURCES = [
+  "aggregate_credits", "external_ids", "watch/providers", "videos", "recommendations", "alternative_titles",
+];
+/** Cast members kept per show — full casts make fixtures huge */
+const MAX_CAST = 10;
+
+interface ShowRaw {
+  id: number;
+  name: string;
+  original_name: string;
+  overview: string | null;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  first_air_date: string | null;
+  original_language: string;
+  genres: { id: number; name: string }[];
+  origin_country: string[];
+  vote_average: number;
+  vote_count: number;
+  popularity: number;
+  seasons: { season_number: number; episode_count: number }[];
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+async function tmdbGet<T>(endpoint: string): Promise<T> {
+  const auth = TMDB_API_KEY.startsWith("Bearer ") ? TMDB_API_KEY : `Bearer ${TMDB_API_KEY}`;
+  const res = await fetch(`https://api.themoviedb.org/3${endpoint}`, {
+    headers: { Authorization: auth },
+  });
+  if (!res.ok) throw new Error(`TMDB ${endpoint} → HTTP ${res.status}`);
+  return res.json() as Promise<T>;
+}
+
+function writeFixture(fixturePath: string, data: unknown) {
+  const file = path.join(FIXTURE_DIR, `${fixturePath}.json`);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data, null, 2) + "\n");
+}
+
+/** Show IDs already recorded (tv/{id}.json) */
+function recordedShowIds(): number[] {
+  const dir = path.join(FIXTURE_DIR, "tv");
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .map((f) => /^(\d+)\.json$/.exec(f)?.[1])
+    .filter((id): id is string => id !== undefined)
+    .map(Number);
+}
+
+/** The list-result shape TMDB uses in popular / search / discover */
+function toListResult(show: ShowRaw) {
+  return {
+    id:                show.id,
+    name:              show.name,
+    original_name:     show.original_name,
+    overview:          show.overview,
+    poster_path:       show.poster_path,
+    backdrop_path:     show.backdrop_path,
+    first_air_date:    show.first_air_date,
+    original_language: show.original_language,
+    genre_ids:         show.genres.map((g) => g.id),
+    vote_average:      show.vote_average,
+    vote_count:        show.vote_count,
+    popularity:        show.popularity,
+    origin_country:    show.origin_country,
+  };
+}
+
+function listFixture<T>(results: T[]) {
+  return { page: 1, results, total_pages: 1, total_results: results.length };
+}
+
+/** Same naming as searchFixtureName in src/lib/tmdb-fixtures.ts */
+function searchFixtureName(query: string): string {
+  return query.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+async function main() {
+  const args = process.argv.slice(2).map(Number).filter(Number.isInteger);
+  const showIds = args.length > 0 ? args : recordedShowIds();
+  if (showIds.length === 0) {
+    console.error("No show IDs given and none recorded yet");
+    process.exit(1);
+  }
+  const idSet = new Set(showIds);
+
+  // Step 1: Per-show resources
+  const shows: ShowRaw[] = [];
+  for (const id of showIds) {
+    process.stdout.write(`Recording show ${id}… `);
+    const show = await tmdbGet<ShowRaw & Record<string, unknown>>(
+      `/tv/${id}?append_to_response=${SHOW_RESOURCES.join(",")}`
+    );
+
+    const base: Record<string, unknown> = { ...show };
+    for (const key of SHOW_RESOURCES) delete base[key];
+    writeFixture(`tv/${id}`, base);
+    shows.push(show);
+
+    const credits = show.aggregate_credits as { cast: unknown[]; crew: unknown[] };
+    writeFixture(`tv/${id}/aggregate_credits`, { cast: credits.cast.slice(0, MAX_CAST), crew: [] });
+    writeFixture(`tv/${id}/external_ids`, show.external_ids);
+    const providers = show["watch/providers"] as { results: Record<string, unknown> };
+    writeFixture(`tv/${id}/watch/providers`, {
+      results: Object.fromEntries(REGIONS.filter((r) => providers.results[r]).map((r) => [r, providers.results[r]])),
+    });
+    writeFixture(`tv/${id}/videos`, show.videos);
+    writeFixture(`tv/${id}/alternative_titles`, show.alternative_titles);
+    // Only recommendations that resolve offline
+    const recommended = show.recommendations as { results: { id: number }[] };
+    writeFixture(`tv/${id}/recommendations`, listFixture(recommended.results.filter((r) => idSet.has(r.id))));
+
+    for (const { season_number: n, episode_count } of show.seasons) {
+      if (episode_count === 0) continue;
+      writeFixture(`tv/${id}/season/${n}`, await tmdbGet(`/tv/${id}/season/${n}`));
+    }
+    console.log("OK");
+  }
+
+  // Step 2: Catalogues built from the recorded shows
+  const results = shows.map(toListResult);
+  writeFixture("tv/popular", listFixture([...results].sort((a, b) => b.popularity - a.popularity)));
+  writeFixture("tv/top_rated", listFixture([...results].sort((a, b) => b.vote_average - a.vote_average)));
+  writeFixture("discover/tv", listFixture(results));
+
+  // Step 3: Real search responses, relevance order kept, closed to the recorded shows
+  for (const query of shows.map((s) => s.name)) {
+    const found = await tmdbGet<{ results: { id: number }[] }>(
+      `/search/tv?query=${encodeURIComponent(query)}`
+    );
+    writeFixture(`search/tv/${searchFixtureName(query)}`, listFixture(found.results.filter((r) => idSet.has(r.id))));
+  }
+
+  // Step 4: Reference data
+  writeFixture("genre/tv/list", await tmdbGet("/genre/tv/list"));
+  writeFixture("watch/providers/regions", await tmdbGet("/watch/providers/regions"));
+  writeFixture("watch/providers/tv", await tmdbGet(`/watch/providers/tv?watch_region=${REGIONS[0]}`));
+
+  console.log(`\nDone — ${shows.length} show(s) in ${path.relative(process.cwd(), FIXTURE_DIR)}`);
+}
+
+main().catch((err) => {
+  console.error("Unexpected error:", err);
+  process.exit(1);
+});
@@ -114,14 +114,15 @@ async function main() {
 
     const { error: upsertError } = await supabase.from("user_shows").upsert(
       {
-        user_id:        userId,
-        tvmaze_show_id: show.tvmaze_id,
-        show_name:      tvData.name,
-        show_poster:    poster,
-        show_backdrop:  backdrop,
-        status:         "watching",
+        user_id:       userId,
+        provider:      "tvmaze",
+        external_id:   show.tvmaze_id,
+        show_name:     tvData.name,
+        show_poster:   poster,
+        show_backdrop: backdrop,
+        status:        "watching",
       },
-      { onConflict: "user_id,tvmaze_show_id" }
+      { onConflict: "user_id,provider,external_id" }
     );
 
     if (upsertError) {
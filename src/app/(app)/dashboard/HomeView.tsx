@@ -1,9 +1,15 @@
 "use client";
 
+import { useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { motion } from "framer-motion";
-import type { TVMazeShow, EnrichedUserShow, ShowStatus } from "@/types";
+import PresetChips from "@/components/ui/PresetChips";
+import { markEpisodeWatched } from "@/lib/watch-progress";
+import { resultParam } from "@/lib/show-ref";
+import type { TVMazeShow, EnrichedUserShow, ShowStatus, SavedSearch, UpNext } from "@/types";
+
+type UpNextItem = UpNext & { show: EnrichedUserShow };
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -22,6 +28,11 @@ const STATUS_CONFIG: Record<ShowStatus, { label: string; color: string }> = {
   dropped:       { label: "Dropped",       color: "bg-red-500/15 text-red-400 border-red-500/20"          },
 };
 
+/** "S02E05" */
+function episodeCode(season: number, number: number): string {
+  return `S${String(season).padStart(2, "0")}E${String(number).padStart(2, "0")}`;
+}
+
 const GENRES = ["Drama", "Comedy", "Crime", "Sci-Fi & Fantasy", "Action & Adventure", "Mystery", "Animation", "Documentary"];
 
 /** Compact card for top rated shows — includes rating badge */
@@ -29,7 +40,7 @@ function TopRatedCard({ show, priority = false }: { show: TVMazeShow; priority?:
   const imageUrl = show.image?.medium ?? show.image?.original ?? null;
   const rating = show.rating?.average;
   return (
-    <Link href={`/show/${show.id}`} className="block w-[110px] flex-shrink-0">
+    <Link href={`/show/${resultParam(show)}`} className="block w-[110px] flex-shrink-0">
       <motion.div
         whileTap={{ scale: 0.95 }}
         transition={{ type: "spring", stiffness: 400, damping: 25 }}
@@ -76,7 +87,7 @@ function TopRatedCard({ show, priority = false }: { show: TVMazeShow; priority?:
 function TrendingCard({ show, priority = false }: { show: TVMazeShow; priority?: boolean }) {
   const imageUrl = show.image?.medium ?? show.image?.original ?? null;
   return (
-    <Link href={`/show/${show.id}`} className="block w-[110px] flex-shrink-0">
+    <Link href={`/show/${resultParam(show)}`} className="block w-[110px] flex-shrink-0">
       <motion.div
         whileTap={{ scale: 0.95 }}
         transition={{ type: "spring", stiffness: 400, damping: 25 }}
@@ -110,13 +121,13 @@ function TrendingCard({ show, priority = false }: { show: TVMazeShow; priority?:
 
 /** Compact horizontal-rail card for a user's tracked show */
 function UserRailCard({ userShow, priority = false }: { userShow: EnrichedUserShow; priority?: boolean }) {
-  const { show_name, show_poster, tvmaze_show_id, status, newSeasonTag, isRunning } = userShow;
+  const { show_name, show_poster, href, status, newSeasonTag, isRunning } = userShow;
   const isCaughtUp = status === "completed" && isRunning;
   const badge = isCaughtUp
     ? { label: "Caught Up", color: "bg-sky-500/15 text-sky-400 border-sky-500/20" }
     : STATUS_CONFIG[status];
   return (
-    <Link href={`/show/${tvmaze_show_id}`} className="block w-[110px] flex-shrink-0">
+    <Link href={href} className="block w-[110px] flex-shrink-0">
       <motion.div
         whileTap={{ scale: 0.95 }}
         transition={{ type: "spring", stiffness: 400, damping: 25 }}
@@ -177,6 +188,115 @@ function UserRailCard({ userShow, priority = false }: { userShow: EnrichedUserSh
   );
 }
 
+/**
+ * Wide rail card for a watching show's next episode, with a one-tap "mark
+ * watched". Episodes left but none loaded means the refill failed — offer a retry.
+ */
+function UpNextCard({
+  item,
+  busy,
+  onMarkWatched,
+  onRetry,
+  priority = false,
+}: {
+  item: UpNextItem;
+  busy: boolean;
+  onMarkWatched: () => void;
+  onRetry: () => void;
+  priority?: boolean;
+}) {
+  const { show, remaining } = item;
+  const episode = item.episodes[0];
+  const unloaded = !episode && remaining > 0;
+  const imageUrl = episode?.image ?? show.show_backdrop ?? show.show_poster;
+  const code = episode ? episodeCode(episode.season, episode.number) : null;
+
+  return (
+    <div className="w-[240px] flex-shrink-0 flex flex-col gap-2">
+      <Link href={show.href} className="block">
+        <motion.div
+          whileTap={{ scale: 0.97 }}
+          transition={{ type: "spring", stiffness: 400, damping: 25 }}
+          className="aspect-video rounded-xl overflow-hidden bg-bg-raised relative"
+        >
+          {imageUrl ? (
+            <Image
+              src={imageUrl}
+              alt={episode ? `${show.show_name} ${code}` : show.show_name}
+              fill
+              sizes="240px"
+              className="object-cover"
+              priority={priority}
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center p-3">
+              <span className="text-text-muted text-xs text-center line-clamp-2">{show.show_name}</span>
+            </div>
+          )}
+          {code && (
+            <div className="absolute bottom-1.5 left-1.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-black/70 text-white backdrop-blur-sm">
+              {code}
+            </div>
+          )}
+        </motion.div>
+      </Link>
+
+      <div className="flex items-start gap-2 px-0.5">
+        <motion.div
+          key={code ?? "caught-up"}
+          initial={{ opacity: 0, y: 4 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+          className="flex-1 min-w-0"
+        >
+          <p className="text-text-primary text-xs font-medium leading-tight line-clamp-1">
+            {show.show_name}
+          </p>
+          {episode ? (
+            <>
+              <p className="mt-0.5 text-text-secondary text-xs line-clamp-1">
+                {episode.name || `Episode ${episode.number}`}
+              </p>
+              {remaining > 1 && (
+                <p className="text-text-muted text-[10px]">{remaining - 1} more to watch</p>
+              )}
+            </>
+          ) : unloaded ? (
+            <p className="mt-0.5 text-text-muted text-xs">Couldn&apos;t load the next episode</p>
+          ) : (
+            <p className="mt-0.5 text-text-muted text-xs">All caught up</p>
+          )}
+        </motion.div>
+        {unloaded && (
+          <button
+            onClick={onRetry}
+            disabled={busy}
+            aria-label={`Load next episode of ${show.show_name}`}
+            className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-bg-surface border border-white/10 text-text-secondary hover:border-accent/40 hover:text-accent active:scale-95 transition-all duration-150 disabled:opacity-50"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="23 4 23 10 17 10" />
+              <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" />
+            </svg>
+          </button>
+        )}
+        {episode && (
+          <button
+            onClick={onMarkWatched}
+            disabled={busy}
+            aria-label={`Mark ${code} watched`}
+            className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-bg-surface border border-white/10 text-text-secondary hover:border-accent/40 hover:text-accent active:scale-95 transition-all duration-150 disabled:opacity-50"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="20 6 9 17 4 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 /** Section header row */
 function SectionHeader({
   title,
@@ -208,13 +328,90 @@ interface HomeViewProps {
   topRatedShows: TVMazeShow[];
   userShows: EnrichedUserShow[];
   isLoggedIn: boolean;
+  presets: SavedSearch[];
+  /** Next episodes of the watching shows that have some left */
+  upNext: UpNextItem[];
 }
 
-export default function HomeView({ popularShows, topRatedShows, userShows, isLoggedIn }: HomeViewProps) {
+export default function HomeView({
+  popularShows,
+  topRatedShows,
+  userShows,
+  isLoggedIn,
+  presets,
+  upNext,
+}: HomeViewProps) {
   const greeting = getGreeting();
+  const [queue, setQueue] = useState(upNext);
+  const [markingIds, setMarkingIds] = useState<Set<string>>(new Set());
 
   const watchingShows = userShows.filter((s) => s.status === "watching");
   const planToWatchShows = userShows.filter((s) => s.status === "plan_to_watch");
+  // Watching shows without a next episode (caught up, or no episode data) keep the poster card
+  const posterOnlyShows = watchingShows
+    .slice(0, 10)
+    .filter((s) => !queue.some((item) => item.show.id === s.id));
+
+  function updateItem(showId: string, update: (item: UpNextItem) => UpNextItem) {
+    setQueue((prev) => prev.map((item) => (item.show.id === showId ? update(item) : item)));
+  }
+
+  function setBusy(showId: string, busy: boolean) {
+    setMarkingIds((prev) => {
+      const next = new Set(prev);
+      if (busy) next.add(showId);
+      else next.delete(showId);
+      return next;
+    });
+  }
+
+  /**
+   * Load the next batch of a card's episodes. On failure the card keeps its
+   * advanced state and offers a retry — the episode before it is already saved.
+   */
+  async function refill(item: UpNextItem) {
+    try {
+      const res = await fetch(`/api/up-next?show=${item.show.provider}-${item.show.external_id}`);
+      if (!res.ok) return;
+      const next: UpNext = await res.json();
+      updateItem(item.show.id, (i) => ({ ...i, ...next }));
+    } catch {
+      // Network error — same as a failed response
+    }
+  }
+
+  async function handleRetry(item: UpNextItem) {
+    setBusy(item.show.id, true);
+    await refill(item);
+    setBusy(item.show.id, false);
+  }
+
+  // Optimistic — advance the card at once, roll back if the save fails
+  async function handleMarkWatched(item: UpNextItem) {
+    const episode = item.episodes[0];
+    if (!episode) return;
+    const showId = item.show.id;
+
+    updateItem(showId, (i) => ({ ...i, episodes: i.episodes.slice(1), remaining: i.remaining - 1 }));
+    setBusy(showId, true);
+    try {
+      try {
+        await markEpisodeWatched(
+          { provider: item.show.provider, id: item.show.external_id },
+          episode.season,
+          episode.number
+        );
+      } catch {
+        updateItem(showId, () => item);
+        return;
+      }
+
+      // Lookahead used up with more to go — fetch the next batch
+      if (item.episodes.length === 1 && item.remaining > 1) await refill(item);
+    } finally {
+      setBusy(showId, false);
+    }
+  }
 
   const watchingCount = watchingShows.length;
   const totalCount = userShows.length;
@@ -264,22 +461,35 @@ export default function HomeView({ popularShows, topRatedShows, userShows, isLog
         <span className="text-text-muted text-sm">Search shows…</span>
       </Link>
 
-      {/* ── Continue Watching ────────────────────────────────────────────── */}
+      {/* ── Saved presets ───────────────────────────────────────────────── */}
+      {presets.length > 0 && <PresetChips presets={presets} />}
+
+      {/* ── Continue Watching — next episode first, then caught-up shows ─── */}
       {watchingShows.length > 0 && (
         <div>
           <SectionHeader title="Continue Watching" href="/my-shows" />
           <div className="flex gap-3 overflow-x-auto no-scrollbar -mx-4 px-4 pb-1">
-            {watchingShows.slice(0, 10).map((show, i) => (
-              <UserRailCard key={show.id} userShow={show} priority={i < 3} />
+            {queue.map((item, i) => (
+              <UpNextCard
+                key={item.show.id}
+                item={item}
+                busy={markingIds.has(item.show.id)}
+                onMarkWatched={() => handleMarkWatched(item)}
+                onRetry={() => handleRetry(item)}
+                priority={i < 2}
+              />
+            ))}
+            {posterOnlyShows.map((show, i) => (
+              <UserRailCard key={show.id} userShow={show} priority={queue.length + i < 3} />
             ))}
           </div>
         </div>
       )}
 
-      {/* ── Up Next ─────────────────────────────────────────────────────── */}
+      {/* ── Plan to Watch ───────────────────────────────────────────────── */}
       {planToWatchShows.length > 0 && (
         <div>
-          <SectionHeader title="Up Next" href="/my-shows" />
+          <SectionHeader title="Plan to Watch" href="/my-shows" />
           <div className="flex gap-3 overflow-x-auto no-scrollbar -mx-4 px-4 pb-1">
             {planToWatchShows.slice(0, 10).map((show, i) => (
               <UserRailCard key={show.id} userShow={show} priority={i < 3} />
@@ -1,18 +1,31 @@
 import { createClient } from "@/lib/supabase/server";
-import { getPopularShows, getTopRatedShows } from "@/lib/tmdb";
+import { getMetadataProvider } from "@/lib/metadata";
+import { getUserPreferences } from "@/lib/preferences";
 import { enrichUserShows } from "@/lib/enrich-shows";
+import { listSavedSearches } from "@/lib/saved-searches";
+import { getUpNextQueue } from "@/lib/up-next";
 import PageWrapper from "@/components/layout/PageWrapper";
 import HomeView from "./HomeView";
-import type { TVMazeShow, UserShow } from "@/types";
+import type { TVMazeShow, UserShow, SavedSearch } from "@/types";
+
+/** Shows in the Continue Watching rail */
+const CONTINUE_WATCHING_LIMIT = 10;
 
 export default async function DashboardPage() {
-  // Fetch popular + top rated shows in parallel (cached 1hr by TMDB layer)
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const { locale, include_specials } = await getUserPreferences(supabase, user?.id);
+
+  // Fetch popular + top rated shows in parallel (cached 1hr by the provider layer)
   let popularShows: TVMazeShow[] = [];
   let topRatedShows: TVMazeShow[] = [];
   try {
+    const metadata = getMetadataProvider();
     const [allPopular, topRated] = await Promise.all([
-      getPopularShows(),
-      getTopRatedShows(),
+      metadata.getPopularShows(locale),
+      metadata.getTopRatedShows(locale),
     ]);
     // Sort by weight descending, take top 20
     popularShows = allPopular
@@ -25,14 +38,11 @@ export default async function DashboardPage() {
     topRatedShows = [];
   }
 
-  // Fetch user's shows (if logged in)
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
+  // Fetch user's shows and saved presets (if logged in)
   let userShows: UserShow[] = [];
+  let presets: SavedSearch[] = [];
   if (user) {
+    presets = await listSavedSearches(supabase);
     const { data } = await supabase
       .from("user_shows")
       .select("*")
@@ -42,7 +52,14 @@ export default async function DashboardPage() {
   }
 
   // Enrich with TMDB metadata, auto-move, and sort
-  const enrichedShows = await enrichUserShows(userShows, supabase);
+  const enrichedShows = await enrichUserShows(userShows, supabase, { includeSpecials: include_specials });
+
+  // Next episode of each show in the Continue Watching rail
+  const upNext = await getUpNextQueue(
+    enrichedShows.filter((s) => s.status === "watching").slice(0, CONTINUE_WATCHING_LIMIT),
+    supabase,
+    locale
+  );
 
   return (
     <PageWrapper>
@@ -51,6 +68,8 @@ export default async function DashboardPage() {
         topRatedShows={topRatedShows}
         userShows={enrichedShows}
         isLoggedIn={!!user}
+        presets={presets}
+        upNext={upNext}
       />
     </PageWrapper>
   );
@@ -1,10 +1,12 @@
 import BottomNav from "@/components/layout/BottomNav";
+import CommandPalette from "@/components/layout/CommandPalette";
 
 export default function AppLayout({ children }: { children: React.ReactNode }) {
   return (
     <>
       {children}
       <BottomNav />
+      <CommandPalette />
     </>
   );
 }
@@ -5,7 +5,8 @@ import { motion, AnimatePresence } from "framer-motion";
 import Link from "next/link";
 import PageWrapper from "@/components/layout/PageWrapper";
 import UserShowCard from "@/components/ui/UserShowCard";
-import type { EnrichedUserShow, ShowStatus } from "@/types";
+import { createLibraryIndex } from "@/lib/fuzzy-search";
+import type { EnrichedUserShow, ShowStatus, WatchProvider } from "@/types";
 
 // ── Constants + pure helpers (outside component) ──────────────────────────
 
@@ -25,6 +26,61 @@ function filterShows(shows: EnrichedUserShow[], tab: TabId): EnrichedUserShow[]
   return shows.filter((s) => s.status === tab);
 }
 
+type SortId = "default" | "most_behind" | "closest";
+
+const SORTS: { id: SortId; label: string }[] = [
+  { id: "default",     label: "Default"              },
+  { id: "most_behind", label: "Most behind"          },
+  { id: "closest",     label: "Closest to finishing" },
+];
+
+function episodesLeft(show: EnrichedUserShow): number {
+  return show.releasedEpisodeCount - show.watchedEpisodeCount;
+}
+
+/** Progress sorts by episodes left; shows with none left (or unknown) go last */
+function sortShows(shows: EnrichedUserShow[], sort: SortId): EnrichedUserShow[] {
+  if (sort === "default") return shows;
+  return shows.slice().sort((a, b) => {
+    const leftA = episodesLeft(a);
+    const leftB = episodesLeft(b);
+    if (leftA <= 0 || leftB <= 0) return (leftA <= 0 ? 1 : 0) - (leftB <= 0 ? 1 : 0);
+    return sort === "most_behind" ? leftB - leftA : leftA - leftB;
+  });
+}
+
+/** "all", the user's subscribed services, or one provider ID */
+type ProviderFilter = "all" | "mine" | number;
+
+function streamsOn(show: EnrichedUserShow, providerIds: Set<number>): boolean {
+  return show.streamingProviders.some((p) => providerIds.has(p.id));
+}
+
+function filterByProvider(
+  shows: EnrichedUserShow[],
+  filter: ProviderFilter,
+  subscribed: Set<number>
+): EnrichedUserShow[] {
+  if (filter === "all") return shows;
+  if (filter === "mine") return shows.filter((s) => streamsOn(s, subscribed));
+  return shows.filter((s) => s.streamingProviders.some((p) => p.id === filter));
+}
+
+/** Services streaming anything in the library, the one with most shows first */
+function libraryProviders(shows: EnrichedUserShow[]): WatchProvider[] {
+  const counts = new Map<number, { provider: WatchProvider; count: number }>();
+  for (const show of shows) {
+    for (const provider of show.streamingProviders) {
+      const entry = counts.get(provider.id) ?? { provider, count: 0 };
+      entry.count++;
+      counts.set(provider.id, entry);
+    }
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.provider.name.localeCompare(b.provider.name))
+    .map((e) => e.provider);
+}
+
 /** Sections shown on the "All" tab — order matches the sort priority from page.tsx */
 const SECTIONS: { status: ShowStatus; label: string }[] = [
   { status: "watching",      label: "Currently Watching" },
@@ -44,36 +100,95 @@ const gridContainerVariants = {
 interface MyShowsViewProps {
   initialShows: EnrichedUserShow[];
   isLoggedIn: boolean;
+  /** Watch-provider IDs the user subscribes to (Settings) */
+  subscribedProviders: number[];
 }
 
-export default function MyShowsView({ initialShows, isLoggedIn }: MyShowsViewProps) {
+export default function MyShowsView({ initialShows, isLoggedIn, subscribedProviders }: MyShowsViewProps) {
   const [activeTab, setActiveTab] = useState<TabId>("all");
+  const [query, setQuery] = useState("");
+  const [providerFilter, setProviderFilter] = useState<ProviderFilter>("all");
+  const [sort, setSort] = useState<SortId>("default");
+
+  const subscribed = useMemo(() => new Set(subscribedProviders), [subscribedProviders]);
+  const providers = useMemo(() => libraryProviders(initialShows), [initialShows]);
+  const providerShows = useMemo(
+    () => filterByProvider(initialShows, providerFilter, subscribed),
+    [initialShows, providerFilter, subscribed]
+  );
+  const isProviderFiltered = providerFilter !== "all";
 
   // Count per status — memoised because it iterates all shows
   const countByStatus = useMemo(() => {
-    const map: Partial<Record<TabId, number>> = { all: initialShows.length };
-    for (const s of initialShows) {
+    const map: Partial<Record<TabId, number>> = { all: providerShows.length };
+    for (const s of providerShows) {
       map[s.status] = (map[s.status] ?? 0) + 1;
     }
     return map;
-  }, [initialShows]);
+  }, [providerShows]);
+
+  const libraryIndex = useMemo(() => createLibraryIndex(providerShows), [providerShows]);
 
-  const displayedShows = filterShows(initialShows, activeTab);
+  // Searching shows matches from the active tab as one list, best match first —
+  // the progress sort only applies to browsing, so relevance order holds
+  const isSearching = query.trim().length > 0;
+  const displayedShows = isSearching
+    ? filterShows(libraryIndex.search(query, providerShows.length).map((r) => r.item), activeTab)
+    : sortShows(filterShows(providerShows, activeTab), sort);
+
+  // With subscriptions set, shows none of them stream are faded out
+  const isOnMyServices = (show: EnrichedUserShow) => streamsOn(show, subscribed);
+  const isDimmed = (show: EnrichedUserShow) => subscribed.size > 0 && !isOnMyServices(show);
 
   return (
     <PageWrapper>
       <div className="pt-12 flex flex-col gap-6 pb-6">
 
-        {/* Heading */}
-        <div>
-          <h1 className="text-2xl font-bold">My Shows</h1>
-          <p className="mt-1 text-text-secondary text-sm font-light">
-            {isLoggedIn
-              ? `${initialShows.length} show${initialShows.length !== 1 ? "s" : ""} tracked`
-              : "Track your favourite shows"}
-          </p>
+        {/* Heading + progress sort */}
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">My Shows</h1>
+            <p className="mt-1 text-text-secondary text-sm font-light">
+              {isLoggedIn
+                ? `${initialShows.length} show${initialShows.length !== 1 ? "s" : ""} tracked`
+                : "Track your favourite shows"}
+            </p>
+          </div>
+          {isLoggedIn && initialShows.length > 0 && (
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as SortId)}
+              disabled={isSearching}
+              aria-label="Sort shows"
+              className="flex-shrink-0 bg-bg-raised border border-white/10 rounded-lg px-2.5 py-1.5 text-xs text-text-primary disabled:opacity-50"
+            >
+              {SORTS.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
+        {/* Library search — typo-tolerant, matches other titles and genres too */}
+        {isLoggedIn && initialShows.length > 0 && (
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search your shows..."
+            className="
+              w-full bg-bg-surface border border-white/5 rounded-xl
+              px-4 py-3
+              text-text-primary placeholder:text-text-muted
+              text-sm
+              focus:outline-none focus:ring-1 focus:ring-accent/60 focus:border-accent/40
+              transition-colors duration-200
+            "
+          />
+        )}
+
         {/* Tab bar — horizontal scroll, same -mx-4 px-4 pattern as genre chips */}
         <div className="flex gap-2 overflow-x-auto no-scrollbar -mx-4 px-4 pb-1">
           {TABS.map(({ id, label }) => {
@@ -114,10 +229,36 @@ export default function MyShowsView({ initialShows, isLoggedIn }: MyShowsViewPro
           })}
         </div>
 
+        {/* Streaming service filter — only when availability data exists */}
+        {isLoggedIn && providers.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto no-scrollbar -mx-4 px-4 pb-1 -mt-3">
+            {[
+              { id: "all" as const, label: "Any service" },
+              ...(subscribed.size > 0 ? [{ id: "mine" as const, label: "My services" }] : []),
+              ...providers.map((p) => ({ id: p.id, label: p.name })),
+            ].map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setProviderFilter(id)}
+                className={`
+                  flex-shrink-0 px-3 py-1 rounded-full text-[11px] font-medium
+                  border transition-colors duration-150
+                  ${providerFilter === id
+                    ? "bg-accent/15 border-accent/40 text-accent"
+                    : "bg-bg-surface border-white/10 text-text-muted hover:border-accent/40 hover:text-text-primary"
+                  }
+                `}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Grid area */}
         <AnimatePresence mode="wait">
           <motion.div
-            key={activeTab}
+            key={isSearching ? "search" : `${activeTab}:${providerFilter}:${sort}`}
             initial={{ opacity: 0, y: 6 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0 }}
@@ -152,8 +293,18 @@ export default function MyShowsView({ initialShows, isLoggedIn }: MyShowsViewPro
               </div>
             )}
 
+            {/* Logged in — search — no matches */}
+            {isLoggedIn && isSearching && displayedShows.length === 0 && (
+              <div className="py-16 flex flex-col items-center gap-2 text-center">
+                <p className="text-text-primary font-medium">No matches</p>
+                <p className="text-text-muted text-sm">
+                  No tracked show matches &ldquo;{query.trim()}&rdquo;
+                </p>
+              </div>
+            )}
+
             {/* Logged in — all tab — zero shows */}
-            {isLoggedIn && displayedShows.length === 0 && activeTab === "all" && (
+            {isLoggedIn && !isSearching && displayedShows.length === 0 && activeTab === "all" && !isProviderFiltered && (
               <div className="py-20 flex flex-col items-center gap-3 text-center">
                 <svg
                   width="40"
@@ -176,17 +327,17 @@ export default function MyShowsView({ initialShows, isLoggedIn }: MyShowsViewPro
             )}
 
             {/* Logged in — filtered tab — zero shows */}
-            {isLoggedIn && displayedShows.length === 0 && activeTab !== "all" && (
+            {isLoggedIn && !isSearching && displayedShows.length === 0 && (activeTab !== "all" || isProviderFiltered) && (
               <div className="py-16 flex flex-col items-center gap-2 text-center">
                 <p className="text-text-primary font-medium">Nothing here yet</p>
                 <p className="text-text-muted text-sm">
-                  No shows with this status
+                  {isProviderFiltered ? "None of these shows stream there" : "No shows with this status"}
                 </p>
               </div>
             )}
 
             {/* Grouped sections on "All" tab */}
-            {displayedShows.length > 0 && activeTab === "all" && (
+            {displayedShows.length > 0 && activeTab === "all" && !isSearching && (
               <div className="flex flex-col gap-8">
                 {SECTIONS.map(({ status, label }) => {
                   const sectionShows = displayedShows.filter(
@@ -216,6 +367,8 @@ export default function MyShowsView({ initialShows, isLoggedIn }: MyShowsViewPro
                             priority={index < 4}
                             newSeasonTag={userShow.newSeasonTag}
                             isRunning={userShow.isRunning}
+                            dimmed={isDimmed(userShow)}
+                            onMyServices={isOnMyServices(userShow)}
                           />
                         ))}
                       </motion.div>
@@ -225,8 +378,8 @@ export default function MyShowsView({ initialShows, isLoggedIn }: MyShowsViewPro
               </div>
             )}
 
-            {/* Flat grid on individual status tabs */}
-            {displayedShows.length > 0 && activeTab !== "all" && (
+            {/* Flat grid on individual status tabs and for search matches */}
+            {displayedShows.length > 0 && (activeTab !== "all" || isSearching) && (
               <motion.div
                 variants={gridContainerVariants}
                 initial="hidden"
@@ -240,6 +393,8 @@ export default function MyShowsView({ initialShows, isLoggedIn }: MyShowsViewPro
                     priority={index < 4}
                     newSeasonTag={userShow.newSeasonTag}
                     isRunning={userShow.isRunning}
+                    dimmed={isDimmed(userShow)}
+                    onMyServices={isOnMyServices(userShow)}
                   />
                 ))}
               </motion.div>
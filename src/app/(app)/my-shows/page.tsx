@@ -1,5 +1,6 @@
 import { createClient } from "@/lib/supabase/server";
 import { enrichUserShows } from "@/lib/enrich-shows";
+import { getUserPreferences } from "@/lib/preferences";
 import type { UserShow } from "@/types";
 import MyShowsView from "./MyShowsView";
 
@@ -9,6 +10,7 @@ export default async function MyShowsPage() {
   const {
     data: { user },
   } = await supabase.auth.getUser();
+  const { region, subscribed_providers, include_specials } = await getUserPreferences(supabase, user?.id);
 
   let shows: UserShow[] = [];
 
@@ -21,7 +23,16 @@ export default async function MyShowsPage() {
     shows = (data as UserShow[]) ?? [];
   }
 
-  const enriched = await enrichUserShows(shows, supabase);
+  const enriched = await enrichUserShows(shows, supabase, {
+    watchRegion:     region,
+    includeSpecials: include_specials,
+  });
 
-  return <MyShowsView initialShows={enriched} isLoggedIn={!!user} />;
+  return (
+    <MyShowsView
+      initialShows={enriched}
+      isLoggedIn={!!user}
+      subscribedProviders={subscribed_providers}
+    />
+  );
 }
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { createClient } from "@/lib/supabase/client";
+import { invalidateLibrary } from "@/lib/library-cache";
+import { showRefColumns } from "@/lib/show-ref";
+import type { PersonDetail, ShowProvider, TVMazeShow } from "@/types";
+
+// ── Pure utility functions ──────────────────────────────────────────────────
+
+const BIO_CUTOFF = 300;
+
+function formatDate(dateStr: string): string {
+  const d = new Date(dateStr + "T00:00:00");
+  return d.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+interface PersonViewProps {
+  /** Provider whose ID space the credited shows' IDs belong to */
+  provider: ShowProvider;
+  person: PersonDetail;
+  /** Show IDs from this filmography already in My Shows */
+  initialTrackedIds: number[];
+  isLoggedIn: boolean;
+}
+
+export default function PersonView({ provider, person, initialTrackedIds, isLoggedIn }: PersonViewProps) {
+  const router = useRouter();
+  const [trackedIds, setTrackedIds] = useState<Set<number>>(() => new Set(initialTrackedIds));
+  const [adding, setAdding] = useState<Set<number>>(new Set());
+  const [bioExpanded, setBioExpanded] = useState(false);
+
+  const isBioTruncatable = person.biography !== null && person.biography.length > BIO_CUTOFF;
+  const displayedBio =
+    person.biography === null
+      ? null
+      : bioExpanded || !isBioTruncatable
+      ? person.biography
+      : person.biography.slice(0, BIO_CUTOFF) + "…";
+
+  const lifespan = [
+    person.birthday && `Born ${formatDate(person.birthday)}`,
+    person.deathday && `Died ${formatDate(person.deathday)}`,
+    person.placeOfBirth,
+  ].filter(Boolean).join(" · ");
+
+  // ── Add to My Shows (as Plan to Watch) — optimistic with rollback ──
+  const handleAdd = useCallback(async (show: TVMazeShow) => {
+    setTrackedIds((prev) => new Set(prev).add(show.id));
+    setAdding((prev) => new Set(prev).add(show.id));
+    try {
+      const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not logged in");
+      const { error } = await supabase.from("user_shows").upsert(
+        {
+          user_id:       user.id,
+          ...showRefColumns({ provider, id: show.id }),
+          show_name:     show.name,
+          show_poster:   show.image?.medium   ?? show.image?.original ?? null,
+          show_backdrop: show.image?.original ?? show.image?.medium   ?? null,
+          status:        "plan_to_watch",
+        },
+        { onConflict: "user_id,provider,external_id" }
+      );
+      if (error) throw error;
+      invalidateLibrary();
+      router.refresh();
+    } catch {
+      setTrackedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(show.id);
+        return next;
+      });
+    } finally {
+      setAdding((prev) => {
+        const next = new Set(prev);
+        next.delete(show.id);
+        return next;
+      });
+    }
+  }, [provider, router]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, ease: "easeOut" }}
+      className="min-h-screen flex flex-col px-4 pt-12 pb-24 gap-6"
+    >
+      {/* ── Back button ── */}
+      <button
+        onClick={() => router.back()}
+        className="
+          w-9 h-9 rounded-full
+          bg-bg-raised border border-white/10
+          flex items-center justify-center
+          active:scale-95 transition-transform duration-100
+        "
+        aria-label="Go back"
+      >
+        <svg
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="text-text-primary"
+        >
+          <polyline points="15 18 9 12 15 6" />
+        </svg>
+      </button>
+
+      {/* ── Header ── */}
+      <div className="flex items-center gap-4">
+        <div className="w-24 h-24 rounded-full overflow-hidden bg-bg-raised relative flex-shrink-0">
+          {person.profileImage ? (
+            <Image
+              src={person.profileImage}
+              alt={person.name}
+              fill
+              sizes="96px"
+              className="object-cover"
+              priority
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-text-muted text-2xl font-medium">
+              {person.name.charAt(0)}
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col gap-1 min-w-0">
+          <h1 className="text-2xl font-bold text-text-primary leading-tight">
+            {person.name}
+          </h1>
+          {person.knownForDepartment && (
+            <p className="text-sm text-text-secondary">{person.knownForDepartment}</p>
+          )}
+          {lifespan && (
+            <p className="text-xs text-text-muted">{lifespan}</p>
+          )}
+        </div>
+      </div>
+
+      {/* ── Biography ── */}
+      {displayedBio && (
+        <div>
+          <h2 className="text-xs font-medium text-text-muted uppercase tracking-wider mb-2">
+            Biography
+          </h2>
+          <p className="text-sm text-text-secondary leading-relaxed whitespace-pre-line">
+            {displayedBio}
+          </p>
+          {isBioTruncatable && (
+            <button
+              onClick={() => setBioExpanded((p) => !p)}
+              className="text-sm text-accent font-medium mt-2"
+            >
+              {bioExpanded ? "Show less" : "Read more"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* ── TV filmography ── */}
+      <div>
+        <h2 className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">
+          TV Shows{" "}
+          <span className="font-light normal-case tracking-normal ml-1">
+            ({person.credits.length})
+          </span>
+        </h2>
+
+        {person.credits.length === 0 ? (
+          <p className="text-sm text-text-muted">No TV credits found.</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            {person.credits.map(({ show, roles }) => {
+              const imageUrl = show.image?.medium ?? show.image?.original ?? null;
+              const isTracked = trackedIds.has(show.id);
+              const isAdding = adding.has(show.id);
+
+              return (
+                <div key={show.id} className="flex flex-col gap-1.5">
+                  <div className="aspect-[2/3] rounded-xl overflow-hidden bg-bg-raised relative">
+                    <Link href={`/show/${show.id}`} className="absolute inset-0">
+                      {imageUrl ? (
+                        <Image
+                          src={imageUrl}
+                          alt={show.name}
+                          fill
+                          sizes="(max-width: 768px) 33vw, 160px"
+                          className="object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center p-2">
+                          <span className="text-text-muted text-xs text-center leading-relaxed line-clamp-3">
+                            {show.name}
+                          </span>
+                        </div>
+                      )}
+                    </Link>
+
+                    {/* Quick add — lands in Plan to Watch */}
+                    {isLoggedIn && (
+                      <button
+                        onClick={() => handleAdd(show)}
+                        disabled={isTracked || isAdding}
+                        className={`
+                          absolute bottom-1.5 right-1.5 z-10
+                          w-7 h-7 rounded-full
+                          flex items-center justify-center
+                          backdrop-blur-sm border
+                          transition-all duration-150 active:scale-90
+                          ${isTracked
+                            ? "bg-accent border-accent"
+                            : "bg-black/50 border-white/20"
+                          }
+                        `}
+                        aria-label={isTracked ? `${show.name} is in My Shows` : `Add ${show.name} to My Shows`}
+                      >
+                        <svg
+                          width="14"
+                          height="14"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="white"
+                          strokeWidth="2.5"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        >
+                          {isTracked ? (
+                            <polyline points="20 6 9 17 4 12" />
+                          ) : (
+                            <>
+                              <line x1="12" y1="5" x2="12" y2="19" />
+                              <line x1="5" y1="12" x2="19" y2="12" />
+                            </>
+                          )}
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+
+                  <div className="flex flex-col gap-0.5 px-0.5">
+                    <p className="text-text-primary text-xs font-medium leading-tight line-clamp-1">
+                      {show.name}
+                    </p>
+                    {roles.length > 0 && (
+                      <p className="text-text-muted text-[10px] font-light line-clamp-1">
+                        {roles.join(", ")}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
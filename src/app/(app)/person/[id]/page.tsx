@@ -0,0 +1,51 @@
+import { notFound } from "next/navigation";
+import PersonView from "./PersonView";
+import { getMetadataProvider, isNotFoundError } from "@/lib/metadata";
+import { createClient } from "@/lib/supabase/server";
+import type { PersonDetail } from "@/types";
+
+export default async function PersonPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const id = parseInt(params.id, 10);
+  if (isNaN(id)) notFound();
+
+  const metadata = getMetadataProvider();
+  let person: PersonDetail;
+
+  try {
+    person = await metadata.getPerson(id);
+  } catch (err) {
+    // Only a genuine 404 is "not found" — outages surface as errors
+    if (!isNotFoundError(err)) throw err;
+    notFound();
+    return null as never;
+  }
+
+  // Which of this person's shows are already in My Shows
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  let trackedIds: number[] = [];
+  if (user) {
+    const { data } = await supabase
+      .from("user_shows")
+      .select("external_id")
+      .eq("provider", metadata.name)
+      .in("external_id", person.credits.map((c) => c.show.id));
+    trackedIds = (data ?? []).map((r) => r.external_id as number);
+  }
+
+  return (
+    <PersonView
+      provider={metadata.name}
+      person={person}
+      initialTrackedIds={trackedIds}
+      isLoggedIn={!!user}
+    />
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { DiscoverFacet, DiscoverFacetType } from "@/types";
+
+interface FacetPickerProps {
+  type: DiscoverFacetType;
+  placeholder: string;
+  selected: DiscoverFacet[];
+  onChange: (next: DiscoverFacet[]) => void;
+}
+
+/**
+ * Multi-select autocomplete for the keyword / network discover filters,
+ * backed by /api/discover/facets. Selections apply immediately — the
+ * caller writes them to the URL.
+ */
+export default function FacetPicker({ type, placeholder, selected, onChange }: FacetPickerProps) {
+  const [query, setQuery] = useState("");
+  const [options, setOptions] = useState<DiscoverFacet[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    // Keywords have no useful default list; networks show the curated set
+    if (!trimmed && type === "keyword") {
+      setOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(
+          `/api/discover/facets?type=${type}&q=${encodeURIComponent(trimmed)}`
+        );
+        if (!res.ok) throw new Error("Facet search failed");
+        const data: DiscoverFacet[] = await res.json();
+        if (!cancelled) setOptions(data);
+      } catch {
+        if (!cancelled) setOptions([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, type]);
+
+  const selectedIds = new Set(selected.map((f) => f.id));
+
+  function toggle(facet: DiscoverFacet) {
+    onChange(
+      selectedIds.has(facet.id)
+        ? selected.filter((f) => f.id !== facet.id)
+        : [...selected, facet]
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Current selection */}
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((facet) => (
+            <button
+              key={facet.id}
+              onClick={() => toggle(facet)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-accent/15 border border-accent/40 text-accent text-xs font-medium"
+            >
+              {facet.name}
+              <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                <line x1="18" y1="6" x2="6" y2="18" />
+                <line x1="6" y1="6" x2="18" y2="18" />
+              </svg>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={placeholder}
+        className="
+          w-full bg-bg-raised border border-white/5 rounded-xl
+          px-4 py-3
+          text-text-primary placeholder:text-text-muted
+          text-sm
+          focus:outline-none focus:ring-1 focus:ring-accent/60 focus:border-accent/40
+          transition-colors duration-200
+        "
+      />
+
+      <div className="flex flex-col gap-2 max-h-[45vh] overflow-y-auto">
+        {options.map((facet) => {
+          const isSelected = selectedIds.has(facet.id);
+          return (
+            <button
+              key={facet.id}
+              onClick={() => toggle(facet)}
+              className={`
+                flex items-center justify-between px-4 py-3.5 rounded-xl
+                border transition-colors duration-150 text-left w-full flex-shrink-0
+                ${isSelected
+                  ? "bg-accent/15 border-accent/40 text-accent"
+                  : "bg-bg-raised border-white/5 text-text-secondary hover:border-white/15 hover:text-text-primary"
+                }
+              `}
+            >
+              <span className="text-sm font-medium">{facet.name}</span>
+              {isSelected && (
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                  <polyline points="20 6 9 17 4 12" />
+                </svg>
+              )}
+            </button>
+          );
+        })}
+        {!loading && options.length === 0 && query.trim() && (
+          <p className="text-text-muted text-sm text-center py-4">No matches</p>
+        )}
+      </div>
+    </div>
+  );
+}
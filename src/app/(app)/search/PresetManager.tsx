@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import {
+  createSavedSearch,
+  renameSavedSearch,
+  deleteSavedSearch,
+} from "@/lib/saved-searches";
+import type { SavedSearch } from "@/types";
+
+interface PresetManagerProps {
+  presets: SavedSearch[];
+  onChange: (next: SavedSearch[]) => void;
+  /** Canonical filter params of the current /search URL ("" with no filters) */
+  currentFilters: string;
+  /** Results on screen now — the new preset's "seen" baseline */
+  currentIds: number[];
+  onApply: (preset: SavedSearch) => void;
+}
+
+/**
+ * Presets sheet: save the current filters under a name, and open, rename or
+ * delete saved ones. Changes apply optimistically and roll back on failure.
+ */
+export default function PresetManager({
+  presets,
+  onChange,
+  currentFilters,
+  currentIds,
+  onApply,
+}: PresetManagerProps) {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const savedAs = currentFilters ? presets.find((p) => p.params === currentFilters) : undefined;
+
+  async function handleSave() {
+    if (!name.trim() || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const preset = await createSavedSearch(name, currentFilters, currentIds);
+      onChange([...presets, preset]);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't save preset");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRename(preset: SavedSearch) {
+    const next = renameValue.trim();
+    setRenamingId(null);
+    if (!next || next === preset.name) return;
+    setError(null);
+    onChange(presets.map((p) => (p.id === preset.id ? { ...p, name: next } : p)));
+    try {
+      await renameSavedSearch(preset.id, next);
+    } catch (err) {
+      onChange(presets);
+      setError(err instanceof Error ? err.message : "Couldn't rename preset");
+    }
+  }
+
+  async function handleDelete(preset: SavedSearch) {
+    setError(null);
+    onChange(presets.filter((p) => p.id !== preset.id));
+    try {
+      await deleteSavedSearch(preset.id);
+    } catch {
+      onChange(presets);
+      setError("Couldn't delete preset");
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-5 max-h-[70vh] overflow-y-auto">
+      {/* Save current filters */}
+      <div>
+        <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">Save current filters</p>
+        {!currentFilters ? (
+          <p className="text-text-muted text-sm">Pick a genre or filter first, then save it here.</p>
+        ) : savedAs ? (
+          <p className="text-text-muted text-sm">
+            Saved as <span className="text-accent font-medium">{savedAs.name}</span>
+          </p>
+        ) : (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") handleSave(); }}
+              placeholder="Preset name, e.g. Weekend crime"
+              maxLength={40}
+              className="
+                flex-1 bg-bg-raised border border-white/5 rounded-xl
+                px-4 py-3 text-sm text-text-primary placeholder:text-text-muted
+                focus:outline-none focus:ring-1 focus:ring-accent/60 focus:border-accent/40
+              "
+            />
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || saving}
+              className="px-4 rounded-xl bg-accent text-white text-sm font-medium disabled:opacity-40 transition-opacity duration-150"
+            >
+              Save
+            </button>
+          </div>
+        )}
+        {error && <p className="mt-2 text-red-400 text-xs">{error}</p>}
+      </div>
+
+      {/* Saved presets */}
+      {presets.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">My presets</p>
+          <div className="flex flex-col gap-2">
+            {presets.map((preset) => (
+              <div
+                key={preset.id}
+                className={`
+                  flex items-center gap-2 px-4 py-2.5 rounded-xl border flex-shrink-0
+                  ${preset.id === savedAs?.id
+                    ? "bg-accent/15 border-accent/40"
+                    : "bg-bg-raised border-white/5"
+                  }
+                `}
+              >
+                {renamingId === preset.id ? (
+                  <input
+                    type="text"
+                    value={renameValue}
+                    autoFocus
+                    maxLength={40}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => handleRename(preset)}
+                    onKeyDown={(e) => {
+                      // Blur saves, so Enter and clicking away behave the same
+                      if (e.key === "Enter") e.currentTarget.blur();
+                      if (e.key === "Escape") setRenamingId(null);
+                    }}
+                    className="flex-1 bg-transparent text-sm text-text-primary focus:outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => onApply(preset)}
+                    className="flex-1 text-left text-sm font-medium text-text-secondary hover:text-text-primary py-1"
+                  >
+                    {preset.name}
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setRenamingId(preset.id);
+                    setRenameValue(preset.name);
+                  }}
+                  className="text-xs text-text-muted hover:text-text-primary transition-colors duration-150"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDelete(preset)}
+                  className="text-xs text-text-muted hover:text-red-400 transition-colors duration-150"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
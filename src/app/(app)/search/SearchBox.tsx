@@ -0,0 +1,300 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { STATUS_CONFIG } from "@/components/ui/ShowCard";
+import {
+  getRecentSearches,
+  recordSearch,
+  removeRecentSearch,
+  clearSearchHistory,
+} from "@/lib/search-history";
+import { resultParam } from "@/lib/show-ref";
+import type { RecentSearch, SearchSuggestion, TrackedStatuses } from "@/types";
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Recent searches are per user — hidden when signed out */
+  isLoggedIn: boolean;
+}
+
+/** One row in the dropdown — recent queries when empty, suggestions otherwise */
+type Option =
+  | { kind: "recent"; query: string }
+  | { kind: "suggestion"; suggestion: SearchSuggestion };
+
+const LISTBOX_ID = "search-suggestions";
+
+/**
+ * Search input with a typeahead dropdown: recent queries while empty, show
+ * and people suggestions (/api/search/suggest) while typing. Arrow keys move
+ * through the list, Enter opens the highlighted row or commits the query to
+ * the user's history, Escape closes it.
+ */
+export default function SearchBox({ value, onChange, isLoggedIn }: SearchBoxProps) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [recent, setRecent] = useState<RecentSearch[]>([]);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [tracked, setTracked] = useState<TrackedStatuses>({});
+
+  const trimmed = value.trim();
+
+  // Recent queries — refreshed each time the empty box opens
+  useEffect(() => {
+    if (!open || trimmed || !isLoggedIn) return;
+    let cancelled = false;
+    getRecentSearches()
+      .then((rows) => { if (!cancelled) setRecent(rows); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [open, trimmed, isLoggedIn]);
+
+  // Suggestions — shorter debounce than the results grid, they're cheap
+  useEffect(() => {
+    setHighlighted(-1);
+    if (!trimmed) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search/suggest?q=${encodeURIComponent(trimmed)}`);
+        if (!res.ok) throw new Error("Suggest failed");
+        const data: { suggestions: SearchSuggestion[]; tracked: TrackedStatuses } = await res.json();
+        if (!cancelled) {
+          setSuggestions(data.suggestions);
+          setTracked(data.tracked);
+        }
+      } catch {
+        if (!cancelled) setSuggestions([]);
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed]);
+
+  const options: Option[] = trimmed
+    ? suggestions.map((suggestion) => ({ kind: "suggestion", suggestion }))
+    : isLoggedIn
+      ? recent.map((r) => ({ kind: "recent", query: r.query }))
+      : [];
+  const showDropdown = open && options.length > 0;
+
+  // ── Handlers ───────────────────────────────────────────────────────────────
+
+  function remember(query: string) {
+    if (isLoggedIn && query.trim()) recordSearch(query).catch(() => {});
+  }
+
+  function choose(option: Option) {
+    setOpen(false);
+    if (option.kind === "recent") {
+      onChange(option.query);
+      remember(option.query);
+      return;
+    }
+    remember(value);
+    const { suggestion } = option;
+    router.push(
+      suggestion.type === "show" ? `/show/${resultParam(suggestion.show)}` : `/person/${suggestion.person.id}`
+    );
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (options.length === 0) return;
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      // Wraps through -1 (no highlight), so the typed text stays reachable
+      setHighlighted((prev) => ((prev + 1 + step + options.length + 1) % (options.length + 1)) - 1);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (showDropdown && highlighted >= 0) {
+        choose(options[highlighted]);
+      } else {
+        remember(value);
+        setOpen(false);
+        inputRef.current?.blur();
+      }
+    } else if (e.key === "Escape") {
+      setOpen(false);
+      setHighlighted(-1);
+    }
+  }
+
+  function handleRemoveRecent(query: string) {
+    setRecent((prev) => prev.filter((r) => r.query !== query));
+    removeRecentSearch(query).catch(() => {});
+  }
+
+  function handleClearRecent() {
+    setRecent([]);
+    clearSearchHistory().catch(() => {});
+  }
+
+  return (
+    <div className="relative">
+      <div className="absolute inset-y-0 left-3.5 flex items-center pointer-events-none">
+        <svg
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="text-text-muted"
+        >
+          <circle cx="11" cy="11" r="8" />
+          <line x1="21" y1="21" x2="16.65" y2="16.65" />
+        </svg>
+      </div>
+      <input
+        ref={inputRef}
+        type="search"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search shows or people..."
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls={LISTBOX_ID}
+        aria-autocomplete="list"
+        aria-activedescendant={showDropdown && highlighted >= 0 ? `${LISTBOX_ID}-${highlighted}` : undefined}
+        className="
+          w-full bg-bg-surface border border-white/5 rounded-xl
+          pl-10 pr-4 py-3
+          text-text-primary placeholder:text-text-muted
+          text-sm
+          focus:outline-none focus:ring-1 focus:ring-accent/60 focus:border-accent/40
+          transition-colors duration-200
+        "
+      />
+
+      {showDropdown && (
+        <div
+          // Keep focus in the input so blur doesn't close the list mid-click
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute z-30 left-0 right-0 mt-2 bg-bg-raised border border-white/10 rounded-xl shadow-xl overflow-hidden"
+        >
+          {!trimmed && (
+            <div className="flex items-center justify-between px-4 pt-3 pb-1">
+              <span className="text-text-muted text-xs font-medium">Recent searches</span>
+              <button
+                onClick={handleClearRecent}
+                className="text-text-muted text-xs hover:text-text-primary transition-colors duration-150"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
+          <ul id={LISTBOX_ID} role="listbox" className="py-1 max-h-[60vh] overflow-y-auto">
+            {options.map((option, index) => (
+              <li
+                key={option.kind === "recent" ? `recent:${option.query}` : suggestionKey(option.suggestion)}
+                id={`${LISTBOX_ID}-${index}`}
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseEnter={() => setHighlighted(index)}
+                onClick={() => choose(option)}
+                className={`
+                  flex items-center gap-3 px-4 py-2.5 cursor-pointer
+                  ${index === highlighted ? "bg-white/5" : ""}
+                `}
+              >
+                {option.kind === "recent" ? (
+                  <>
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-text-muted flex-shrink-0">
+                      <circle cx="12" cy="12" r="10" />
+                      <polyline points="12 6 12 12 16 14" />
+                    </svg>
+                    <span className="flex-1 text-sm text-text-secondary line-clamp-1">{option.query}</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemoveRecent(option.query);
+                      }}
+                      aria-label={`Remove ${option.query} from recent searches`}
+                      className="text-text-muted hover:text-text-primary transition-colors duration-150"
+                    >
+                      <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                      </svg>
+                    </button>
+                  </>
+                ) : (
+                  <SuggestionRow suggestion={option.suggestion} tracked={tracked} />
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function suggestionKey(suggestion: SearchSuggestion): string {
+  return suggestion.type === "show" ? `show:${resultParam(suggestion.show)}` : `person:${suggestion.person.id}`;
+}
+
+// ── Suggestion row ────────────────────────────────────────────────────────────
+
+function SuggestionRow({ suggestion, tracked }: { suggestion: SearchSuggestion; tracked: TrackedStatuses }) {
+  const isShow = suggestion.type === "show";
+  const name = isShow ? suggestion.show.name : suggestion.person.name;
+  const image = isShow
+    ? suggestion.show.image?.medium ?? null
+    : suggestion.person.profileImage;
+  const detail = isShow
+    ? [suggestion.show.premiered?.slice(0, 4), suggestion.show.network?.name ?? suggestion.show.webChannel?.name]
+        .filter(Boolean)
+        .join(" · ")
+    : [suggestion.person.knownForDepartment, suggestion.person.knownFor.slice(0, 2).join(", ")]
+        .filter(Boolean)
+        .join(" · ");
+  const status = isShow ? tracked[resultParam(suggestion.show)] : undefined;
+
+  return (
+    <>
+      <div
+        className={`
+          relative flex-shrink-0 w-8 overflow-hidden bg-bg-surface
+          ${isShow ? "h-12 rounded-md" : "h-8 rounded-full"}
+        `}
+      >
+        {image && <Image src={image} alt={name} fill sizes="32px" className="object-cover" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-text-primary line-clamp-1">{name}</p>
+        <p className="text-xs text-text-muted line-clamp-1">
+          {isShow ? detail || "TV show" : detail || "Person"}
+        </p>
+      </div>
+      {status && (
+        <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-[10px] font-medium border ${STATUS_CONFIG[status].color}`}>
+          {STATUS_CONFIG[status].label}
+        </span>
+      )}
+    </>
+  );
+}
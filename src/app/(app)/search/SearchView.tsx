@@ -2,10 +2,25 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
+import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import ShowCard from "@/components/ui/ShowCard";
 import SkeletonCard, { SkeletonText } from "@/components/ui/SkeletonCard";
-import type { TVMazeShow } from "@/types";
+import PresetChips from "@/components/ui/PresetChips";
+import { discoverApiUrl, filterParams } from "@/lib/discover-params";
+import { markSavedSearchSeen } from "@/lib/saved-searches";
+import { resultParam } from "@/lib/show-ref";
+import FacetPicker from "./FacetPicker";
+import SearchBox from "./SearchBox";
+import PresetManager from "./PresetManager";
+import type {
+  TVMazeShow,
+  DiscoverFacet,
+  DiscoverFacetType,
+  SearchPage,
+  TrackedStatuses,
+  SavedSearch,
+} from "@/types";
 
 const GENRES = [
   "Drama",
@@ -22,15 +37,69 @@ const GENRES = [
   "Talk",
 ] as const;
 
-const PLATFORMS = [
-  "Netflix",
-  "Prime Video",
-  "Disney+ Hotstar",
-  "JioCinema",
-  "SonyLIV",
-  "ZEE5",
-  "Apple TV+",
-] as const;
+// Curated origin countries (ISO 3166-1 code → display name)
+const COUNTRIES: Array<{ code: string; label: string }> = [
+  { code: "US", label: "United States"  },
+  { code: "GB", label: "United Kingdom" },
+  { code: "IN", label: "India"          },
+  { code: "KR", label: "South Korea"    },
+  { code: "JP", label: "Japan"          },
+  { code: "CA", label: "Canada"         },
+  { code: "AU", label: "Australia"      },
+  { code: "DE", label: "Germany"        },
+  { code: "FR", label: "France"         },
+  { code: "ES", label: "Spain"          },
+  { code: "IT", label: "Italy"          },
+  { code: "SE", label: "Sweden"         },
+  { code: "DK", label: "Denmark"        },
+  { code: "NO", label: "Norway"         },
+  { code: "TR", label: "Turkey"         },
+  { code: "BR", label: "Brazil"         },
+  { code: "MX", label: "Mexico"         },
+];
+
+// First-air-year options for the Years sheet, newest first
+const FIRST_YEAR = 1950;
+const YEARS = Array.from(
+  { length: new Date().getFullYear() - FIRST_YEAR + 2 },
+  (_, i) => new Date().getFullYear() + 1 - i
+);
+
+// Length sheet presets — ranges in the /api/discover "min-max" format
+const RUNTIME_PRESETS: Array<{ value: string; label: string }> = [
+  { value: "",      label: "Any length"   },
+  { value: "-30",   label: "Under 30 min" },
+  { value: "30-60", label: "30–60 min"    },
+  { value: "60-",   label: "Over an hour" },
+];
+
+const COMMITMENT_PRESETS: Array<{ label: string; episodes: string; seasons: string }> = [
+  { label: "Any size",             episodes: "",     seasons: ""   },
+  { label: "Miniseries",           episodes: "",     seasons: "-1" },
+  { label: "Up to 3 seasons",      episodes: "",     seasons: "-3" },
+  { label: "Under 30 episodes",    episodes: "-30",  seasons: ""   },
+  { label: "Long haul (100+ eps)", episodes: "100-", seasons: ""   },
+];
+
+/** "Crime,Drama" → ["Crime", "Drama"] */
+function parseNameList(value: string): string[] {
+  return value ? value.split(",") : [];
+}
+
+/** One page of typed search results, with the user's tracked statuses and the IDs on their services */
+async function fetchSearchPage(
+  query: string,
+  page: number
+): Promise<SearchPage & { tracked: TrackedStatuses; onServices: string[] }> {
+  const res = await fetch(`/api/search?q=${encodeURIComponent(query)}&page=${page}`);
+  if (!res.ok) throw new Error("Search failed");
+  return res.json();
+}
+
+/** "49,213" → [49, 213] */
+function parseIdList(value: string): number[] {
+  return value.split(",").map(Number).filter((id) => Number.isInteger(id) && id > 0);
+}
 
 const gridContainerVariants = {
   hidden: {},
@@ -44,13 +113,18 @@ const gridContainerVariants = {
 type SearchStatus   = "idle" | "loading" | "success" | "error" | "empty";
 type SortOption     = "popularity" | "rating" | "year_desc" | "year_asc" | "name";
 type StatusFilter   = "all" | "running" | "ended";
+type GenreMatch     = "all" | "any";
 type RatingFilter   = "any" | "7" | "8";
 type LanguageFilter = "all" | "en" | "hi" | "ta" | "te" | "ml" | "kn" | "ko" | "ja" | "fr" | "es" | "de" | "zh" | "pt";
-type PlatformFilter = "all" | typeof PLATFORMS[number];
-type ActiveSheet    = "sort" | "status" | "rating" | "platform" | "language" | null;
+type ActiveSheet    = "sort" | "status" | "rating" | "services" | "language" | "network" | "keywords" | "country" | "years" | "length" | "presets" | null;
 
 interface SearchViewProps {
   popularShows: TVMazeShow[];
+  isLoggedIn: boolean;
+  /** Whether the user has picked their streaming services in Settings */
+  hasSubscriptions: boolean;
+  /** The user's saved filter presets (empty when signed out) */
+  initialPresets: SavedSearch[];
 }
 
 // ── Fallback types ──────────────────────────────────────────────────────────
@@ -104,13 +178,19 @@ function FilterChip({
   );
 }
 
-export default function SearchView({ popularShows }: SearchViewProps) {
+export default function SearchView({ popularShows, isLoggedIn, hasSubscriptions, initialPresets }: SearchViewProps) {
   const searchParams = useSearchParams();
   const router = useRouter();
   const pathname = usePathname();
 
   // ── URL search params are the SINGLE SOURCE OF TRUTH for filters ──────────
-  const activeGenre    = searchParams.get("genre") ?? null;
+  // Genres: included ("Crime,Drama", all of them unless genre_match=any) and excluded
+  const genreParam     = searchParams.get("genre") ?? "";
+  const excludeParam   = searchParams.get("exclude") ?? "";
+  const genreMatch     = (searchParams.get("genre_match") as GenreMatch) || "all";
+  const includedGenres = parseNameList(genreParam);
+  const excludedGenres = parseNameList(excludeParam);
+  const hasGenreFilter = includedGenres.length > 0 || excludedGenres.length > 0;
   const sortOption     = (searchParams.get("sort") as SortOption) || "popularity";
   const statusFilter   = (searchParams.get("status") as StatusFilter) || "all";
   const ratingFilter   = (searchParams.get("rating") as RatingFilter) || "any";
@@ -133,17 +213,41 @@ export default function SearchView({ popularShows }: SearchViewProps) {
     { code: "zh",  label: "Chinese"       },
     { code: "pt",  label: "Portuguese"    },
   ];
-  const platformFilter = (searchParams.get("platform") as PlatformFilter) || "all";
+  // Only shows streaming on the user's subscribed services
+  const myServices     = searchParams.get("my_services") === "1";
+  // Keyword / network IDs ("1,2"), origin country code and year range ("2010-2015")
+  const keywordsParam  = searchParams.get("keywords") ?? "";
+  const networksParam  = searchParams.get("networks") ?? "";
+  const countryFilter  = searchParams.get("country") || "all";
+  const yearsParam     = searchParams.get("years") ?? "";
+  const [yearFrom = "", yearTo = ""] = yearsParam.split("-");
+  // Episode runtime ("30-60" minutes) and commitment size (episode / season count bounds)
+  const runtimeParam   = searchParams.get("runtime") ?? "";
+  const episodesParam  = searchParams.get("episodes") ?? "";
+  const seasonsParam   = searchParams.get("seasons") ?? "";
 
   const activeFilterCount =
     (sortOption      !== "popularity" ? 1 : 0) +
     (statusFilter    !== "all"        ? 1 : 0) +
     (ratingFilter    !== "any"        ? 1 : 0) +
     (langFilter      !== "all"        ? 1 : 0) +
-    (platformFilter  !== "all"        ? 1 : 0);
+    (myServices                       ? 1 : 0) +
+    (networksParam   !== ""           ? 1 : 0) +
+    (keywordsParam   !== ""           ? 1 : 0) +
+    (countryFilter   !== "all"        ? 1 : 0) +
+    (yearsParam      !== ""           ? 1 : 0) +
+    (runtimeParam    !== ""           ? 1 : 0) +
+    (episodesParam || seasonsParam    ? 1 : 0);
 
   // Are any filters/genre active? If so, we use server-side discover.
-  const useServerDiscover = !!(activeGenre || activeFilterCount > 0);
+  const useServerDiscover = hasGenreFilter || activeFilterCount > 0;
+
+  // Saved presets — the one matching the current filters is "open"
+  const [presets, setPresets] = useState<SavedSearch[]>(initialPresets);
+  const currentFilters = filterParams(searchParams);
+  const activePreset = currentFilters ? presets.find((p) => p.params === currentFilters) ?? null : null;
+  const activePresetRef = useRef(activePreset);
+  activePresetRef.current = activePreset;
 
   // ── Local state ────────────────────────────────────────────────────────────
   const [activeSheet, setActiveSheet] = useState<ActiveSheet>(null);
@@ -170,16 +274,32 @@ export default function SearchView({ popularShows }: SearchViewProps) {
   const [searchResults, setSearchResults] = useState<TVMazeShow[]>([]);
   const [status, setStatus] = useState<SearchStatus>("idle");
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Typed search pages through /api/search; results the user tracks get a badge
+  const [searchPage, setSearchPage] = useState(1);
+  const [searchTotalPages, setSearchTotalPages] = useState(0);
+  const [searchLoadingMore, setSearchLoadingMore] = useState(false);
+  const [trackedStatuses, setTrackedStatuses] = useState<TrackedStatuses>({});
+  // Results (resultParam keys) streaming on the user's services, from search + discover responses
+  const [onServices, setOnServices] = useState<Set<string>>(new Set());
+  const searchQueryRef = useRef("");
 
   // Discover state (server-paginated) — used for genre AND filtered popular
   const [discoverShows, setDiscoverShows] = useState<TVMazeShow[]>([]);
   const [discoverPage, setDiscoverPage] = useState(1);
   const [discoverTotalPages, setDiscoverTotalPages] = useState(0);
+  // Rating sort pages by cursor: next slice's cursor, null at the end, undefined for page numbers
+  const [discoverCursor, setDiscoverCursor] = useState<string | null | undefined>(undefined);
   const [discoverLoading, setDiscoverLoading] = useState(false);
+  const discoverHasMore = discoverCursor !== undefined
+    ? discoverCursor !== null
+    : discoverPage < discoverTotalPages;
 
   // Fallback state — set when server-side discover returns 0 results
   const [serverFallback, setServerFallback] = useState<FallbackInfo | null>(null);
 
+  // Keyword / network names by "type:id" — the URL only carries IDs
+  const [facetNames, setFacetNames] = useState<Record<string, string>>({});
+
   // Popular shows infinite scroll (client-side virtual pagination, no filters)
   const [visibleCount, setVisibleCount] = useState(20);
 
@@ -203,32 +323,28 @@ export default function SearchView({ popularShows }: SearchViewProps) {
 
   // ── Build discover URL with filters ────────────────────────────────────────
   const buildDiscoverUrl = useCallback(
-    (page: number): string => {
-      const params = new URLSearchParams({
-        page: String(page),
-      });
-      if (activeGenre) params.set("genre", activeGenre);
-      if (sortOption !== "popularity") params.set("sort", sortOption);
-      if (statusFilter !== "all") params.set("status", statusFilter);
-      if (ratingFilter !== "any") params.set("rating", ratingFilter);
-      if (langFilter !== "all") params.set("language", langFilter);
-      if (platformFilter !== "all") params.set("platform", platformFilter);
-      return `/api/discover?${params.toString()}`;
-    },
-    [activeGenre, sortOption, statusFilter, ratingFilter, langFilter, platformFilter]
+    (page: number, cursor?: string): string => discoverApiUrl(searchParams, page, cursor),
+    [searchParams]
   );
 
+  const addOnServices = useCallback((keys: string[]) => {
+    setOnServices((prev) => new Set([...Array.from(prev), ...keys]));
+  }, []);
+
   // ── Fetch discover results from /api/discover ─────────────────────────────
   const fetchDiscover = useCallback(async (url: string, append: boolean) => {
     setDiscoverLoading(true);
     if (!append) setServerFallback(null);
+    const preset = append ? null : activePresetRef.current;
     try {
       const res = await fetch(url);
       if (!res.ok) throw new Error("Discover failed");
       const data: {
         shows: TVMazeShow[];
         totalPages: number;
+        nextCursor?: string | null;
         fallback?: FallbackInfo;
+        onServices?: string[];
       } = await res.json();
 
       if (append) {
@@ -236,7 +352,17 @@ export default function SearchView({ popularShows }: SearchViewProps) {
       } else {
         setDiscoverShows(data.shows);
       }
+      if (data.onServices?.length) addOnServices(data.onServices);
+
+      // Opening a preset resets its "new since last visit" baseline — unless a
+      // fallback provider served the results, whose IDs can't be compared
+      if (preset && !data.shows.some((s) => s.provider)) {
+        const seenIds = data.shows.map((s) => s.id);
+        setPresets((prev) => prev.map((p) => (p.id === preset.id ? { ...p, seen_ids: seenIds } : p)));
+        markSavedSearchSeen(preset.id, seenIds).catch(() => {});
+      }
       setDiscoverTotalPages(data.totalPages);
+      setDiscoverCursor(data.nextCursor);
 
       // If primary query returned empty but API provided fallback results
       if (data.shows.length === 0 && data.fallback) {
@@ -251,7 +377,7 @@ export default function SearchView({ popularShows }: SearchViewProps) {
     } finally {
       setDiscoverLoading(false);
     }
-  }, []);
+  }, [addOnServices]);
 
   // When genre or any filter changes, fetch page 1 from discover
   useEffect(() => {
@@ -259,11 +385,27 @@ export default function SearchView({ popularShows }: SearchViewProps) {
       setDiscoverShows([]);
       setDiscoverPage(1);
       setDiscoverTotalPages(0);
+      setDiscoverCursor(undefined);
       setStatus("idle");
       fetchDiscover(buildDiscoverUrl(1), false);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeGenre, isTyping, sortOption, statusFilter, ratingFilter, langFilter, platformFilter]);
+  }, [genreParam, genreMatch, excludeParam, isTyping, sortOption, statusFilter, ratingFilter, langFilter, myServices,
+      networksParam, keywordsParam, countryFilter, yearsParam, runtimeParam, episodesParam, seasonsParam]);
+
+  // Resolve names for keyword / network IDs that arrived via the URL
+  useEffect(() => {
+    const params = [["network", networksParam], ["keyword", keywordsParam]] as const;
+    for (const [type, param] of params) {
+      const ids = parseIdList(param).filter((id) => !facetNames[`${type}:${id}`]);
+      if (ids.length === 0) continue;
+      fetch(`/api/discover/facets?type=${type}&ids=${ids.join(",")}`)
+        .then((res) => (res.ok ? res.json() : []))
+        .then((facets: DiscoverFacet[]) => rememberFacets(type, facets))
+        .catch(() => {});
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [networksParam, keywordsParam]);
 
   // ── Typed search query → /api/search ───────────────────────────────────────
   useEffect(() => {
@@ -273,18 +415,22 @@ export default function SearchView({ popularShows }: SearchViewProps) {
     if (trimmed.length === 0) {
       setStatus("idle");
       setSearchResults([]);
+      setSearchTotalPages(0);
       return;
     }
 
     if (debounceRef.current) clearTimeout(debounceRef.current);
     setStatus("loading");
+    searchQueryRef.current = trimmed;
 
     debounceRef.current = setTimeout(async () => {
       try {
-        const res = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`);
-        if (!res.ok) throw new Error("Search failed");
-        const data: Array<{ show: TVMazeShow }> = await res.json();
-        const shows = data.map((r) => r.show);
+        const data = await fetchSearchPage(trimmed, 1);
+        const shows = data.results.map((r) => r.show);
+        setSearchPage(1);
+        setSearchTotalPages(data.totalPages);
+        setTrackedStatuses(data.tracked);
+        addOnServices(data.onServices);
         if (shows.length === 0) {
           setStatus("empty");
           setSearchResults([]);
@@ -295,13 +441,14 @@ export default function SearchView({ popularShows }: SearchViewProps) {
       } catch {
         setStatus("error");
         setSearchResults([]);
+        setSearchTotalPages(0);
       }
     }, 300);
 
     return () => {
       if (debounceRef.current) clearTimeout(debounceRef.current);
     };
-  }, [query]);
+  }, [query, addOnServices]);
 
   // ── Infinite scroll ────────────────────────────────────────────────────────
   useEffect(() => {
@@ -314,9 +461,12 @@ export default function SearchView({ popularShows }: SearchViewProps) {
 
         if (useServerDiscover && !isTyping) {
           // Server-side pagination: load next page from discover
-          if (!discoverLoading && discoverPage < discoverTotalPages) {
-            fetchDiscover(buildDiscoverUrl(discoverPage + 1), true);
+          if (!discoverLoading && discoverHasMore) {
+            fetchDiscover(buildDiscoverUrl(discoverPage + 1, discoverCursor ?? undefined), true);
           }
+        } else if (isTyping) {
+          // Deep search results: next page from /api/search
+          if (!searchLoadingMore && searchPage < searchTotalPages) loadMoreSearchResults();
         } else {
           // Client-side virtual pagination for default popular / search results
           setVisibleCount((prev) => prev + 20);
@@ -327,7 +477,8 @@ export default function SearchView({ popularShows }: SearchViewProps) {
     observer.observe(sentinel);
     return () => observer.disconnect();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [useServerDiscover, isTyping, discoverLoading, discoverPage, discoverTotalPages, buildDiscoverUrl]);
+  }, [useServerDiscover, isTyping, discoverLoading, discoverPage, discoverHasMore, discoverCursor, buildDiscoverUrl,
+      searchLoadingMore, searchPage, searchTotalPages]);
 
   // Close sheet on backdrop scroll (UX: dismiss when user scrolls away)
   useEffect(() => {
@@ -341,19 +492,49 @@ export default function SearchView({ popularShows }: SearchViewProps) {
 
   // ── Handlers ───────────────────────────────────────────────────────────────
 
+  /** Genre chips cycle: off → included → excluded → off */
   function handleGenreClick(genre: string) {
-    if (activeGenre === genre) {
-      setParams({ genre: null });
-    } else {
-      setParams({ genre });
+    const included = includedGenres.filter((g) => g !== genre);
+    const excluded = excludedGenres.filter((g) => g !== genre);
+    if (includedGenres.includes(genre)) {
+      excluded.push(genre);
+    } else if (!excludedGenres.includes(genre)) {
+      included.push(genre);
       setQuery("");
     }
+    setParams({
+      genre: included.join(","),
+      exclude: excluded.join(","),
+      genre_match: included.length > 1 ? searchParams.get("genre_match") : null,
+    });
   }
 
-  function handleInputChange(e: React.ChangeEvent<HTMLInputElement>) {
-    setQuery(e.target.value);
-    if (activeGenre !== null) {
-      setParams({ genre: null });
+  async function loadMoreSearchResults() {
+    const trimmed = searchQueryRef.current;
+    const next = searchPage + 1;
+    setSearchLoadingMore(true);
+    try {
+      const data = await fetchSearchPage(trimmed, next);
+      // A newer query may have replaced the results meanwhile
+      if (searchQueryRef.current !== trimmed) return;
+      setSearchResults((prev) => {
+        const seen = new Set(prev.map(resultParam));
+        return [...prev, ...data.results.map((r) => r.show).filter((s) => !seen.has(resultParam(s)))];
+      });
+      setTrackedStatuses((prev) => ({ ...prev, ...data.tracked }));
+      addOnServices(data.onServices);
+      setSearchPage(next);
+    } catch {
+      // Leave the sentinel up — scrolling again retries
+    } finally {
+      setSearchLoadingMore(false);
+    }
+  }
+
+  function handleInputChange(value: string) {
+    setQuery(value);
+    if (includedGenres.length > 0) {
+      setParams({ genre: null, genre_match: null });
     }
   }
 
@@ -363,21 +544,51 @@ export default function SearchView({ popularShows }: SearchViewProps) {
       status: null,
       rating: null,
       lang: null,
-      platform: null,
+      my_services: null,
+      networks: null,
+      keywords: null,
+      country: null,
+      years: null,
+      runtime: null,
+      episodes: null,
+      seasons: null,
     });
   }
 
+  function rememberFacets(type: DiscoverFacetType, facets: DiscoverFacet[]) {
+    setFacetNames((prev) => ({
+      ...prev,
+      ...Object.fromEntries(facets.map((f) => [`${type}:${f.id}`, f.name])),
+    }));
+  }
+
+  /** Facets for the IDs in a URL param, named where known */
+  function selectedFacets(type: DiscoverFacetType, param: string): DiscoverFacet[] {
+    return parseIdList(param).map((id) => ({ id, name: facetNames[`${type}:${id}`] ?? `#${id}` }));
+  }
+
+  function handleFacetChange(type: DiscoverFacetType, next: DiscoverFacet[]) {
+    rememberFacets(type, next);
+    setParams({ [type === "network" ? "networks" : "keywords"]: next.map((f) => f.id).join(",") || null });
+  }
+
+  function handleYearsChange(from: string, to: string) {
+    setParams({ years: from || to ? `${from}-${to}` : null });
+  }
+
   // ── Computed display values ────────────────────────────────────────────────
 
-  // For server-paginated paths: show all loaded. For default popular / search: slice.
-  const showsToRender = (useServerDiscover && !isTyping)
+  // For server-paginated paths (discover, search): show all loaded. For default popular: slice.
+  const showsToRender = (useServerDiscover || isTyping)
     ? displayShows
     : displayShows.slice(0, visibleCount);
 
   // Show sentinel when there's more to load
-  const hasMore = (useServerDiscover && !isTyping)
-    ? discoverPage < discoverTotalPages
-    : visibleCount < displayShows.length;
+  const hasMore = isTyping
+    ? status === "success" && searchPage < searchTotalPages
+    : useServerDiscover
+      ? discoverHasMore
+      : visibleCount < displayShows.length;
 
   // Determine section label
   const sectionLabel = (() => {
@@ -385,7 +596,9 @@ export default function SearchView({ popularShows }: SearchViewProps) {
     if (status === "empty") return "No Results";
     if (status === "error") return "Something went wrong";
     if (isTyping && status === "success") return `Results for "${query}"`;
-    if (activeGenre) return `${activeGenre} Shows`;
+    if (includedGenres.length > 0) {
+      return `${includedGenres.join(genreMatch === "any" ? " or " : " + ")} Shows`;
+    }
     return "Popular Shows";
   })();
 
@@ -396,8 +609,23 @@ export default function SearchView({ popularShows }: SearchViewProps) {
   const sortLabel     = sortOption     !== "popularity" ? { popularity: "Popular", rating: "Rating", year_desc: "Newest", year_asc: "Oldest", name: "A→Z" }[sortOption] ?? "Sort"   : "Sort";
   const statusLabel   = statusFilter   !== "all"        ? statusFilter === "running" ? "Running" : "Ended"   : "Status";
   const ratingLabel   = ratingFilter   !== "any"        ? `${ratingFilter}.0+`                               : "Rating";
-  const platformLabel = platformFilter !== "all"        ? platformFilter                                      : "Platform";
   const langLabel     = langFilter     !== "all"        ? (LANGUAGES.find((l) => l.code === langFilter)?.label ?? "Language") : "Language";
+  const countryLabel  = countryFilter  !== "all"        ? (COUNTRIES.find((c) => c.code === countryFilter)?.label ?? countryFilter) : "Country";
+  const yearsLabel    = yearsParam     !== ""           ? (yearFrom && yearTo ? (yearFrom === yearTo ? yearFrom : `${yearFrom}–${yearTo}`) : yearFrom ? `${yearFrom}+` : `≤ ${yearTo}`) : "Years";
+
+  // Hand-edited URLs may hold ranges no preset covers
+  const lengthLabels = [
+    runtimeParam ? RUNTIME_PRESETS.find((p) => p.value === runtimeParam)?.label ?? "Custom length" : null,
+    episodesParam || seasonsParam
+      ? COMMITMENT_PRESETS.find((p) => p.episodes === episodesParam && p.seasons === seasonsParam)?.label ?? "Custom size"
+      : null,
+  ].filter((label): label is string => label !== null);
+  const lengthLabel = lengthLabels.length > 1 ? `Length · ${lengthLabels.length}` : lengthLabels[0] ?? "Length";
+
+  const selectedNetworks = selectedFacets("network", networksParam);
+  const selectedKeywords = selectedFacets("keyword", keywordsParam);
+  const facetLabel = (facets: DiscoverFacet[], fallback: string) =>
+    facets.length === 0 ? fallback : facets.length === 1 ? facets[0].name : `${fallback} · ${facets.length}`;
 
   return (
     <div className="flex flex-col gap-5 pt-12 pb-6">
@@ -409,39 +637,8 @@ export default function SearchView({ popularShows }: SearchViewProps) {
         </p>
       </div>
 
-      {/* Search input */}
-      <div className="relative">
-        <div className="absolute inset-y-0 left-3.5 flex items-center pointer-events-none">
-          <svg
-            width="18"
-            height="18"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            className="text-text-muted"
-          >
-            <circle cx="11" cy="11" r="8" />
-            <line x1="21" y1="21" x2="16.65" y2="16.65" />
-          </svg>
-        </div>
-        <input
-          type="search"
-          value={query}
-          onChange={handleInputChange}
-          placeholder="Search shows..."
-          className="
-            w-full bg-bg-surface border border-white/5 rounded-xl
-            pl-10 pr-4 py-3
-            text-text-primary placeholder:text-text-muted
-            text-sm
-            focus:outline-none focus:ring-1 focus:ring-accent/60 focus:border-accent/40
-            transition-colors duration-200
-          "
-        />
-      </div>
+      {/* Search input with suggestions and recent searches */}
+      <SearchBox value={query} onChange={handleInputChange} isLoggedIn={isLoggedIn} />
 
       {/* Genre chips */}
       <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1 -mx-4 px-4">
@@ -453,9 +650,11 @@ export default function SearchView({ popularShows }: SearchViewProps) {
               flex-shrink-0 px-3.5 py-1.5 rounded-full text-xs font-medium
               border transition-colors duration-150
               ${
-                activeGenre === genre
+                includedGenres.includes(genre)
                   ? "bg-accent border-accent text-white"
-                  : "bg-bg-surface border-white/10 text-text-secondary hover:border-accent/40 hover:text-text-primary"
+                  : excludedGenres.includes(genre)
+                    ? "bg-red-500/10 border-red-500/40 text-red-400 line-through"
+                    : "bg-bg-surface border-white/10 text-text-secondary hover:border-accent/40 hover:text-text-primary"
               }
             `}
           >
@@ -464,8 +663,46 @@ export default function SearchView({ popularShows }: SearchViewProps) {
         ))}
       </div>
 
+      {/* Genre match mode — tap a selected genre again to exclude it */}
+      {hasGenreFilter && (
+        <div className="flex items-center gap-2 -mt-2 text-xs text-text-muted">
+          {includedGenres.length > 1 ? (
+            <>
+              <span>Match</span>
+              {(["all", "any"] as GenreMatch[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setParams({ genre_match: mode === "any" ? "any" : null })}
+                  className={`
+                    px-2.5 py-1 rounded-full border transition-colors duration-150
+                    ${genreMatch === mode
+                      ? "bg-accent/15 border-accent/40 text-accent"
+                      : "bg-bg-surface border-white/10 text-text-secondary hover:text-text-primary"
+                    }
+                  `}
+                >
+                  {mode === "all" ? "All genres" : "Any genre"}
+                </button>
+              ))}
+            </>
+          ) : (
+            <span>Tap a selected genre again to exclude it</span>
+          )}
+        </div>
+      )}
+
+      {/* ── Saved presets row ── */}
+      {isLoggedIn && <PresetChips presets={presets} activeId={activePreset?.id} />}
+
       {/* ── Filter chips row ── */}
       <div className="flex items-center gap-2 overflow-x-auto no-scrollbar -mx-4 px-4 pb-0.5">
+        {isLoggedIn && (
+          <FilterChip
+            label={activePreset?.name ?? "Presets"}
+            active={activePreset !== null}
+            onClick={() => setActiveSheet(activeSheet === "presets" ? null : "presets")}
+          />
+        )}
         <FilterChip
           label={sortLabel}
           active={sortOption !== "popularity"}
@@ -481,16 +718,43 @@ export default function SearchView({ popularShows }: SearchViewProps) {
           active={ratingFilter !== "any"}
           onClick={() => setActiveSheet(activeSheet === "rating" ? null : "rating")}
         />
-        <FilterChip
-          label={platformLabel}
-          active={platformFilter !== "all"}
-          onClick={() => setActiveSheet(activeSheet === "platform" ? null : "platform")}
-        />
+        {(isLoggedIn || myServices) && (
+          <FilterChip
+            label={myServices ? "My services" : "Services"}
+            active={myServices}
+            onClick={() => setActiveSheet(activeSheet === "services" ? null : "services")}
+          />
+        )}
         <FilterChip
           label={langLabel}
           active={langFilter !== "all"}
           onClick={() => setActiveSheet(activeSheet === "language" ? null : "language")}
         />
+        <FilterChip
+          label={facetLabel(selectedNetworks, "Network")}
+          active={selectedNetworks.length > 0}
+          onClick={() => setActiveSheet(activeSheet === "network" ? null : "network")}
+        />
+        <FilterChip
+          label={facetLabel(selectedKeywords, "Keywords")}
+          active={selectedKeywords.length > 0}
+          onClick={() => setActiveSheet(activeSheet === "keywords" ? null : "keywords")}
+        />
+        <FilterChip
+          label={countryLabel}
+          active={countryFilter !== "all"}
+          onClick={() => setActiveSheet(activeSheet === "country" ? null : "country")}
+        />
+        <FilterChip
+          label={yearsLabel}
+          active={yearsParam !== ""}
+          onClick={() => setActiveSheet(activeSheet === "years" ? null : "years")}
+        />
+        <FilterChip
+          label={lengthLabel}
+          active={lengthLabels.length > 0}
+          onClick={() => setActiveSheet(activeSheet === "length" ? null : "length")}
+        />
         {activeFilterCount > 0 && (
           <button
             onClick={handleResetFilters}
@@ -602,7 +866,12 @@ export default function SearchView({ popularShows }: SearchViewProps) {
                       className="grid grid-cols-2 gap-3"
                     >
                       {serverFallback.shows.slice(0, 20).map((show, index) => (
-                        <ShowCard key={show.id} show={show} priority={index < 4} />
+                        <ShowCard
+                          key={resultParam(show)}
+                          show={show}
+                          priority={index < 4}
+                          onMyServices={onServices.has(resultParam(show))}
+                        />
                       ))}
                     </motion.div>
                   </AnimatePresence>
@@ -625,14 +894,20 @@ export default function SearchView({ popularShows }: SearchViewProps) {
             ) : (
               <AnimatePresence mode="wait">
                 <motion.div
-                  key={activeGenre ?? (isTyping ? "search" : "popular")}
+                  key={genreParam || (isTyping ? "search" : "popular")}
                   variants={gridContainerVariants}
                   initial="hidden"
                   animate="show"
                   className="grid grid-cols-2 gap-3"
                 >
                   {showsToRender.map((show, index) => (
-                    <ShowCard key={show.id} show={show} priority={index < 4} />
+                    <ShowCard
+                      key={resultParam(show)}
+                      show={show}
+                      priority={index < 4}
+                      trackedStatus={isTyping ? trackedStatuses[resultParam(show)] : undefined}
+                      onMyServices={onServices.has(resultParam(show))}
+                    />
                   ))}
                 </motion.div>
               </AnimatePresence>
@@ -641,7 +916,7 @@ export default function SearchView({ popularShows }: SearchViewProps) {
             {/* Sentinel — loads more on scroll */}
             {hasMore && (
               <div ref={sentinelRef} className="h-8 mt-2 flex items-center justify-center">
-                {discoverLoading && (
+                {(discoverLoading || searchLoadingMore) && (
                   <div className="w-5 h-5 border-2 border-accent/30 border-t-accent rounded-full animate-spin" />
                 )}
               </div>
@@ -809,51 +1084,34 @@ export default function SearchView({ popularShows }: SearchViewProps) {
                 </>
               )}
 
-              {/* Platform sheet */}
-              {activeSheet === "platform" && (
+              {/* Services sheet — "only on my services" toggle */}
+              {activeSheet === "services" && (
                 <>
-                  <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">Platform</p>
+                  <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">Streaming services</p>
                   <div className="flex flex-col gap-2">
-                    <button
-                      onClick={() => {
-                        setParams({ platform: null });
-                        setActiveSheet(null);
-                      }}
-                      className={`
-                        flex items-center justify-between px-4 py-3.5 rounded-xl
-                        border transition-colors duration-150 text-left w-full
-                        ${platformFilter === "all"
-                          ? "bg-accent/15 border-accent/40 text-accent"
-                          : "bg-bg-raised border-white/5 text-text-secondary hover:border-white/15 hover:text-text-primary"
-                        }
-                      `}
-                    >
-                      <span className="text-sm font-medium">All Platforms</span>
-                      {platformFilter === "all" && (
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-                          <polyline points="20 6 9 17 4 12" />
-                        </svg>
-                      )}
-                    </button>
-                    {PLATFORMS.map((platform) => {
-                      const isSelected = platformFilter === platform;
+                    {[
+                      { value: false, label: "All services" },
+                      { value: true,  label: "Only on my services" },
+                    ].map(({ value, label }) => {
+                      const isSelected = myServices === value;
                       return (
                         <button
-                          key={platform}
+                          key={label}
+                          disabled={value && !hasSubscriptions}
                           onClick={() => {
-                            setParams({ platform });
+                            setParams({ my_services: value ? "1" : null });
                             setActiveSheet(null);
                           }}
                           className={`
                             flex items-center justify-between px-4 py-3.5 rounded-xl
-                            border transition-colors duration-150 text-left w-full
+                            border transition-colors duration-150 text-left w-full disabled:opacity-40
                             ${isSelected
                               ? "bg-accent/15 border-accent/40 text-accent"
                               : "bg-bg-raised border-white/5 text-text-secondary hover:border-white/15 hover:text-text-primary"
                             }
                           `}
                         >
-                          <span className="text-sm font-medium">{platform}</span>
+                          <span className="text-sm font-medium">{label}</span>
                           {isSelected && (
                             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
                               <polyline points="20 6 9 17 4 12" />
@@ -863,6 +1121,12 @@ export default function SearchView({ popularShows }: SearchViewProps) {
                       );
                     })}
                   </div>
+                  <p className="mt-3 text-text-muted text-xs">
+                    {hasSubscriptions ? "Change your services in " : "Pick the services you subscribe to in "}
+                    <Link href="/settings" className="text-accent underline underline-offset-2">
+                      Settings
+                    </Link>
+                  </p>
                 </>
               )}
 
@@ -901,6 +1165,168 @@ export default function SearchView({ popularShows }: SearchViewProps) {
                   </div>
                 </>
               )}
+
+              {/* Network sheet */}
+              {activeSheet === "network" && (
+                <>
+                  <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">Network</p>
+                  <FacetPicker
+                    type="network"
+                    placeholder="Search networks..."
+                    selected={selectedNetworks}
+                    onChange={(next) => handleFacetChange("network", next)}
+                  />
+                </>
+              )}
+
+              {/* Keywords sheet */}
+              {activeSheet === "keywords" && (
+                <>
+                  <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">Keywords</p>
+                  <FacetPicker
+                    type="keyword"
+                    placeholder="e.g. time travel, heist..."
+                    selected={selectedKeywords}
+                    onChange={(next) => handleFacetChange("keyword", next)}
+                  />
+                </>
+              )}
+
+              {/* Country sheet */}
+              {activeSheet === "country" && (
+                <>
+                  <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">Country of Origin</p>
+                  <div className="flex flex-col gap-2 max-h-[60vh] overflow-y-auto">
+                    {[{ code: "all", label: "All Countries" }, ...COUNTRIES].map(({ code, label }) => {
+                      const isSelected = countryFilter === code;
+                      return (
+                        <button
+                          key={code}
+                          onClick={() => {
+                            setParams({ country: code === "all" ? null : code });
+                            setActiveSheet(null);
+                          }}
+                          className={`
+                            flex items-center justify-between px-4 py-3.5 rounded-xl
+                            border transition-colors duration-150 text-left w-full flex-shrink-0
+                            ${isSelected
+                              ? "bg-accent/15 border-accent/40 text-accent"
+                              : "bg-bg-raised border-white/5 text-text-secondary hover:border-white/15 hover:text-text-primary"
+                            }
+                          `}
+                        >
+                          <span className="text-sm font-medium">{label}</span>
+                          {isSelected && (
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                              <polyline points="20 6 9 17 4 12" />
+                            </svg>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+
+              {/* Years sheet */}
+              {activeSheet === "years" && (
+                <>
+                  <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">First Aired</p>
+                  <div className="grid grid-cols-2 gap-3">
+                    {(
+                      [
+                        { label: "From", value: yearFrom, onChange: (v: string) => handleYearsChange(v, yearTo) },
+                        { label: "To",   value: yearTo,   onChange: (v: string) => handleYearsChange(yearFrom, v) },
+                      ]
+                    ).map(({ label, value, onChange }) => (
+                      <label key={label} className="flex flex-col gap-1.5">
+                        <span className="text-xs text-text-secondary">{label}</span>
+                        <select
+                          value={value}
+                          onChange={(e) => onChange(e.target.value)}
+                          className="
+                            w-full bg-bg-raised border border-white/5 rounded-xl
+                            px-4 py-3 text-sm text-text-primary
+                            focus:outline-none focus:ring-1 focus:ring-accent/60 focus:border-accent/40
+                          "
+                        >
+                          <option value="">Any</option>
+                          {YEARS.map((year) => (
+                            <option key={year} value={year}>{year}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {/* Presets sheet — save, open, rename and delete filter presets */}
+              {activeSheet === "presets" && (
+                <PresetManager
+                  presets={presets}
+                  onChange={setPresets}
+                  currentFilters={currentFilters}
+                  currentIds={discoverShows.filter((s) => !s.provider).map((s) => s.id)}
+                  onApply={(preset) => {
+                    router.replace(`${pathname}?${preset.params}`, { scroll: false });
+                    setActiveSheet(null);
+                  }}
+                />
+              )}
+
+              {/* Length sheet — episode runtime and commitment size */}
+              {activeSheet === "length" && (
+                <div className="flex flex-col gap-5 max-h-[70vh] overflow-y-auto">
+                  {(
+                    [
+                      {
+                        title: "Episode Length",
+                        options: RUNTIME_PRESETS.map((p) => ({
+                          label: p.label,
+                          isSelected: runtimeParam === p.value,
+                          updates: { runtime: p.value },
+                        })),
+                      },
+                      {
+                        title: "Commitment",
+                        options: COMMITMENT_PRESETS.map((p) => ({
+                          label: p.label,
+                          isSelected: episodesParam === p.episodes && seasonsParam === p.seasons,
+                          updates: { episodes: p.episodes, seasons: p.seasons },
+                        })),
+                      },
+                    ]
+                  ).map(({ title, options }) => (
+                    <div key={title}>
+                      <p className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">{title}</p>
+                      <div className="flex flex-col gap-2">
+                        {options.map(({ label, isSelected, updates }) => (
+                          <button
+                            key={label}
+                            onClick={() => setParams(updates)}
+                            className={`
+                              flex items-center justify-between px-4 py-3.5 rounded-xl
+                              border transition-colors duration-150 text-left w-full flex-shrink-0
+                              ${isSelected
+                                ? "bg-accent/15 border-accent/40 text-accent"
+                                : "bg-bg-raised border-white/5 text-text-secondary hover:border-white/15 hover:text-text-primary"
+                              }
+                            `}
+                          >
+                            <span className="text-sm font-medium">{label}</span>
+                            {isSelected && (
+                              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                <polyline points="20 6 9 17 4 12" />
+                              </svg>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </motion.div>
           </>
         )}
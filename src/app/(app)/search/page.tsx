@@ -1,23 +1,39 @@
 import { Suspense } from "react";
 import PageWrapper from "@/components/layout/PageWrapper";
 import SearchView from "./SearchView";
-import { getPopularShows } from "@/lib/tmdb";
-import type { TVMazeShow } from "@/types";
+import { getMetadataProvider } from "@/lib/metadata";
+import { createClient } from "@/lib/supabase/server";
+import { getUserPreferences } from "@/lib/preferences";
+import { listSavedSearches } from "@/lib/saved-searches";
+import type { TVMazeShow, SavedSearch } from "@/types";
 
 export default async function SearchPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const { locale, subscribed_providers } = await getUserPreferences(supabase, user?.id);
+
   let popularShows: TVMazeShow[] = [];
   try {
     // Pass all ~250 shows — SearchView handles virtual pagination via IntersectionObserver
-    popularShows = await getPopularShows();
+    popularShows = await getMetadataProvider().getPopularShows(locale);
   } catch {
     popularShows = [];
   }
 
+  const presets: SavedSearch[] = user ? await listSavedSearches(supabase) : [];
+
   return (
     <PageWrapper>
       {/* Suspense required because SearchView uses useSearchParams() */}
       <Suspense fallback={null}>
-        <SearchView popularShows={popularShows} />
+        <SearchView
+          popularShows={popularShows}
+          isLoggedIn={!!user}
+          hasSubscriptions={subscribed_providers.length > 0}
+          initialPresets={presets}
+        />
       </Suspense>
     </PageWrapper>
   );
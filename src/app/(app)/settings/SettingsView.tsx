@@ -1,20 +1,177 @@
 "use client";
 
+import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import PageWrapper from "@/components/layout/PageWrapper";
 import { createClient } from "@/lib/supabase/client";
+import { invalidateLibrary } from "@/lib/library-cache";
+import { updateUserPreferences, type PreferenceSettings } from "@/lib/preferences";
+import { SUPPORTED_LOCALES } from "@/lib/locale";
+import type { WatchProvider, WatchRegion } from "@/types";
+
+// ── ToggleRow ─────────────────────────────────────────────────────────────────
+
+function ToggleRow({
+  label,
+  description,
+  checked,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      role="switch"
+      aria-checked={checked}
+      disabled={disabled}
+      onClick={() => onChange(!checked)}
+      className="w-full flex items-center justify-between gap-4 px-4 py-3.5 text-left hover:bg-white/[0.03] transition-colors duration-150 disabled:opacity-50"
+    >
+      <div className="flex flex-col gap-0.5">
+        <span className="text-sm text-text-primary">{label}</span>
+        <span className="text-xs text-text-muted leading-relaxed">{description}</span>
+      </div>
+      <span
+        className={`
+          relative flex-shrink-0 w-10 h-6 rounded-full transition-colors duration-150
+          ${checked ? "bg-accent" : "bg-bg-raised border border-white/10"}
+        `}
+      >
+        <span
+          className={`
+            absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-150
+            ${checked ? "translate-x-5" : "translate-x-1"}
+          `}
+        />
+      </span>
+    </button>
+  );
+}
+
+// ── SelectRow ─────────────────────────────────────────────────────────────────
+
+function SelectRow({
+  label,
+  description,
+  value,
+  options,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  value: string;
+  options: { value: string; label: string }[];
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="w-full flex items-center justify-between gap-4 px-4 py-3.5">
+      <div className="flex flex-col gap-0.5">
+        <span className="text-sm text-text-primary">{label}</span>
+        <span className="text-xs text-text-muted leading-relaxed">{description}</span>
+      </div>
+      <select
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-shrink-0 max-w-[45%] bg-bg-raised border border-white/10 rounded-lg px-2.5 py-1.5 text-sm text-text-primary disabled:opacity-50"
+      >
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+// ── ServiceChips ──────────────────────────────────────────────────────────────
+
+function ServiceChips({
+  services,
+  selected,
+  disabled,
+  onChange,
+}: {
+  services: WatchProvider[];
+  selected: number[];
+  disabled?: boolean;
+  onChange: (selected: number[]) => void;
+}) {
+  function toggle(id: number) {
+    onChange(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id]);
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 px-4 py-3.5">
+      {services.map((service) => {
+        const isSelected = selected.includes(service.id);
+        return (
+          <button
+            key={service.id}
+            aria-pressed={isSelected}
+            disabled={disabled}
+            onClick={() => toggle(service.id)}
+            className={`
+              px-3 py-1.5 rounded-full text-xs font-medium border
+              transition-colors duration-150 disabled:opacity-50
+              ${isSelected
+                ? "bg-accent border-accent text-white"
+                : "bg-bg-raised border-white/10 text-text-secondary hover:border-accent/40 hover:text-text-primary"
+              }
+            `}
+          >
+            {service.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
 
 interface SettingsViewProps {
   userEmail: string | null;
+  initialPreferences: PreferenceSettings;
+  /** Countries with watch-provider data (empty when unavailable) */
+  regions: WatchRegion[];
+  /** The region's streaming services (empty when unavailable) */
+  services: WatchProvider[];
 }
 
-export default function SettingsView({ userEmail }: SettingsViewProps) {
+export default function SettingsView({ userEmail, initialPreferences, regions, services }: SettingsViewProps) {
   const router = useRouter();
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [isSaving, setIsSaving]       = useState(false);
+
+  // Optimistic update — revert if the save fails
+  async function handlePreferenceChange(patch: Partial<PreferenceSettings>) {
+    const prev = preferences;
+    setPreferences({ ...prev, ...patch });
+    setIsSaving(true);
+    try {
+      await updateUserPreferences(patch);
+      router.refresh();
+    } catch {
+      setPreferences(prev);
+    } finally {
+      setIsSaving(false);
+    }
+  }
 
   async function handleSignOut() {
     const supabase = createClient();
     await supabase.auth.signOut();
+    invalidateLibrary();
     router.push("/auth/sign-in");
   }
 
@@ -44,6 +201,58 @@ export default function SettingsView({ userEmail }: SettingsViewProps) {
               </p>
             </div>
 
+            {/* Preferences */}
+            <p className="mt-3 text-xs font-medium text-text-muted uppercase tracking-wider">
+              Preferences
+            </p>
+            <div className="bg-bg-surface border border-white/5 rounded-xl overflow-hidden divide-y divide-white/5">
+              <ToggleRow
+                label="Count specials"
+                description="Include specials in progress and when marking a show completed"
+                checked={preferences.include_specials}
+                disabled={isSaving}
+                onChange={(checked) => handlePreferenceChange({ include_specials: checked })}
+              />
+              <SelectRow
+                label="Show language"
+                description="Titles and descriptions, falling back to English when no translation exists"
+                value={preferences.locale}
+                options={SUPPORTED_LOCALES.map((l) => ({ value: l.code, label: l.label }))}
+                disabled={isSaving}
+                onChange={(locale) => handlePreferenceChange({ locale })}
+              />
+              {regions.length > 0 && (
+                <SelectRow
+                  label="Watch region"
+                  description="Where to Watch and your streaming services use what's available here"
+                  value={preferences.region}
+                  options={regions.map((r) => ({ value: r.code, label: r.name }))}
+                  disabled={isSaving}
+                  onChange={(region) => handlePreferenceChange({ region })}
+                />
+              )}
+            </div>
+
+            {/* Streaming subscriptions */}
+            {services.length > 0 && (
+              <>
+                <p className="mt-3 text-xs font-medium text-text-muted uppercase tracking-wider">
+                  My streaming services
+                </p>
+                <div className="bg-bg-surface border border-white/5 rounded-xl overflow-hidden">
+                  <p className="px-4 pt-3.5 text-xs text-text-muted leading-relaxed">
+                    Shows on these get an &ldquo;On your services&rdquo; badge, and My Shows fades out the rest
+                  </p>
+                  <ServiceChips
+                    services={services}
+                    selected={preferences.subscribed_providers}
+                    disabled={isSaving}
+                    onChange={(subscribed_providers) => handlePreferenceChange({ subscribed_providers })}
+                  />
+                </div>
+              </>
+            )}
+
             {/* Sign out */}
             <button
               onClick={handleSignOut}
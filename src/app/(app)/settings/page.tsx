@@ -1,10 +1,32 @@
 import { createClient } from "@/lib/supabase/server";
+import { getUserPreferences } from "@/lib/preferences";
+import { getMetadataProvider } from "@/lib/metadata";
+import type { WatchProvider, WatchRegion } from "@/types";
 import SettingsView from "./SettingsView";
 
+/** Services offered to subscribe to — the region's most prominent, plus any already chosen */
+const MAX_SERVICES = 20;
+
 export default async function SettingsPage() {
   const supabase = await createClient();
   const {
     data: { user },
   } = await supabase.auth.getUser();
-  return <SettingsView userEmail={user?.email ?? null} />;
+  const preferences = await getUserPreferences(supabase, user?.id);
+  const metadata = getMetadataProvider();
+  const [regions, providers] = await Promise.all([
+    metadata.getWatchRegions().catch(() => [] as WatchRegion[]),
+    metadata.getRegionProviders(preferences.region).catch(() => [] as WatchProvider[]),
+  ]);
+  const services = providers.filter(
+    (p, i) => i < MAX_SERVICES || preferences.subscribed_providers.includes(p.id)
+  );
+  return (
+    <SettingsView
+      userEmail={user?.email ?? null}
+      initialPreferences={preferences}
+      regions={regions}
+      services={services}
+    />
+  );
 }
@@ -1,12 +1,17 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
+import ShowCard from "@/components/ui/ShowCard";
+import TrailerPlayer from "@/components/ui/TrailerPlayer";
 import { createClient } from "@/lib/supabase/client";
 import {
   fetchWatchedEpisodes,
+  loadWatchedEpisodes,
+  isAllWatched,
   markEpisodeWatched,
   unmarkEpisodeWatched,
   markSeasonWatched,
@@ -14,8 +19,18 @@ import {
   unmarkSeasonWatched,
   episodeKey,
 } from "@/lib/watch-progress";
-import type { TVMazeShow, TVMazeEpisode, ShowStatus } from "@/types";
-import type { WatchProviders } from "@/lib/tmdb";
+import { showRefColumns, type ShowRef } from "@/lib/show-ref";
+import { invalidateLibrary } from "@/lib/library-cache";
+import type {
+  TVMazeShow,
+  TVMazeEpisode,
+  ShowStatus,
+  WatchProviders,
+  ShowCredits,
+  ShowVideo,
+  ShowIdMapping,
+  ShowProvider,
+} from "@/types";
 
 // ── Pure utility functions ──────────────────────────────────────────────────
 
@@ -44,6 +59,7 @@ function groupBySeason(episodes: TVMazeEpisode[]): Map<number, TVMazeEpisode[]>
 function formatEpisodeCode(season: number, number: number | null): string {
   const s = String(season).padStart(2, "0");
   if (number === null) return `S${s} Special`;
+  if (season === 0) return `SP${String(number).padStart(2, "0")}`;
   return `S${s}E${String(number).padStart(2, "0")}`;
 }
 
@@ -63,6 +79,34 @@ function isEpisodeReleased(ep: TVMazeEpisode): boolean {
   return new Date(ep.airdate + "T00:00:00") <= new Date();
 }
 
+/**
+ * Whether an episode counts toward completion: released, numbered, and not a
+ * special (season 0) unless the user opted in via Settings.
+ */
+function isCountedEpisode(ep: TVMazeEpisode, includeSpecials: boolean): boolean {
+  return isEpisodeReleased(ep) && ep.number !== null && (includeSpecials || ep.season > 0);
+}
+
+// Stagger container for the "More like this" rail (ShowCard uses the child variants)
+const railContainerVariants = {
+  hidden: {},
+  show: { transition: { staggerChildren: 0.05 } },
+};
+
+/** Outbound links to the show's page on each database we have an ID for */
+function externalLinks(ids: ShowIdMapping): { label: string; url: string }[] {
+  return [
+    ids.tmdb     && { label: "TMDB",     url: `https://www.themoviedb.org/tv/${ids.tmdb}` },
+    ids.imdb     && { label: "IMDb",     url: `https://www.imdb.com/title/${ids.imdb}/` },
+    ids.tvmaze   && { label: "TVMaze",   url: `https://www.tvmaze.com/shows/${ids.tvmaze}` },
+    ids.tvdb     && { label: "TheTVDB",  url: `https://thetvdb.com/dereferrer/series/${ids.tvdb}` },
+    ids.wikidata && { label: "Wikidata", url: `https://www.wikidata.org/wiki/${ids.wikidata}` },
+  ].filter((link): link is { label: string; url: string } => !!link);
+}
+
+/** Cast members shown in the rail — aggregate credits can run to hundreds */
+const MAX_CAST = 20;
+
 /** Check whether an upcoming episode airs within 30 days */
 function isNextEpisodeSoon(ep: TVMazeEpisode): boolean {
   if (!ep.airdate) return false;
@@ -142,21 +186,35 @@ const STATUS_OPTIONS: Array<{ status: ShowStatus; label: string; icon: React.Rea
 // ── Component ──────────────────────────────────────────────────────────────
 
 interface ShowDetailProps {
+  /** Provider whose ID space show.id belongs to */
+  provider: ShowProvider;
   show: TVMazeShow;
   episodes: TVMazeEpisode[];
   watchProviders: WatchProviders;
+  credits: ShowCredits;
+  /** "More like this" — already excludes shows in My Shows */
+  relatedShows: TVMazeShow[];
+  /** Trailers and clips, show-level first */
+  videos: ShowVideo[];
+  externalIds: ShowIdMapping;
+  /** User preference — count specials toward completion */
+  includeSpecials: boolean;
 }
 
 const SUMMARY_CUTOFF = 200;
 
-export default function ShowDetail({ show, episodes, watchProviders }: ShowDetailProps) {
+export default function ShowDetail({ provider, show, episodes, watchProviders, credits, relatedShows, videos, externalIds, includeSpecials }: ShowDetailProps) {
   const router = useRouter();
+  const showRef = useMemo<ShowRef>(() => ({ provider, id: show.id }), [provider, show.id]);
 
   // ── Existing state ──
   const [summaryExpanded, setSummaryExpanded] = useState(false);
+  const [activeVideoKey, setActiveVideoKey] = useState<string | null>(videos[0]?.key ?? null);
+  const trailersRef = useRef<HTMLDivElement>(null);
   const [openSeasons, setOpenSeasons] = useState<Set<number>>(() => {
     // Default to the latest (highest-numbered) season expanded
     const maxSeason = episodes.reduce((max, ep) => Math.max(max, ep.season), 0);
+    // Specials (season 0) start collapsed
     return new Set([maxSeason || 1]);
   });
 
@@ -178,7 +236,9 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
   const networkName = show.network?.name ?? show.webChannel?.name ?? null;
   const plainSummary = show.summary ? stripHtml(show.summary) : null;
   const nextEp = show._embedded?.nextepisode ?? null;
-  const seasonMap = groupBySeason(episodes);
+  const seasonMap = groupBySeason(episodes.filter((e) => e.season > 0));
+  const specials = episodes.filter((e) => e.season === 0);
+  const regularEpisodeCount = episodes.length - specials.length;
   const isShowRunning = show.status === "Running";
 
   const isTruncatable = plainSummary !== null && plainSummary.length > SUMMARY_CUTOFF;
@@ -204,12 +264,12 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
       const { data } = await supabase
         .from("user_shows")
         .select("status")
-        .eq("tvmaze_show_id", show.id)
+        .match(showRefColumns(showRef))
         .maybeSingle();
       setTrackingStatus((data?.status as ShowStatus) ?? null);
     }
     check();
-  }, [show.id]);
+  }, [showRef]);
 
   // ── Load watch progress when tracking status is available ──
   useEffect(() => {
@@ -219,30 +279,15 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
       return;
     }
     setWatchLoading(true);
-    fetchWatchedEpisodes(show.id)
-      .then(async (set) => {
-        // Backward compat: completed show with no watch_progress rows → backfill
-        if (trackingStatus === "completed" && set.size === 0) {
-          const released = episodes.filter(
-            (e) => isEpisodeReleased(e) && e.number !== null
-          );
-          if (released.length > 0) {
-            await markAllWatched(
-              show.id,
-              released.map((e) => ({ season: e.season, episode: e.number! }))
-            );
-            const allKeys = new Set(
-              released.map((e) => episodeKey(e.season, e.number!))
-            );
-            setWatchedSet(allKeys);
-            return;
-          }
-        }
-        setWatchedSet(set);
-      })
+    // Backward compat: a completed show with no watch_progress rows is backfilled
+    const released = episodes
+      .filter((e) => isCountedEpisode(e, includeSpecials))
+      .map((e) => ({ season: e.season, episode: e.number! }));
+    loadWatchedEpisodes(showRef, trackingStatus, released)
+      .then(setWatchedSet)
       .catch(() => setWatchedSet(new Set()))
       .finally(() => setWatchLoading(false));
-  }, [show.id, trackingStatus, episodes]);
+  }, [showRef, trackingStatus, episodes, includeSpecials]);
 
   // ── Body scroll lock when sheet is open ──
   useEffect(() => {
@@ -277,33 +322,35 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
       if (!user) throw new Error("Not logged in");
       const { error } = await supabase.from("user_shows").upsert(
         {
-          user_id:        user.id,
-          tvmaze_show_id: show.id,
-          show_name:      show.name,
-          show_poster:    show.image?.medium   ?? show.image?.original ?? null,
-          show_backdrop:  show.image?.original ?? show.image?.medium   ?? null,
-          status:         newStatus,
+          user_id:       user.id,
+          ...showRefColumns(showRef),
+          show_name:     show.name,
+          show_poster:   show.image?.medium   ?? show.image?.original ?? null,
+          show_backdrop: show.image?.original ?? show.image?.medium   ?? null,
+          status:        newStatus,
         },
-        { onConflict: "user_id,tvmaze_show_id" }
+        { onConflict: "user_id,provider,external_id" }
       );
       if (error) throw error;
+      invalidateLibrary();
 
       // Bulk-mark all released episodes only when setting status to "completed"
       const shouldBulkMark = newStatus === "completed";
 
       if (shouldBulkMark) {
         bulkMarkingRef.current = true;
-        const released = episodes.filter(
-          (e) => isEpisodeReleased(e) && e.number !== null
-        );
+        const released = episodes.filter((e) => isCountedEpisode(e, includeSpecials));
         if (released.length > 0) {
           await markAllWatched(
-            show.id,
+            showRef,
             released.map((e) => ({ season: e.season, episode: e.number! }))
           );
-          setWatchedSet(
-            new Set(released.map((e) => episodeKey(e.season, e.number!)))
-          );
+          setWatchedSet((prev) => {
+            // Keep any specials already watched when they aren't part of the bulk mark
+            const next = new Set(prev);
+            released.forEach((e) => next.add(episodeKey(e.season, e.number!)));
+            return next;
+          });
         }
         bulkMarkingRef.current = false;
       }
@@ -314,7 +361,7 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
     } finally {
       setIsMutating(false);
     }
-  }, [trackingStatus, show, router, episodes]);
+  }, [trackingStatus, show, showRef, router, episodes, includeSpecials]);
 
   const handleRemove = useCallback(async () => {
     const prev = trackingStatus;
@@ -328,9 +375,10 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
       const { error } = await supabase
         .from("user_shows")
         .delete()
-        .eq("tvmaze_show_id", show.id)
+        .match(showRefColumns(showRef))
         .eq("user_id", user.id);
       if (error) throw error;
+      invalidateLibrary();
       // Clear local watch state (DB records preserved for re-add)
       setWatchedSet(new Set());
       router.refresh();
@@ -339,7 +387,7 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
     } finally {
       setIsMutating(false);
     }
-  }, [trackingStatus, show.id, router]);
+  }, [trackingStatus, showRef, router]);
 
   // ── Episode toggle ──
   const toggleEpisode = useCallback(
@@ -358,9 +406,9 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
 
       try {
         if (wasWatched) {
-          await unmarkEpisodeWatched(show.id, ep.season, ep.number);
+          await unmarkEpisodeWatched(showRef, ep.season, ep.number);
         } else {
-          await markEpisodeWatched(show.id, ep.season, ep.number);
+          await markEpisodeWatched(showRef, ep.season, ep.number);
         }
       } catch {
         // Rollback
@@ -377,7 +425,7 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
         });
       }
     },
-    [watchedSet, show.id]
+    [watchedSet, showRef]
   );
 
   // ── Season toggle ──
@@ -407,21 +455,21 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
       try {
         if (allWatched) {
           await unmarkSeasonWatched(
-            show.id,
+            showRef,
             releasedEps.map((e) => ({ season: e.season, episode: e.number! }))
           );
         } else {
           await markSeasonWatched(
-            show.id,
+            showRef,
             releasedEps.map((e) => ({ season: e.season, episode: e.number! }))
           );
         }
       } catch {
         // Reload on error
-        fetchWatchedEpisodes(show.id).then(setWatchedSet);
+        fetchWatchedEpisodes(showRef).then(setWatchedSet);
       }
     },
-    [watchedSet, show.id]
+    [watchedSet, showRef]
   );
 
   // ── Auto-complete detection ──
@@ -435,26 +483,19 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
     )
       return;
 
-    const releasedEps = episodes.filter(
-      (e) => isEpisodeReleased(e) && e.number !== null
-    );
-    if (releasedEps.length === 0) return;
-
-    const allWatched = releasedEps.every((e) =>
-      watchedSet.has(episodeKey(e.season, e.number!))
-    );
+    const releasedEps = episodes
+      .filter((e) => isCountedEpisode(e, includeSpecials))
+      .map((e) => ({ season: e.season, episode: e.number! }));
 
     // Only auto-complete upward — never downgrade
-    if (allWatched && trackingStatus !== "completed") {
+    if (isAllWatched(watchedSet, releasedEps) && trackingStatus !== "completed") {
       handleStatusSelect("completed");
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [watchedSet, episodes, isTracked, watchLoading, trackingStatus]);
+  }, [watchedSet, episodes, isTracked, watchLoading, trackingStatus, includeSpecials]);
 
   // ── Derived watch progress values ──
-  const releasedEpisodes = episodes.filter(
-    (e) => isEpisodeReleased(e) && e.number !== null
-  );
+  const releasedEpisodes = episodes.filter((e) => isCountedEpisode(e, includeSpecials));
   const totalReleased = releasedEpisodes.length;
   const totalWatched = releasedEpisodes.filter((e) =>
     watchedSet.has(episodeKey(e.season, e.number!))
@@ -462,6 +503,253 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
   const progressPct =
     totalReleased > 0 ? Math.round((totalWatched / totalReleased) * 100) : 0;
 
+  const links = externalLinks(externalIds);
+
+  // ── Trailers ──
+  const activeVideo = videos.find((v) => v.key === activeVideoKey) ?? null;
+
+  function playVideo(key: string) {
+    setActiveVideoKey(key);
+    trailersRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }
+
+  // ── Season accordion block (shared by regular seasons and Specials) ──
+  function renderSeasonBlock(seasonNum: number, title: string, eps: TVMazeEpisode[]) {
+    const isOpen = openSeasons.has(seasonNum);
+    const seasonTrailer = videos.find((v) => v.seasonNumber === seasonNum);
+
+    // Per-season watch progress
+    const seasonReleased = eps.filter(
+      (e) => isEpisodeReleased(e) && e.number !== null
+    );
+    const seasonWatchedCount = seasonReleased.filter((e) =>
+      watchedSet.has(episodeKey(e.season, e.number!))
+    ).length;
+    const seasonAllWatched =
+      seasonReleased.length > 0 &&
+      seasonWatchedCount === seasonReleased.length;
+
+    return (
+      <div
+        key={seasonNum}
+        className="border border-white/5 rounded-xl overflow-hidden"
+      >
+        {/* Season header */}
+        <button
+          onClick={() => toggleSeason(seasonNum)}
+          className="w-full flex items-center justify-between px-4 py-3 bg-bg-surface text-left"
+        >
+          <span className="text-sm font-medium text-text-primary">
+            {title}
+          </span>
+          <div className="flex items-center gap-2">
+            {/* Watch progress counter */}
+            {isTracked && !watchLoading && seasonReleased.length > 0 && (
+              <span className="text-xs text-accent font-medium">
+                {seasonWatchedCount}/{seasonReleased.length}
+              </span>
+            )}
+            <span className="text-xs text-text-muted">
+              {eps.length} eps
+            </span>
+            {/* Season mark-all toggle */}
+            {isTracked && !watchLoading && seasonReleased.length > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleSeasonWatched(seasonNum, eps);
+                }}
+                className={`
+                  w-5 h-5 rounded-full border-2 flex items-center justify-center
+                  flex-shrink-0 transition-all duration-150
+                  ${seasonAllWatched
+                    ? "bg-accent border-accent"
+                    : "border-white/20 hover:border-white/40"
+                  }
+                `}
+                aria-label={
+                  seasonAllWatched
+                    ? `Unmark ${title}`
+                    : `Mark ${title} watched`
+                }
+              >
+                {seasonAllWatched && (
+                  <svg
+                    width="10"
+                    height="10"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="white"
+                    strokeWidth="3"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                )}
+              </button>
+            )}
+            <motion.svg
+              animate={{ rotate: isOpen ? 180 : 0 }}
+              transition={{ duration: 0.2 }}
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-text-muted flex-shrink-0"
+            >
+              <polyline points="6 9 12 15 18 9" />
+            </motion.svg>
+          </div>
+        </button>
+
+        {/* Season progress bar */}
+        {isTracked && !watchLoading && seasonReleased.length > 0 && (
+          <div className="h-0.5 bg-white/5">
+            <motion.div
+              className="h-full bg-accent"
+              initial={{ width: 0 }}
+              animate={{
+                width: `${(seasonWatchedCount / seasonReleased.length) * 100}%`,
+              }}
+              transition={{ duration: 0.3, ease: "easeOut" }}
+            />
+          </div>
+        )}
+
+        {/* Episode list */}
+        <AnimatePresence initial={false}>
+          {isOpen && (
+            <motion.div
+              key={`season-${seasonNum}`}
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: "auto", opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.22, ease: "easeInOut" }}
+              className="overflow-hidden"
+            >
+              {/* Season trailer — plays in the Trailers section above */}
+              {seasonTrailer && (
+                <button
+                  onClick={() => playVideo(seasonTrailer.key)}
+                  className="w-full flex items-center gap-2 px-4 py-2.5 border-b border-white/5 text-xs text-accent font-medium text-left"
+                >
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor">
+                    <polygon points="6 4 20 12 6 20 6 4" />
+                  </svg>
+                  Watch {title} {seasonTrailer.type.toLowerCase()}
+                </button>
+              )}
+              <div className="divide-y divide-white/5">
+                {eps.map((ep) => {
+                  const released = isEpisodeReleased(ep);
+                  const key =
+                    ep.number !== null
+                      ? episodeKey(ep.season, ep.number)
+                      : null;
+                  const watched = key ? watchedSet.has(key) : false;
+                  const isMutatingEp = key
+                    ? watchMutating.has(key)
+                    : false;
+
+                  return (
+                    <div
+                      key={ep.id}
+                      className={`px-4 py-3 flex items-start gap-3 ${
+                        isTracked && watched
+                          ? "opacity-60"
+                          : ""
+                      }`}
+                    >
+                      {/* Watch toggle */}
+                      {isTracked && !watchLoading && ep.number !== null && (
+                        <button
+                          onClick={() => toggleEpisode(ep)}
+                          disabled={!released || isMutatingEp}
+                          className={`
+                            mt-0.5 w-6 h-6 rounded-full border-2
+                            flex items-center justify-center flex-shrink-0
+                            transition-all duration-150
+                            ${watched
+                              ? "bg-accent border-accent"
+                              : "border-white/20 hover:border-white/40"
+                            }
+                            ${!released
+                              ? "opacity-30 cursor-not-allowed"
+                              : "cursor-pointer active:scale-90"
+                            }
+                          `}
+                          aria-label={
+                            watched
+                              ? `Unmark ${formatEpisodeCode(ep.season, ep.number)}`
+                              : `Mark ${formatEpisodeCode(ep.season, ep.number)} watched`
+                          }
+                        >
+                          {isMutatingEp ? (
+                            <motion.div
+                              className="w-3 h-3 border-2 border-accent/40 border-t-accent rounded-full"
+                              animate={{ rotate: 360 }}
+                              transition={{
+                                duration: 0.6,
+                                repeat: Infinity,
+                                ease: "linear",
+                              }}
+                            />
+                          ) : watched ? (
+                            <svg
+                              width="12"
+                              height="12"
+                              viewBox="0 0 24 24"
+                              fill="none"
+                              stroke="white"
+                              strokeWidth="3"
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                            >
+                              <polyline points="20 6 9 17 4 12" />
+                            </svg>
+                          ) : null}
+                        </button>
+                      )}
+
+                      {/* Episode info */}
+                      <div className="flex flex-col gap-0.5 min-w-0 flex-1">
+                        <span className="text-xs font-mono text-accent">
+                          {formatEpisodeCode(ep.season, ep.number)}
+                        </span>
+                        <p className="text-sm text-text-primary leading-snug line-clamp-2">
+                          {ep.name}
+                        </p>
+                      </div>
+
+                      {/* Date + runtime */}
+                      <div className="flex-shrink-0 text-right">
+                        {ep.airdate && (
+                          <span className="text-xs text-text-muted whitespace-nowrap">
+                            {formatDate(ep.airdate)}
+                          </span>
+                        )}
+                        {ep.runtime && (
+                          <p className="text-xs text-text-muted">
+                            {ep.runtime}m
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 16 }}
@@ -516,12 +804,35 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
         </button>
 
         {/* Title + network overlaid on gradient */}
-        <div className="absolute bottom-0 left-0 right-0 px-4 pb-5 z-10">
-          <h1 className="text-2xl font-bold text-text-primary leading-tight">
-            {show.name}
-          </h1>
-          {networkName && (
-            <p className="text-sm text-text-secondary mt-0.5">{networkName}</p>
+        <div className="absolute bottom-0 left-0 right-0 px-4 pb-5 z-10 flex items-end justify-between gap-3">
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-text-primary leading-tight">
+              {show.name}
+            </h1>
+            {show.originalName && (
+              <p className="text-sm text-text-muted mt-0.5 line-clamp-1">{show.originalName}</p>
+            )}
+            {networkName && (
+              <p className="text-sm text-text-secondary mt-0.5">{networkName}</p>
+            )}
+          </div>
+
+          {/* Trailer preview — jumps to the Trailers section */}
+          {videos.length > 0 && (
+            <button
+              onClick={() => playVideo(videos[0].key)}
+              className="
+                flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full
+                bg-black/40 backdrop-blur-sm border border-white/10
+                text-xs font-medium text-text-primary
+                active:scale-95 transition-transform duration-100
+              "
+            >
+              <svg width="10" height="10" viewBox="0 0 24 24" fill="currentColor">
+                <polygon points="6 4 20 12 6 20 6 4" />
+              </svg>
+              Trailer
+            </button>
           )}
         </div>
 
@@ -698,6 +1009,40 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
           </div>
         )}
 
+        {/* ── E1. Trailers ────────────────────────────────────────────── */}
+        {activeVideo && (
+          <div ref={trailersRef} className="scroll-mt-4">
+            <h2 className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">
+              Trailers
+            </h2>
+            <TrailerPlayer video={activeVideo} />
+            {videos.length > 1 && (
+              <div className="flex gap-2 overflow-x-auto no-scrollbar -mx-4 px-4 pt-3 pb-1">
+                {videos.map((v) => (
+                  <button
+                    key={v.key}
+                    onClick={() => setActiveVideoKey(v.key)}
+                    className={`
+                      flex-shrink-0 max-w-[200px] px-3 py-1.5 rounded-full text-xs font-medium
+                      border transition-colors duration-150
+                      ${v.key === activeVideoKey
+                        ? "bg-accent/15 border-accent/30 text-accent"
+                        : "bg-bg-raised border-white/10 text-text-secondary"
+                      }
+                    `}
+                  >
+                    <span className="line-clamp-1">
+                      {v.seasonNumber !== null && `S${v.seasonNumber} · `}
+                      {v.type}
+                      {v.type !== v.name && ` · ${v.name}`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* ── E2. Where to Watch ───────────────────────────────────────── */}
         {(watchProviders.flatrate.length > 0 || watchProviders.buy.length > 0 || watchProviders.rent.length > 0) && (
           <div>
@@ -816,6 +1161,77 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
           </div>
         )}
 
+        {/* ── E3. Cast ─────────────────────────────────────────────────── */}
+        {credits.cast.length > 0 && (
+          <div>
+            <h2 className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">
+              Cast
+            </h2>
+            <div className="flex gap-3 overflow-x-auto no-scrollbar -mx-4 px-4 pb-1">
+              {credits.cast.slice(0, MAX_CAST).map((person) => (
+                <Link
+                  key={person.id}
+                  href={`/person/${person.id}`}
+                  className="w-20 flex-shrink-0 flex flex-col gap-1.5 active:scale-95 transition-transform duration-100"
+                >
+                  <div className="w-20 h-20 rounded-full overflow-hidden bg-bg-raised relative">
+                    {person.profileImage ? (
+                      <Image
+                        src={person.profileImage}
+                        alt={person.name}
+                        fill
+                        sizes="80px"
+                        className="object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-text-muted text-lg font-medium">
+                        {person.name.charAt(0)}
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-xs text-text-primary font-medium leading-tight line-clamp-2 text-center">
+                    {person.name}
+                  </p>
+                  {person.character && (
+                    <p className="text-[10px] text-text-muted leading-tight line-clamp-2 text-center -mt-1">
+                      {person.character}
+                    </p>
+                  )}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* ── E4. External links ─────────────────────────────────────── */}
+        {links.length > 0 && (
+          <div>
+            <h2 className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">
+              Links
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {links.map((link) => (
+                <a
+                  key={link.label}
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="
+                    flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium
+                    bg-bg-raised border border-white/10 text-text-secondary
+                    hover:border-white/20 hover:text-text-primary transition-colors duration-150
+                  "
+                >
+                  {link.label}
+                  <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M7 17L17 7M7 7h10v10" />
+                  </svg>
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* ── F. Next Episode ──────────────────────────────────────────── */}
         {nextEp && (
           <div>
@@ -849,235 +1265,39 @@ export default function ShowDetail({ show, episodes, watchProviders }: ShowDetai
             <h2 className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">
               Episodes{" "}
               <span className="font-light normal-case tracking-normal ml-1">
-                ({episodes.length} total)
+                ({regularEpisodeCount} total{specials.length > 0 ? ` + ${specials.length} specials` : ""})
               </span>
             </h2>
             <div className="flex flex-col gap-2">
-              {Array.from(seasonMap.entries()).map(([seasonNum, eps]) => {
-                const isOpen = openSeasons.has(seasonNum);
-
-                // Per-season watch progress
-                const seasonReleased = eps.filter(
-                  (e) => isEpisodeReleased(e) && e.number !== null
-                );
-                const seasonWatchedCount = seasonReleased.filter((e) =>
-                  watchedSet.has(episodeKey(e.season, e.number!))
-                ).length;
-                const seasonAllWatched =
-                  seasonReleased.length > 0 &&
-                  seasonWatchedCount === seasonReleased.length;
-
-                return (
-                  <div
-                    key={seasonNum}
-                    className="border border-white/5 rounded-xl overflow-hidden"
-                  >
-                    {/* Season header */}
-                    <button
-                      onClick={() => toggleSeason(seasonNum)}
-                      className="w-full flex items-center justify-between px-4 py-3 bg-bg-surface text-left"
-                    >
-                      <span className="text-sm font-medium text-text-primary">
-                        Season {seasonNum}
-                      </span>
-                      <div className="flex items-center gap-2">
-                        {/* Watch progress counter */}
-                        {isTracked && !watchLoading && seasonReleased.length > 0 && (
-                          <span className="text-xs text-accent font-medium">
-                            {seasonWatchedCount}/{seasonReleased.length}
-                          </span>
-                        )}
-                        <span className="text-xs text-text-muted">
-                          {eps.length} eps
-                        </span>
-                        {/* Season mark-all toggle */}
-                        {isTracked && !watchLoading && seasonReleased.length > 0 && (
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              toggleSeasonWatched(seasonNum, eps);
-                            }}
-                            className={`
-                              w-5 h-5 rounded-full border-2 flex items-center justify-center
-                              flex-shrink-0 transition-all duration-150
-                              ${seasonAllWatched
-                                ? "bg-accent border-accent"
-                                : "border-white/20 hover:border-white/40"
-                              }
-                            `}
-                            aria-label={
-                              seasonAllWatched
-                                ? `Unmark season ${seasonNum}`
-                                : `Mark season ${seasonNum} watched`
-                            }
-                          >
-                            {seasonAllWatched && (
-                              <svg
-                                width="10"
-                                height="10"
-                                viewBox="0 0 24 24"
-                                fill="none"
-                                stroke="white"
-                                strokeWidth="3"
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                              >
-                                <polyline points="20 6 9 17 4 12" />
-                              </svg>
-                            )}
-                          </button>
-                        )}
-                        <motion.svg
-                          animate={{ rotate: isOpen ? 180 : 0 }}
-                          transition={{ duration: 0.2 }}
-                          width="16"
-                          height="16"
-                          viewBox="0 0 24 24"
-                          fill="none"
-                          stroke="currentColor"
-                          strokeWidth="2"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          className="text-text-muted flex-shrink-0"
-                        >
-                          <polyline points="6 9 12 15 18 9" />
-                        </motion.svg>
-                      </div>
-                    </button>
-
-                    {/* Season progress bar */}
-                    {isTracked && !watchLoading && seasonReleased.length > 0 && (
-                      <div className="h-0.5 bg-white/5">
-                        <motion.div
-                          className="h-full bg-accent"
-                          initial={{ width: 0 }}
-                          animate={{
-                            width: `${(seasonWatchedCount / seasonReleased.length) * 100}%`,
-                          }}
-                          transition={{ duration: 0.3, ease: "easeOut" }}
-                        />
-                      </div>
-                    )}
-
-                    {/* Episode list */}
-                    <AnimatePresence initial={false}>
-                      {isOpen && (
-                        <motion.div
-                          key={`season-${seasonNum}`}
-                          initial={{ height: 0, opacity: 0 }}
-                          animate={{ height: "auto", opacity: 1 }}
-                          exit={{ height: 0, opacity: 0 }}
-                          transition={{ duration: 0.22, ease: "easeInOut" }}
-                          className="overflow-hidden"
-                        >
-                          <div className="divide-y divide-white/5">
-                            {eps.map((ep) => {
-                              const released = isEpisodeReleased(ep);
-                              const key =
-                                ep.number !== null
-                                  ? episodeKey(ep.season, ep.number)
-                                  : null;
-                              const watched = key ? watchedSet.has(key) : false;
-                              const isMutatingEp = key
-                                ? watchMutating.has(key)
-                                : false;
-
-                              return (
-                                <div
-                                  key={ep.id}
-                                  className={`px-4 py-3 flex items-start gap-3 ${
-                                    isTracked && watched
-                                      ? "opacity-60"
-                                      : ""
-                                  }`}
-                                >
-                                  {/* Watch toggle */}
-                                  {isTracked && !watchLoading && ep.number !== null && (
-                                    <button
-                                      onClick={() => toggleEpisode(ep)}
-                                      disabled={!released || isMutatingEp}
-                                      className={`
-                                        mt-0.5 w-6 h-6 rounded-full border-2
-                                        flex items-center justify-center flex-shrink-0
-                                        transition-all duration-150
-                                        ${watched
-                                          ? "bg-accent border-accent"
-                                          : "border-white/20 hover:border-white/40"
-                                        }
-                                        ${!released
-                                          ? "opacity-30 cursor-not-allowed"
-                                          : "cursor-pointer active:scale-90"
-                                        }
-                                      `}
-                                      aria-label={
-                                        watched
-                                          ? `Unmark ${formatEpisodeCode(ep.season, ep.number)}`
-                                          : `Mark ${formatEpisodeCode(ep.season, ep.number)} watched`
-                                      }
-                                    >
-                                      {isMutatingEp ? (
-                                        <motion.div
-                                          className="w-3 h-3 border-2 border-accent/40 border-t-accent rounded-full"
-                                          animate={{ rotate: 360 }}
-                                          transition={{
-                                            duration: 0.6,
-                                            repeat: Infinity,
-                                            ease: "linear",
-                                          }}
-                                        />
-                                      ) : watched ? (
-                                        <svg
-                                          width="12"
-                                          height="12"
-                                          viewBox="0 0 24 24"
-                                          fill="none"
-                                          stroke="white"
-                                          strokeWidth="3"
-                                          strokeLinecap="round"
-                                          strokeLinejoin="round"
-                                        >
-                                          <polyline points="20 6 9 17 4 12" />
-                                        </svg>
-                                      ) : null}
-                                    </button>
-                                  )}
-
-                                  {/* Episode info */}
-                                  <div className="flex flex-col gap-0.5 min-w-0 flex-1">
-                                    <span className="text-xs font-mono text-accent">
-                                      {formatEpisodeCode(ep.season, ep.number)}
-                                    </span>
-                                    <p className="text-sm text-text-primary leading-snug line-clamp-2">
-                                      {ep.name}
-                                    </p>
-                                  </div>
-
-                                  {/* Date + runtime */}
-                                  <div className="flex-shrink-0 text-right">
-                                    {ep.airdate && (
-                                      <span className="text-xs text-text-muted whitespace-nowrap">
-                                        {formatDate(ep.airdate)}
-                                      </span>
-                                    )}
-                                    {ep.runtime && (
-                                      <p className="text-xs text-text-muted">
-                                        {ep.runtime}m
-                                      </p>
-                                    )}
-                                  </div>
-                                </div>
-                              );
-                            })}
-                          </div>
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
-                  </div>
-                );
-              })}
+              {Array.from(seasonMap.entries()).map(([seasonNum, eps]) =>
+                renderSeasonBlock(seasonNum, `Season ${seasonNum}`, eps)
+              )}
+              {specials.length > 0 && renderSeasonBlock(0, "Specials", specials)}
             </div>
           </div>
         )}
+
+        {/* ── G2. More like this ───────────────────────────────────────── */}
+        {relatedShows.length > 0 && (
+          <div>
+            <h2 className="text-xs font-medium text-text-muted uppercase tracking-wider mb-3">
+              More Like This
+            </h2>
+            <motion.div
+              variants={railContainerVariants}
+              initial="hidden"
+              whileInView="show"
+              viewport={{ once: true }}
+              className="flex gap-3 overflow-x-auto no-scrollbar -mx-4 px-4 pb-1"
+            >
+              {relatedShows.map((related) => (
+                <div key={related.id} className="w-28 flex-shrink-0">
+                  <ShowCard show={related} />
+                </div>
+              ))}
+            </motion.div>
+          </div>
+        )}
       </div>
 
       {/* ── H. Status picker bottom sheet ───────────────────────────────── */}
@@ -1,30 +1,91 @@
-import { notFound } from "next/navigation";
+import { notFound, redirect } from "next/navigation";
 import ShowDetail from "./ShowDetail";
-import { getShowWithNextEpisode, getEpisodes, getWatchProviders, type WatchProviders } from "@/lib/tmdb";
-import type { TVMazeShow, TVMazeEpisode } from "@/types";
+import { getMetadataProvider, isNotFoundError } from "@/lib/metadata";
+import { createClient } from "@/lib/supabase/server";
+import { getUserPreferences } from "@/lib/preferences";
+import { getShowIdMapping, resolveShowRef } from "@/lib/show-ids";
+import { parseShowParam } from "@/lib/show-ref";
+import type { ShowBundle, ShowIdMapping, ShowVideo, TVMazeShow } from "@/types";
 
 export default async function ShowDetailPage({
   params,
 }: {
   params: { id: string };
 }) {
-  const id = parseInt(params.id, 10);
-  if (isNaN(id)) notFound();
+  const metadata = getMetadataProvider();
+  const ref = parseShowParam(params.id);
+  if (!ref) notFound();
 
-  let show: TVMazeShow;
-  let episodes: TVMazeEpisode[];
-  let watchProviders: WatchProviders;
+  // Qualified IDs (`tvmaze-82`) come from rows saved under another provider —
+  // translate to the active provider's ID and redirect to the canonical URL
+  if (ref.provider !== null) {
+    const resolved = await resolveShowRef({ provider: ref.provider, id: ref.id }, metadata.name)
+      .catch(() => null);
+    if (resolved === null) notFound();
+    redirect(`/show/${resolved}`);
+  }
+  const id = ref.id;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const preferences = await getUserPreferences(supabase, user?.id);
+  // Non-essential — a failure just hides the "More like this" rail
+  const relatedPromise = metadata
+    .getRelatedShows(id, undefined, preferences.locale)
+    .catch(() => [] as TVMazeShow[]);
+
+  let bundle: ShowBundle;
 
   try {
-    [show, episodes, watchProviders] = await Promise.all([
-      getShowWithNextEpisode(id),
-      getEpisodes(id),
-      getWatchProviders(id, "IN"),
-    ]);
-  } catch {
+    // Show, episodes and providers in 1 + ceil(seasons / 20) requests
+    bundle = await metadata.getShowBundle(id, preferences.region, preferences.locale);
+  } catch (err) {
+    // Only a genuine 404 is "not found" — outages surface as errors
+    if (!isNotFoundError(err)) throw err;
     notFound();
     return null as never;
   }
 
-  return <ShowDetail show={show!} episodes={episodes!} watchProviders={watchProviders!} />;
+  // Season trailers only for regular seasons — specials rarely have any
+  const seasonNums = Array.from(new Set(bundle.episodes.map((e) => e.season))).filter((n) => n > 0);
+  // IDs are TMDB IDs unless TVMaze is the active provider
+  const fallbackIds: ShowIdMapping = metadata.name === "tmdb"
+    ? { tmdb: id, tvmaze: null, ...bundle.externalIds }
+    : { tmdb: null, tvmaze: id, ...bundle.externalIds };
+  const [related, videos, externalIds] = await Promise.all([
+    relatedPromise,
+    metadata
+      .getShowVideos(id, seasonNums)
+      .catch(() => [] as ShowVideo[]),
+    fallbackIds.tmdb !== null
+      ? getShowIdMapping(id, bundle.externalIds).catch(() => fallbackIds)
+      : fallbackIds,
+  ]);
+
+  // Hide shows the user already tracks
+  let trackedIds = new Set<number>();
+  if (user && related.length > 0) {
+    const { data } = await supabase
+      .from("user_shows")
+      .select("external_id")
+      .eq("provider", metadata.name)
+      .in("external_id", related.map((s) => s.id));
+    trackedIds = new Set((data ?? []).map((r) => r.external_id as number));
+  }
+
+  return (
+    <ShowDetail
+      provider={metadata.name}
+      show={bundle.show}
+      episodes={bundle.episodes}
+      watchProviders={bundle.watchProviders}
+      credits={bundle.credits}
+      relatedShows={related.filter((s) => !trackedIds.has(s.id))}
+      videos={videos}
+      externalIds={externalIds}
+      includeSpecials={preferences.include_specials}
+    />
+  );
 }
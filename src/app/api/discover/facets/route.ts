@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getMetadataProvider } from "@/lib/metadata";
+import type { DiscoverFacetType } from "@/types";
+
+const TYPES: DiscoverFacetType[] = ["keyword", "network"];
+
+/**
+ * Keyword / network options for the discover filters.
+ * GET /api/discover/facets?type=keyword&q=time     → autocomplete
+ * GET /api/discover/facets?type=network&ids=49,213 → names for IDs in a URL
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type") as DiscoverFacetType | null;
+  const query = searchParams.get("q")?.trim() ?? "";
+  const ids = (searchParams.get("ids") ?? "")
+    .split(",")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+  if (!type || !TYPES.includes(type)) {
+    return NextResponse.json(
+      { error: `Expected ?type=${TYPES.join("|")}&q=<query> or &ids=<id,...>` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const metadata = getMetadataProvider();
+    if (ids.length > 0) {
+      return NextResponse.json(await metadata.getDiscoverFacets(type, ids));
+    }
+    return NextResponse.json(await metadata.searchDiscoverFacets(type, query));
+  } catch (err) {
+    console.error("Discover facets API error:", err);
+    return NextResponse.json([], { status: 500 });
+  }
+}
@@ -1,6 +1,11 @@
 import { NextResponse } from "next/server";
-import { discoverShows, discoverShowsByRating, GENRE_MAP, PLATFORM_MAP } from "@/lib/tmdb";
-import type { TVMazeShow } from "@/types";
+import { GENRE_MAP } from "@/lib/tmdb";
+import { getMetadataProvider } from "@/lib/metadata";
+import { createClient } from "@/lib/supabase/server";
+import { getUserPreferences } from "@/lib/preferences";
+import { getShowsOnServices } from "@/lib/enrich-shows";
+import { resultParam } from "@/lib/show-ref";
+import type { DiscoverResult, TVMazeShow } from "@/types";
 
 // Map client sort options to TMDB sort_by values
 const SORT_MAP: Record<string, string> = {
@@ -11,6 +16,30 @@ const SORT_MAP: Record<string, string> = {
   name:       "name.asc",
 };
 
+/** Comma-separated genre names, e.g. "Crime,Drama" → TMDB IDs; unknown names are dropped */
+function parseGenres(value: string | null): { ids?: number[]; names: string[] } {
+  const names = (value ?? "").split(",").filter((name) => GENRE_MAP[name] !== undefined);
+  return { ids: names.length > 0 ? names.map((name) => GENRE_MAP[name]) : undefined, names };
+}
+
+/** Comma-separated ID list, e.g. "49,213" */
+function parseIds(value: string | null): number[] | undefined {
+  const ids = (value ?? "").split(",").map(Number).filter((id) => Number.isInteger(id) && id > 0);
+  return ids.length > 0 ? ids : undefined;
+}
+
+/** Range "2010-2015"; either side may be omitted ("2010-", "-2015") */
+function parseRange(value: string | null): { min?: number; max?: number } {
+  const [min, max] = (value ?? "").split("-").map((n) => parseInt(n, 10) || undefined);
+  return { min, max };
+}
+
+/** "2010–2015", "10+ episodes", "Up to 3 seasons" */
+function rangeLabel(min: number | undefined, max: number | undefined, unit = ""): string {
+  if (min && max) return min === max ? `${min}${unit}` : `${min}–${max}${unit}`;
+  return min ? `${min}+${unit}` : `Up to ${max}${unit}`;
+}
+
 // ── Fallback: relax filters one-by-one when primary query returns 0 results ──
 
 interface FallbackResult {
@@ -24,17 +53,31 @@ const FILTER_LABELS: Record<string, Record<string, string>> = {
   rating:   { "8": "8+ rating", "7": "7+ rating" },
   status:   { running: "Running status", ended: "Ended status" },
   language: { en: "English only" },
-  platform: Object.fromEntries(Object.keys(PLATFORM_MAP).map((k) => [k, `${k} only`])),
 };
 
 async function tryFallback(opts: {
-  genreId?: number;
+  genreIds: number[] | undefined;
+  genreMatch: "all" | "any";
+  excludeGenreIds: number[] | undefined;
+  excludeGenreNames: string[];
   sort: string;
   status: "running" | "ended" | undefined;
   ratingMin: number | undefined;
   language: string | undefined;
-  watchProviderId: number | undefined;
-  platformName: string | undefined;
+  watchProviderIds: number[] | undefined;
+  keywordIds: number[] | undefined;
+  networkIds: number[] | undefined;
+  originCountry: string | undefined;
+  yearFrom: number | undefined;
+  yearTo: number | undefined;
+  runtimeMin: number | undefined;
+  runtimeMax: number | undefined;
+  episodesMin: number | undefined;
+  episodesMax: number | undefined;
+  seasonsMin: number | undefined;
+  seasonsMax: number | undefined;
+  watchRegion: string;
+  locale: string;
 }): Promise<FallbackResult | null> {
   // Build relaxation candidates in priority order (most restrictive first)
   const candidates: Array<{
@@ -43,6 +86,41 @@ async function tryFallback(opts: {
     overrides: Partial<typeof opts>;
   }> = [];
 
+  if (opts.excludeGenreIds) {
+    candidates.push({
+      filter: "exclude",
+      label: `${opts.excludeGenreNames.join(", ")} exclusion`,
+      overrides: { excludeGenreIds: undefined },
+    });
+  }
+  if (opts.keywordIds) {
+    candidates.push({
+      filter: "keywords",
+      label: "Keyword filter",
+      overrides: { keywordIds: undefined },
+    });
+  }
+  if (opts.networkIds) {
+    candidates.push({
+      filter: "networks",
+      label: "Network filter",
+      overrides: { networkIds: undefined },
+    });
+  }
+  if (opts.episodesMin || opts.episodesMax) {
+    candidates.push({
+      filter: "episodes",
+      label: rangeLabel(opts.episodesMin, opts.episodesMax, " episodes"),
+      overrides: { episodesMin: undefined, episodesMax: undefined },
+    });
+  }
+  if (opts.seasonsMin || opts.seasonsMax) {
+    candidates.push({
+      filter: "seasons",
+      label: rangeLabel(opts.seasonsMin, opts.seasonsMax, " seasons"),
+      overrides: { seasonsMin: undefined, seasonsMax: undefined },
+    });
+  }
   if (opts.ratingMin) {
     candidates.push({
       filter: "rating",
@@ -64,38 +142,91 @@ async function tryFallback(opts: {
       overrides: { language: undefined },
     });
   }
-  if (opts.watchProviderId && opts.platformName) {
+  if (opts.yearFrom || opts.yearTo) {
+    candidates.push({
+      filter: "years",
+      label: rangeLabel(opts.yearFrom, opts.yearTo),
+      overrides: { yearFrom: undefined, yearTo: undefined },
+    });
+  }
+  if (opts.runtimeMin || opts.runtimeMax) {
     candidates.push({
-      filter: "platform",
-      label: `${opts.platformName} only`,
-      overrides: { watchProviderId: undefined, platformName: undefined },
+      filter: "runtime",
+      label: rangeLabel(opts.runtimeMin, opts.runtimeMax, " min episodes"),
+      overrides: { runtimeMin: undefined, runtimeMax: undefined },
     });
   }
+  if (opts.originCountry) {
+    candidates.push({
+      filter: "country",
+      label: `${opts.originCountry} origin`,
+      overrides: { originCountry: undefined },
+    });
+  }
+  if (opts.watchProviderIds) {
+    candidates.push({
+      filter: "my_services",
+      label: "Only on my services",
+      overrides: { watchProviderIds: undefined },
+    });
+  }
+
+  const metadata = getMetadataProvider();
 
   for (const candidate of candidates) {
     const relaxed = { ...opts, ...candidate.overrides };
 
-    let result: { shows: TVMazeShow[]; totalPages: number };
+    let result: DiscoverResult;
 
     if (relaxed.sort === "rating") {
-      result = await discoverShowsByRating({
-        genreId: relaxed.genreId,
+      result = await metadata.discoverShowsByRating({
+        genreIds: relaxed.genreIds,
+        genreMatch: relaxed.genreMatch,
+        excludeGenreIds: relaxed.excludeGenreIds,
         page: 1,
         status: relaxed.status,
         ratingMin: relaxed.ratingMin,
         language: relaxed.language,
-        watchProviderId: relaxed.watchProviderId,
+        watchProviderIds: relaxed.watchProviderIds,
+        watchRegion: relaxed.watchRegion,
+        keywordIds: relaxed.keywordIds,
+        networkIds: relaxed.networkIds,
+        originCountry: relaxed.originCountry,
+        yearFrom: relaxed.yearFrom,
+        yearTo: relaxed.yearTo,
+        runtimeMin: relaxed.runtimeMin,
+        runtimeMax: relaxed.runtimeMax,
+        episodesMin: relaxed.episodesMin,
+        episodesMax: relaxed.episodesMax,
+        seasonsMin: relaxed.seasonsMin,
+        seasonsMax: relaxed.seasonsMax,
+        locale: relaxed.locale,
       });
     } else {
       const sortBy = SORT_MAP[relaxed.sort] ?? "popularity.desc";
-      result = await discoverShows({
-        genreId: relaxed.genreId,
+      result = await metadata.discoverShows({
+        genreIds: relaxed.genreIds,
+        genreMatch: relaxed.genreMatch,
+        excludeGenreIds: relaxed.excludeGenreIds,
         page: 1,
         sortBy,
         status: relaxed.status,
         ratingMin: relaxed.ratingMin,
         language: relaxed.language,
-        watchProviderId: relaxed.watchProviderId,
+        watchProviderIds: relaxed.watchProviderIds,
+        watchRegion: relaxed.watchRegion,
+        keywordIds: relaxed.keywordIds,
+        networkIds: relaxed.networkIds,
+        originCountry: relaxed.originCountry,
+        yearFrom: relaxed.yearFrom,
+        yearTo: relaxed.yearTo,
+        runtimeMin: relaxed.runtimeMin,
+        runtimeMax: relaxed.runtimeMax,
+        episodesMin: relaxed.episodesMin,
+        episodesMax: relaxed.episodesMax,
+        seasonsMin: relaxed.seasonsMin,
+        seasonsMax: relaxed.seasonsMax,
+        locale: relaxed.locale,
       });
     }
 
@@ -116,57 +247,130 @@ async function tryFallback(opts: {
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const genre        = searchParams.get("genre") ?? "";
+  const genres       = parseGenres(searchParams.get("genre"));
+  const genreMatch   = searchParams.get("genre_match") === "any" ? "any" : "all";
+  const excluded     = parseGenres(searchParams.get("exclude"));
   const page         = Math.max(1, parseInt(searchParams.get("page") ?? "1", 10) || 1);
+  // Rating sort paginates by cursor (nextCursor of the previous response)
+  const cursor       = searchParams.get("cursor") ?? undefined;
   const sort         = searchParams.get("sort") ?? "popularity";
   const status       = (searchParams.get("status") as "running" | "ended" | null) ?? undefined;
   const rating       = searchParams.get("rating");
   const language     = searchParams.get("language") ?? undefined;
-  const platformName = searchParams.get("platform") ?? undefined;
+  // Only shows streaming on any of the user's subscribed services
+  const myServices   = searchParams.get("my_services") === "1";
+  const keywordIds   = parseIds(searchParams.get("keywords"));
+  const networkIds   = parseIds(searchParams.get("networks"));
+  const country      = searchParams.get("country")?.toUpperCase() || undefined;
+  const { min: yearFrom,    max: yearTo }      = parseRange(searchParams.get("years"));
+  const { min: runtimeMin,  max: runtimeMax }  = parseRange(searchParams.get("runtime"));
+  const { min: episodesMin, max: episodesMax } = parseRange(searchParams.get("episodes"));
+  const { min: seasonsMin,  max: seasonsMax }  = parseRange(searchParams.get("seasons"));
 
-  const genreId          = GENRE_MAP[genre] ?? undefined;
+  const genreIds         = genres.ids;
+  const excludeGenreIds  = excluded.ids;
   const ratingMin        = rating ? parseFloat(rating) : undefined;
-  const watchProviderId  = platformName ? PLATFORM_MAP[platformName] : undefined;
-
-  const hasActiveFilters = !!(ratingMin || status || language || watchProviderId);
 
   try {
-    // When sorting by rating, use the hybrid approach:
-    // fetch popular shows from TMDB, then re-sort by rating server-side.
-    let result: { shows: TVMazeShow[]; totalPages: number };
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const { locale, region, subscribed_providers } = await getUserPreferences(supabase, user?.id);
+
+    const metadata = getMetadataProvider();
+
+    // Ignored without subscriptions (e.g. signed out) rather than matching nothing
+    const watchProviderIds = myServices && subscribed_providers.length > 0 ? subscribed_providers : undefined;
+
+    const hasActiveFilters = !!(
+      excludeGenreIds || ratingMin || status || language || watchProviderIds ||
+      keywordIds || networkIds || country || yearFrom || yearTo || runtimeMin || runtimeMax ||
+      episodesMin || episodesMax || seasonsMin || seasonsMax
+    );
+
+    // Rating sort ranks by weighted rating over a pinned snapshot (see tmdb.ts)
+    let result: DiscoverResult;
 
     if (sort === "rating") {
-      result = await discoverShowsByRating({
-        genreId,
+      result = await metadata.discoverShowsByRating({
+        genreIds,
+        genreMatch,
+        excludeGenreIds,
         page,
+        cursor,
         status: status ?? undefined,
         ratingMin,
         language: language ?? undefined,
-        watchProviderId,
+        watchProviderIds,
+        watchRegion: region,
+        keywordIds,
+        networkIds,
+        originCountry: country,
+        yearFrom,
+        yearTo,
+        runtimeMin,
+        runtimeMax,
+        episodesMin,
+        episodesMax,
+        seasonsMin,
+        seasonsMax,
+        locale,
       });
     } else {
       const sortBy = SORT_MAP[sort] ?? "popularity.desc";
-      result = await discoverShows({
-        genreId,
+      result = await metadata.discoverShows({
+        genreIds,
+        genreMatch,
+        excludeGenreIds,
         page,
         sortBy,
         status: status ?? undefined,
         ratingMin,
         language: language ?? undefined,
-        watchProviderId,
+        watchProviderIds,
+        watchRegion: region,
+        keywordIds,
+        networkIds,
+        originCountry: country,
+        yearFrom,
+        yearTo,
+        runtimeMin,
+        runtimeMax,
+        episodesMin,
+        episodesMax,
+        seasonsMin,
+        seasonsMax,
+        locale,
       });
     }
 
     // If primary query returned empty and we have active filters, try fallback
-    if (result.shows.length === 0 && hasActiveFilters && page === 1) {
+    // (a count-bounded rating slice can be empty with more to come — not a dead end)
+    if (result.shows.length === 0 && hasActiveFilters && page === 1 && !cursor && !result.nextCursor) {
       const fallback = await tryFallback({
-        genreId,
+        genreIds,
+        genreMatch,
+        excludeGenreIds,
+        excludeGenreNames: excluded.names,
         sort,
         status: status ?? undefined,
         ratingMin,
         language: language ?? undefined,
-        watchProviderId,
-        platformName,
+        watchProviderIds,
+        keywordIds,
+        networkIds,
+        originCountry: country,
+        yearFrom,
+        yearTo,
+        runtimeMin,
+        runtimeMax,
+        episodesMin,
+        episodesMax,
+        seasonsMin,
+        seasonsMax,
+        watchRegion: region,
+        locale,
       });
 
       if (fallback) {
@@ -174,11 +378,17 @@ export async function GET(request: Request) {
           shows: [],
           totalPages: 0,
           fallback,
+          onServices: await getShowsOnServices(fallback.shows, subscribed_providers, region),
         });
       }
     }
 
-    return NextResponse.json(result);
+    // "On your services" badges — every result qualifies when filtered to them
+    const onServices = watchProviderIds
+      ? result.shows.map(resultParam)
+      : await getShowsOnServices(result.shows, subscribed_providers, region);
+
+    return NextResponse.json({ ...result, onServices });
   } catch (err) {
     console.error("Discover API error:", err);
     return NextResponse.json({ shows: [], totalPages: 0 }, { status: 500 });
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { enrichUserShows } from "@/lib/enrich-shows";
+import { getUserPreferences } from "@/lib/preferences";
+import type { UserShow } from "@/types";
+
+/**
+ * The signed-in user's tracked shows, enriched as on /my-shows — feeds the
+ * command palette's library index. Read-only: statuses are as stored, since
+ * a GET mustn't auto-move shows. Empty when signed out.
+ * GET /api/my-shows → EnrichedUserShow[]
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json([]);
+
+    const { data, error } = await supabase
+      .from("user_shows")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (error) throw error;
+
+    const { include_specials } = await getUserPreferences(supabase, user.id);
+    return NextResponse.json(
+      await enrichUserShows((data as UserShow[]) ?? [], supabase, {
+        includeSpecials: include_specials,
+        autoMove:        false,
+      })
+    );
+  } catch (err) {
+    console.error("My shows API error:", err);
+    return NextResponse.json([], { status: 500 });
+  }
+}
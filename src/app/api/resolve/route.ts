@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { resolveTmdbId, getShowIdMapping, type ShowIdSource } from "@/lib/show-ids";
+
+const SOURCES: ShowIdSource[] = ["tmdb", "tvmaze", "tvdb", "imdb"];
+
+/**
+ * Resolve a show by any supported ID, for importers and scrobblers. Signed-in
+ * only — each lookup can hit both providers and write to show_id_map.
+ * GET /api/resolve?source=imdb&id=tt0903747 → { tmdb, tvmaze, tvdb, imdb, ... }
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const source = searchParams.get("source") as ShowIdSource | null;
+  const id = searchParams.get("id")?.trim() ?? "";
+
+  if (!source || !SOURCES.includes(source) || !id) {
+    return NextResponse.json(
+      { error: `Expected ?source=${SOURCES.join("|")}&id=<id>` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+
+    const tmdbId = await resolveTmdbId(source, id);
+    if (tmdbId === null) {
+      return NextResponse.json({ error: "Show not found" }, { status: 404 });
+    }
+    return NextResponse.json(await getShowIdMapping(tmdbId));
+  } catch (err) {
+    console.error("Resolve API error:", err);
+    return NextResponse.json({ error: "Lookup failed" }, { status: 500 });
+  }
+}
@@ -1,19 +1,42 @@
 import { NextResponse } from "next/server";
-import { searchShows } from "@/lib/tmdb";
+import { getMetadataProvider } from "@/lib/metadata";
+import { createClient } from "@/lib/supabase/server";
+import { getUserPreferences } from "@/lib/preferences";
+import { getTrackedStatuses, getShowsOnServices } from "@/lib/enrich-shows";
 
+/**
+ * Show search, one page at a time.
+ * GET /api/search?q=office&page=2 → { results, page, totalPages, tracked, onServices }
+ * `tracked` maps results the user already tracks to their status, and
+ * `onServices` lists those streaming on the user's subscribed services —
+ * both keyed by resultParam().
+ */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const query = searchParams.get("q") ?? "";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
 
   if (!query.trim()) {
-    return NextResponse.json([]);
+    return NextResponse.json({ results: [], page, totalPages: 0, tracked: {}, onServices: [] });
   }
 
   try {
-    const results = await searchShows(query);
-    return NextResponse.json(results);
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const { locale, region, subscribed_providers } = await getUserPreferences(supabase, user?.id);
+
+    const metadata = getMetadataProvider();
+    const result = await metadata.searchShowsPage(query, page, locale);
+    const shows = result.results.map((r) => r.show);
+    const [tracked, onServices] = await Promise.all([
+      user ? getTrackedStatuses(supabase, metadata.name, shows) : {},
+      getShowsOnServices(shows, subscribed_providers, region),
+    ]);
+    return NextResponse.json({ ...result, tracked, onServices });
   } catch (err) {
     console.error("Search API error:", err);
-    return NextResponse.json([], { status: 500 });
+    return NextResponse.json({ results: [], page, totalPages: 0, tracked: {}, onServices: [] }, { status: 500 });
   }
 }
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getMetadataProvider } from "@/lib/metadata";
+import { createClient } from "@/lib/supabase/server";
+import { getUserPreferences } from "@/lib/preferences";
+import { getTrackedStatuses } from "@/lib/enrich-shows";
+
+/** Suggestions shown under the search box */
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Typeahead suggestions — shows and people mixed, most relevant first.
+ * GET /api/search/suggest?q=bry → { suggestions, tracked }
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim() ?? "";
+
+  if (!query) {
+    return NextResponse.json({ suggestions: [], tracked: {} });
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const { locale } = await getUserPreferences(supabase, user?.id);
+
+    const metadata = getMetadataProvider();
+    const suggestions = (await metadata.searchSuggestions(query, locale)).slice(0, MAX_SUGGESTIONS);
+    const shows = suggestions.flatMap((s) => (s.type === "show" ? [s.show] : []));
+    const tracked = user ? await getTrackedStatuses(supabase, metadata.name, shows) : {};
+    return NextResponse.json({ suggestions, tracked });
+  } catch (err) {
+    console.error("Search suggest API error:", err);
+    return NextResponse.json({ suggestions: [], tracked: {} }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getMetadataProvider } from "@/lib/metadata";
+import { getUserPreferences } from "@/lib/preferences";
+import { parseShowParam, showRefColumns } from "@/lib/show-ref";
+import { getUpNextQueue } from "@/lib/up-next";
+import type { UpNext, UserShow } from "@/types";
+
+const EMPTY: UpNext = { episodes: [], remaining: 0 };
+
+/**
+ * A tracked show's Up Next queue, to refill the dashboard card once its
+ * lookahead is used up. Empty when signed out or the show isn't tracked.
+ * GET /api/up-next?show=1399 (or tvmaze-82) → UpNext
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = parseShowParam(searchParams.get("show") ?? "");
+  if (!parsed) return NextResponse.json(EMPTY, { status: 400 });
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json(EMPTY);
+
+    const { locale } = await getUserPreferences(supabase, user.id);
+    const provider = parsed.provider ?? getMetadataProvider().name;
+
+    const { data, error } = await supabase
+      .from("user_shows")
+      .select("*")
+      .match(showRefColumns({ provider, id: parsed.id }))
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return NextResponse.json(EMPTY);
+
+    const [upNext] = await getUpNextQueue([data as UserShow], supabase, locale);
+    return NextResponse.json(upNext ? { episodes: upNext.episodes, remaining: upNext.remaining } : EMPTY);
+  } catch (err) {
+    console.error("Up next API error:", err);
+    return NextResponse.json(EMPTY, { status: 500 });
+  }
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { motion, AnimatePresence } from "framer-motion";
+import { STATUS_CONFIG } from "@/components/ui/ShowCard";
+import { createLibraryIndex } from "@/lib/fuzzy-search";
+import { loadLibrary } from "@/lib/library-cache";
+import type { EnrichedUserShow } from "@/types";
+
+/** Rows listed — with an empty query, the top of the library in My Shows order */
+const MAX_RESULTS = 8;
+
+/**
+ * Cmd/Ctrl-K jump-to-show palette over the user's tracked shows. The
+ * library loads on first open and is reused after that until a change to
+ * it invalidates the cache (library-cache.ts).
+ */
+export default function CommandPalette() {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const [library, setLibrary] = useState<EnrichedUserShow[] | null>(null);
+
+  // Global shortcut
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setHighlighted(0);
+    inputRef.current?.focus();
+
+    let cancelled = false;
+    loadLibrary()
+      .then((shows) => { if (!cancelled) setLibrary(shows); })
+      .catch(() => { if (!cancelled) setLibrary((prev) => prev ?? []); });
+    return () => { cancelled = true; };
+  }, [open]);
+
+  const index = useMemo(() => createLibraryIndex(library ?? []), [library]);
+  const results = query.trim()
+    ? index.search(query, MAX_RESULTS).map((r) => r.item)
+    : (library ?? []).slice(0, MAX_RESULTS);
+
+  function jumpTo(show: EnrichedUserShow) {
+    setOpen(false);
+    router.push(show.href);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((prev) => (prev + step + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const show = results[highlighted];
+      if (show) jumpTo(show);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  }
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          <motion.div
+            key="palette-backdrop"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.15 }}
+            className="fixed inset-0 z-[70] bg-black/60 backdrop-blur-sm"
+            onClick={() => setOpen(false)}
+          />
+
+          <motion.div
+            key="palette"
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+            role="dialog"
+            aria-label="Jump to a show"
+            className="
+              fixed z-[80] top-16 left-4 right-4 mx-auto max-w-md
+              bg-bg-surface border border-white/10 rounded-2xl shadow-2xl overflow-hidden
+            "
+          >
+            <input
+              ref={inputRef}
+              type="search"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setHighlighted(0);
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder="Jump to a show you track..."
+              role="combobox"
+              aria-expanded={results.length > 0}
+              aria-controls="command-palette-results"
+              aria-activedescendant={results[highlighted] ? `command-palette-${highlighted}` : undefined}
+              className="
+                w-full bg-transparent border-b border-white/5
+                px-4 py-3.5
+                text-text-primary placeholder:text-text-muted
+                text-sm focus:outline-none
+              "
+            />
+
+            <ul id="command-palette-results" role="listbox" className="py-1 max-h-[60vh] overflow-y-auto">
+              {results.map((show, i) => (
+                <li
+                  key={show.id}
+                  id={`command-palette-${i}`}
+                  role="option"
+                  aria-selected={i === highlighted}
+                  onMouseEnter={() => setHighlighted(i)}
+                  onClick={() => jumpTo(show)}
+                  className={`
+                    flex items-center gap-3 px-4 py-2.5 cursor-pointer
+                    ${i === highlighted ? "bg-white/5" : ""}
+                  `}
+                >
+                  <div className="relative flex-shrink-0 w-8 h-12 rounded-md overflow-hidden bg-bg-raised">
+                    {show.show_poster && (
+                      <Image src={show.show_poster} alt={show.show_name} fill sizes="32px" className="object-cover" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-text-primary line-clamp-1">{show.show_name}</p>
+                    {show.genres.length > 0 && (
+                      <p className="text-xs text-text-muted line-clamp-1">{show.genres.join(" · ")}</p>
+                    )}
+                  </div>
+                  <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-[10px] font-medium border ${STATUS_CONFIG[show.status].color}`}>
+                    {STATUS_CONFIG[show.status].label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {library !== null && results.length === 0 && (
+              <p className="px-4 py-6 text-center text-text-muted text-sm">
+                {library.length === 0 ? "You aren't tracking any shows yet" : "No tracked show matches"}
+              </p>
+            )}
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
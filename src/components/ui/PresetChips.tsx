@@ -0,0 +1,73 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { discoverApiUrl } from "@/lib/discover-params";
+import { countNewResults } from "@/lib/saved-searches";
+import type { SavedSearch, TVMazeShow } from "@/types";
+
+interface PresetChipsProps {
+  presets: SavedSearch[];
+  /** Preset matching the current /search filters — highlighted, no count */
+  activeId?: string | null;
+}
+
+/**
+ * "My presets" row — each chip opens /search with the preset's filters and
+ * shows how many first-page results are new since it was last opened.
+ */
+export default function PresetChips({ presets, activeId = null }: PresetChipsProps) {
+  const [newCounts, setNewCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    for (const preset of presets) {
+      if (preset.id === activeId) continue;
+      fetch(discoverApiUrl(new URLSearchParams(preset.params), 1))
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: { shows: TVMazeShow[] } | null) => {
+          // Fallback-provider IDs can't be compared with the seen ones
+          if (cancelled || !data || data.shows.some((s) => s.provider)) return;
+          const count = countNewResults(preset, data.shows.map((s) => s.id));
+          setNewCounts((prev) => ({ ...prev, [preset.id]: count }));
+        })
+        .catch(() => {});
+    }
+    return () => { cancelled = true; };
+  }, [presets, activeId]);
+
+  if (presets.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto no-scrollbar -mx-4 px-4 pb-0.5">
+      <span className="flex-shrink-0 text-xs font-medium text-text-muted">My presets</span>
+      {presets.map((preset) => {
+        const isActive = preset.id === activeId;
+        const count = isActive ? 0 : newCounts[preset.id] ?? 0;
+        return (
+          <Link
+            key={preset.id}
+            href={`/search?${preset.params}`}
+            scroll={false}
+            className={`
+              flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5
+              rounded-full border text-xs font-medium whitespace-nowrap
+              transition-colors duration-150
+              ${isActive
+                ? "bg-accent border-accent text-white"
+                : "bg-bg-surface border-white/10 text-text-secondary hover:border-accent/40 hover:text-text-primary"
+              }
+            `}
+          >
+            {preset.name}
+            {count > 0 && (
+              <span className="inline-flex items-center justify-center min-w-[16px] h-4 px-1 rounded-full bg-accent/20 text-accent text-[10px] font-semibold">
+                +{count}
+              </span>
+            )}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,13 +3,28 @@
 import Image from "next/image";
 import Link from "next/link";
 import { motion, type Variants } from "framer-motion";
-import type { TVMazeShow } from "@/types";
+import { resultParam } from "@/lib/show-ref";
+import type { TVMazeShow, ShowStatus } from "@/types";
 
 interface ShowCardProps {
   show: TVMazeShow;
   priority?: boolean;
+  /** The user's status if they already track this show — shown as a badge */
+  trackedStatus?: ShowStatus;
+  /** Streams on one of the user's subscribed services */
+  onMyServices?: boolean;
 }
 
+// ── Status badge configuration (outside component — never re-created) ──────
+
+export const STATUS_CONFIG: Record<ShowStatus, { label: string; color: string }> = {
+  watching:      { label: "Watching",      color: "bg-green-500/15 text-green-400 border-green-500/20"    },
+  plan_to_watch: { label: "Plan to Watch", color: "bg-accent/15 text-accent border-accent/20"             },
+  completed:     { label: "Completed",     color: "bg-sky-500/15 text-sky-400 border-sky-500/20"          },
+  on_hold:       { label: "On Hold",       color: "bg-yellow-500/15 text-yellow-400 border-yellow-500/20" },
+  dropped:       { label: "Dropped",       color: "bg-red-500/15 text-red-400 border-red-500/20"          },
+};
+
 // Exported so the parent grid container can use staggerChildren
 export const showCardVariants: Variants = {
   hidden: { opacity: 0, scale: 0.96 },
@@ -20,13 +35,24 @@ export const showCardVariants: Variants = {
   },
 };
 
-export default function ShowCard({ show, priority = false }: ShowCardProps) {
+/** "12 hours to finish" — episode count × episode runtime, when both are known */
+function timeToFinish(show: TVMazeShow): string | null {
+  const runtime = show.averageRuntime ?? show.runtime;
+  if (!show.episodeCount || !runtime) return null;
+  const minutes = show.episodeCount * runtime;
+  if (minutes < 60) return `${minutes} min to finish`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} ${hours === 1 ? "hour" : "hours"} to finish`;
+}
+
+export default function ShowCard({ show, priority = false, trackedStatus, onMyServices = false }: ShowCardProps) {
   const imageUrl = show.image?.medium ?? show.image?.original ?? null;
   const year = show.premiered ? show.premiered.slice(0, 4) : null;
   const networkName = show.network?.name ?? show.webChannel?.name ?? null;
+  const finishEstimate = timeToFinish(show);
 
   return (
-    <Link href={`/show/${show.id}`} className="block">
+    <Link href={`/show/${resultParam(show)}`} className="block">
       <motion.div
         variants={showCardVariants}
         whileTap={{ scale: 0.96 }}
@@ -51,6 +77,21 @@ export default function ShowCard({ show, priority = false }: ShowCardProps) {
               </span>
             </div>
           )}
+
+          {/* Tracked status — overlaid on poster bottom-left */}
+          {trackedStatus && (
+            <div
+              className={`
+                absolute bottom-2 left-2
+                px-2 py-0.5 rounded-full
+                text-[10px] font-medium border
+                backdrop-blur-sm
+                ${STATUS_CONFIG[trackedStatus].color}
+              `}
+            >
+              {STATUS_CONFIG[trackedStatus].label}
+            </div>
+          )}
         </div>
 
         {/* Metadata */}
@@ -58,11 +99,26 @@ export default function ShowCard({ show, priority = false }: ShowCardProps) {
           <p className="text-text-primary text-sm font-medium leading-tight line-clamp-1">
             {show.name}
           </p>
+          {show.originalName && (
+            <p className="text-text-muted text-xs line-clamp-1">
+              {show.originalName}
+            </p>
+          )}
           {(year || networkName) && (
             <p className="text-text-muted text-xs font-light line-clamp-1">
               {[year, networkName].filter(Boolean).join(" · ")}
             </p>
           )}
+          {finishEstimate && (
+            <p className="text-text-secondary text-xs line-clamp-1">
+              {finishEstimate}
+            </p>
+          )}
+          {onMyServices && (
+            <p className="text-accent text-xs font-medium line-clamp-1">
+              On your services
+            </p>
+          )}
         </div>
       </motion.div>
     </Link>
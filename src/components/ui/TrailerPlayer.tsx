@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import type { ShowVideo } from "@/types";
+
+// ── Embed helpers (outside component — never re-created) ───────────────────
+
+/** Privacy-enhanced embed URLs — no cookies until the user presses play */
+function embedUrl(video: ShowVideo): string {
+  return video.site === "YouTube"
+    ? `https://www.youtube-nocookie.com/embed/${video.key}?autoplay=1&rel=0`
+    : `https://player.vimeo.com/video/${video.key}?autoplay=1&dnt=1`;
+}
+
+function thumbnailUrl(video: ShowVideo): string | null {
+  return video.site === "YouTube" ? `https://i.ytimg.com/vi/${video.key}/hqdefault.jpg` : null;
+}
+
+// ── Component ──────────────────────────────────────────────────────────────
+
+interface TrailerPlayerProps {
+  video: ShowVideo;
+}
+
+/**
+ * Click-to-load video embed. Only a static thumbnail is shown until the user
+ * taps play, so no third-party player loads (or sets cookies) on page view.
+ */
+export default function TrailerPlayer({ video }: TrailerPlayerProps) {
+  // Reset to the thumbnail whenever a different video is selected
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const isLoaded = loadedKey === video.key;
+  const thumbnail = thumbnailUrl(video);
+
+  return (
+    <div className="aspect-video w-full rounded-xl overflow-hidden bg-bg-raised relative">
+      {isLoaded ? (
+        <iframe
+          src={embedUrl(video)}
+          title={video.name}
+          allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+          allowFullScreen
+          className="absolute inset-0 w-full h-full"
+        />
+      ) : (
+        <button
+          onClick={() => setLoadedKey(video.key)}
+          className="absolute inset-0 w-full h-full group"
+          aria-label={`Play ${video.name}`}
+        >
+          {thumbnail && (
+            <Image
+              src={thumbnail}
+              alt=""
+              fill
+              sizes="(max-width: 768px) 100vw, 600px"
+              className="object-cover"
+            />
+          )}
+          <div className="absolute inset-0 bg-black/30" />
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="w-14 h-14 rounded-full bg-black/60 backdrop-blur-sm border border-white/20 flex items-center justify-center group-active:scale-90 transition-transform duration-100">
+              <svg width="22" height="22" viewBox="0 0 24 24" fill="white" className="ml-1">
+                <polygon points="6 4 20 12 6 20 6 4" />
+              </svg>
+            </div>
+          </div>
+          <p className="absolute bottom-0 left-0 right-0 px-3 py-2 text-left text-xs text-white font-medium line-clamp-1 bg-gradient-to-t from-black/70 to-transparent">
+            {video.name}
+          </p>
+          <p className="absolute top-2 right-2 text-[10px] text-white/70">
+            Loads from {video.site}
+          </p>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -3,30 +3,68 @@
 import Image from "next/image";
 import Link from "next/link";
 import { motion } from "framer-motion";
-import { showCardVariants } from "@/components/ui/ShowCard";
-import type { UserShow, ShowStatus } from "@/types";
+import { showCardVariants, STATUS_CONFIG } from "@/components/ui/ShowCard";
+import type { EnrichedUserShow } from "@/types";
 
-// ── Status badge configuration (outside component — never re-created) ──────
+// ── ProgressRing ───────────────────────────────────────────────────────────
 
-const STATUS_CONFIG: Record<ShowStatus, { label: string; color: string }> = {
-  watching:      { label: "Watching",      color: "bg-green-500/15 text-green-400 border-green-500/20"    },
-  plan_to_watch: { label: "Plan to Watch", color: "bg-accent/15 text-accent border-accent/20"             },
-  completed:     { label: "Completed",     color: "bg-sky-500/15 text-sky-400 border-sky-500/20"          },
-  on_hold:       { label: "On Hold",       color: "bg-yellow-500/15 text-yellow-400 border-yellow-500/20" },
-  dropped:       { label: "Dropped",       color: "bg-red-500/15 text-red-400 border-red-500/20"          },
-};
+const RING_RADIUS = 15;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+/** Share of released episodes watched, as a small ring */
+function ProgressRing({ watched, released }: { watched: number; released: number }) {
+  const filled = (watched / released) * RING_CIRCUMFERENCE;
+  return (
+    <svg
+      width="20"
+      height="20"
+      viewBox="0 0 36 36"
+      role="img"
+      aria-label={`${watched} of ${released} episodes watched`}
+      className="-rotate-90"
+    >
+      <circle cx="18" cy="18" r={RING_RADIUS} fill="rgba(0,0,0,0.6)" stroke="rgba(255,255,255,0.2)" strokeWidth="5" />
+      <circle
+        cx="18"
+        cy="18"
+        r={RING_RADIUS}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="5"
+        strokeLinecap="round"
+        strokeDasharray={`${filled} ${RING_CIRCUMFERENCE}`}
+        className="text-accent"
+      />
+    </svg>
+  );
+}
 
 // ── Component ──────────────────────────────────────────────────────────────
 
 interface UserShowCardProps {
-  userShow: UserShow;
+  userShow: EnrichedUserShow;
   priority?: boolean;
   newSeasonTag?: "soon" | "out" | null;
   isRunning?: boolean;
+  /** Faded — e.g. not streaming on any of the user's services */
+  dimmed?: boolean;
+  /** Streams on one of the user's subscribed services */
+  onMyServices?: boolean;
 }
 
-export default function UserShowCard({ userShow, priority = false, newSeasonTag = null, isRunning = false }: UserShowCardProps) {
-  const { show_name, show_poster, tvmaze_show_id, status } = userShow;
+export default function UserShowCard({
+  userShow,
+  priority = false,
+  newSeasonTag = null,
+  isRunning = false,
+  dimmed = false,
+  onMyServices = false,
+}: UserShowCardProps) {
+  const { show_name, show_poster, href, status, releasedEpisodeCount, watchedEpisodeCount } = userShow;
+  const episodesLeft = releasedEpisodeCount - watchedEpisodeCount;
+  // Started (or meant to be watching) with episodes left — a completed show
+  // with no episode rows predates episode tracking, so it isn't "behind"
+  const showProgress = episodesLeft > 0 && (watchedEpisodeCount > 0 || status === "watching");
 
   // Running shows marked "completed" display as "Caught Up"
   const isCaughtUp = status === "completed" && isRunning;
@@ -35,7 +73,7 @@ export default function UserShowCard({ userShow, priority = false, newSeasonTag
     : STATUS_CONFIG[status];
 
   return (
-    <Link href={`/show/${tvmaze_show_id}`} className="block">
+    <Link href={href} className={`block transition-opacity duration-150 ${dimmed ? "opacity-40" : ""}`}>
       <motion.div
         variants={showCardVariants}
         whileTap={{ scale: 0.96 }}
@@ -79,6 +117,13 @@ export default function UserShowCard({ userShow, priority = false, newSeasonTag
             </div>
           )}
 
+          {/* Progress ring — top-right */}
+          {showProgress && (
+            <div className="absolute top-2 right-2">
+              <ProgressRing watched={watchedEpisodeCount} released={releasedEpisodeCount} />
+            </div>
+          )}
+
           {/* Status badge — overlaid on poster bottom-left */}
           <div
             className={`
@@ -97,6 +142,16 @@ export default function UserShowCard({ userShow, priority = false, newSeasonTag
         <p className="text-text-primary text-xs font-medium leading-tight line-clamp-1 px-0.5">
           {show_name}
         </p>
+        {showProgress && (
+          <p className="-mt-1 text-text-muted text-[10px] font-medium line-clamp-1 px-0.5">
+            {episodesLeft} left
+          </p>
+        )}
+        {onMyServices && (
+          <p className="-mt-1 text-accent text-[10px] font-medium line-clamp-1 px-0.5">
+            On your services
+          </p>
+        )}
       </motion.div>
     </Link>
   );
@@ -0,0 +1,57 @@
+/**
+ * /search URL filter params ↔ /api/discover requests.
+ *
+ * The /search page keeps its discover filters in the URL (see SearchView);
+ * saved presets store the same params. Safe to import from client components.
+ */
+
+/** /search params that hold discover filters — everything but the typed query */
+export const FILTER_PARAMS = [
+  "genre", "genre_match", "exclude", "sort", "status", "rating", "lang", "my_services",
+  "networks", "keywords", "country", "years", "runtime", "episodes", "seasons",
+] as const;
+
+/** The filters in a /search URL as a canonical query string (known keys, fixed order) */
+export function filterParams(searchParams: URLSearchParams): string {
+  const filters = new URLSearchParams();
+  for (const key of FILTER_PARAMS) {
+    const value = searchParams.get(key);
+    if (value) filters.set(key, value);
+  }
+  return filters.toString();
+}
+
+/**
+ * /api/discover URL for a page of results under the given /search filters.
+ * Defaults are left out, and genre_match only matters with several genres.
+ */
+export function discoverApiUrl(filters: URLSearchParams, page: number, cursor?: string): string {
+  const params = new URLSearchParams({ page: String(page) });
+  if (cursor) params.set("cursor", cursor);
+
+  const genre = filters.get("genre") ?? "";
+  if (genre) params.set("genre", genre);
+  if (filters.get("genre_match") === "any" && genre.includes(",")) params.set("genre_match", "any");
+
+  // /search param → /api/discover param, skipped at its default value
+  const mapped: Array<[string, string, string]> = [
+    ["exclude",  "exclude",  ""],
+    ["sort",     "sort",     "popularity"],
+    ["status",   "status",   "all"],
+    ["rating",   "rating",   "any"],
+    ["lang",     "language", "all"],
+    ["my_services", "my_services", ""],
+    ["networks", "networks", ""],
+    ["keywords", "keywords", ""],
+    ["country",  "country",  "all"],
+    ["years",    "years",    ""],
+    ["runtime",  "runtime",  ""],
+    ["episodes", "episodes", ""],
+    ["seasons",  "seasons",  ""],
+  ];
+  for (const [from, to, fallback] of mapped) {
+    const value = filters.get(from);
+    if (value && value !== fallback) params.set(to, value);
+  }
+  return `/api/discover?${params.toString()}`;
+}
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { enrichUserShows, getTrackedStatuses } from "@/lib/enrich-shows";
+import { createMemoryClient, createMemoryDatabase, type MemoryDatabase } from "@/lib/supabase/memory";
+import type { ShowSeasonMeta, UserShow } from "@/types";
+
+const { seasonMeta } = vi.hoisted(() => ({ seasonMeta: new Map<number, ShowSeasonMeta>() }));
+
+vi.mock("@/lib/metadata", () => ({
+  getMetadataProvider: () => ({
+    name: "tmdb",
+    getShowSeasonMeta: async (id: number) => seasonMeta.get(id) ?? null,
+    getWatchProviders: async () => ({ link: null, flatrate: [], rent: [], buy: [] }),
+  }),
+}));
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+function daysFromNow(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function meta(id: number, overrides: Partial<ShowSeasonMeta> = {}): ShowSeasonMeta {
+  return {
+    tmdbId:                id,
+    nextEpisode:           null,
+    lastEpisode:           { seasonNumber: 1, episodeNumber: 8, airDate: daysFromNow(-30) },
+    numberOfSeasons:       1,
+    specialsCount:         2,
+    releasedEpisodeCount:  8,
+    releasedSpecialsCount: 2,
+    latestSeasonAirDate:   daysFromNow(-400),
+    isRunning:             false,
+    genres:                [],
+    alternativeTitles:     [],
+    ...overrides,
+  };
+}
+
+function userShow(id: number, status: UserShow["status"]): UserShow {
+  return {
+    id:            `show-${id}`,
+    user_id:       "alice",
+    provider:      "tmdb",
+    external_id:   id,
+    show_name:     `Show ${id}`,
+    show_poster:   null,
+    show_backdrop: null,
+    status,
+    created_at:    new Date().toISOString(),
+  };
+}
+
+/** Lets enrichUserShows' fire-and-forget writes land */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("enrichUserShows", () => {
+  let db: MemoryDatabase;
+
+  beforeEach(() => {
+    seasonMeta.clear();
+    db = createMemoryDatabase({
+      user_shows: [userShow(1, "completed"), userShow(2, "completed")],
+    });
+  });
+
+  it("moves a completed show back to watching when its season has unaired episodes", async () => {
+    seasonMeta.set(1, meta(1, {
+      nextEpisode: { seasonNumber: 1, episodeNumber: 9, airDate: daysFromNow(7) },
+      isRunning:   true,
+    }));
+    seasonMeta.set(2, meta(2));
+
+    const supabase = createMemoryClient(db, "alice");
+    const { data } = await supabase.from("user_shows").select("*");
+    const enriched = await enrichUserShows(data ?? [], supabase);
+    await settle();
+
+    expect(enriched.find((s) => s.external_id === 1)?.status).toBe("watching");
+    expect(enriched.find((s) => s.external_id === 2)?.status).toBe("completed");
+    const stored = Object.fromEntries(db.tables.get("user_shows")!.map((r) => [r.external_id, r.status]));
+    expect(stored).toEqual({ 1: "watching", 2: "completed" });
+  });
+
+  it("doesn't move or write anything when auto-move is off", async () => {
+    seasonMeta.set(1, meta(1, {
+      nextEpisode: { seasonNumber: 1, episodeNumber: 9, airDate: daysFromNow(7) },
+      isRunning:   true,
+    }));
+
+    const supabase = createMemoryClient(db, "alice");
+    const [first] = await enrichUserShows([userShow(1, "completed")], supabase, { autoMove: false });
+    await settle();
+
+    expect(first.status).toBe("completed");
+    expect(first.hasUpcomingEpisodesInCurrentSeason).toBe(true);
+    expect(db.tables.get("user_shows")![0].status).toBe("completed");
+  });
+
+  it("leaves a completed show alone when only a new season is coming", async () => {
+    seasonMeta.set(1, meta(1, {
+      nextEpisode: { seasonNumber: 2, episodeNumber: 1, airDate: daysFromNow(30) },
+      isRunning:   true,
+    }));
+
+    const supabase = createMemoryClient(db, "alice");
+    const [first] = await enrichUserShows([userShow(1, "completed")], supabase);
+    await settle();
+
+    expect(first.status).toBe("completed");
+    expect(first.newSeasonTag).toBe("soon");
+    expect(db.tables.get("user_shows")![0].status).toBe("completed");
+  });
+
+  it("counts watched regular episodes up to the last aired one", async () => {
+    seasonMeta.set(1, meta(1));
+    db = createMemoryDatabase({
+      watch_progress: [
+        { user_id: "alice", external_id: 1, season: 0, episode: 1 },
+        { user_id: "alice", external_id: 1, season: 1, episode: 1 },
+        { user_id: "alice", external_id: 1, season: 1, episode: 2 },
+      ],
+    });
+
+    const supabase = createMemoryClient(db, "alice");
+    const [first] = await enrichUserShows([userShow(1, "watching")], supabase);
+
+    expect(first.releasedEpisodeCount).toBe(8);
+    expect(first.watchedEpisodeCount).toBe(2);
+  });
+
+  it("counts specials too when the user includes them", async () => {
+    seasonMeta.set(1, meta(1));
+    db = createMemoryDatabase({
+      watch_progress: [
+        { user_id: "alice", external_id: 1, season: 0, episode: 1 },
+        { user_id: "alice", external_id: 1, season: 1, episode: 1 },
+      ],
+    });
+
+    const supabase = createMemoryClient(db, "alice");
+    const [first] = await enrichUserShows([userShow(1, "watching")], supabase, { includeSpecials: true });
+
+    expect(first.releasedEpisodeCount).toBe(10);
+    expect(first.watchedEpisodeCount).toBe(2);
+  });
+});
+
+describe("getTrackedStatuses", () => {
+  it("keys statuses by result, so IDs from another provider don't collide", async () => {
+    const db = createMemoryDatabase({
+      user_shows: [
+        userShow(82, "watching"),
+        { ...userShow(82, "completed"), id: "show-tvmaze-82", provider: "tvmaze" },
+        { ...userShow(7, "dropped"), id: "show-tvmaze-7", provider: "tvmaze" },
+      ],
+    });
+    const supabase = createMemoryClient(db, "alice");
+
+    expect(await getTrackedStatuses(supabase, "tmdb", [{ id: 82 }, { id: 7 }])).toEqual({ 82: "watching" });
+    expect(
+      await getTrackedStatuses(supabase, "tmdb", [{ id: 82, provider: "tvmaze" }, { id: 7, provider: "tvmaze" }])
+    ).toEqual({ "tvmaze-82": "completed", "tvmaze-7": "dropped" });
+  });
+});
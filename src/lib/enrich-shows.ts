@@ -1,14 +1,24 @@
 /**
  * Shared enrichment logic for user shows.
  *
- * Fetches TMDB season metadata, computes new-season tags,
- * auto-moves completed shows, and sorts by priority.
+ * Fetches season metadata (via the configured metadata provider), computes new-season tags
+ * and episode progress, auto-moves completed shows, and sorts by priority.
  *
- * Used by both /my-shows and /dashboard server components.
+ * Used by both /my-shows and /dashboard server components; getTrackedStatuses
+ * and getShowsOnServices badge search and discover results.
  */
 
-import { getShowSeasonMeta, type ShowSeasonMeta } from "@/lib/tmdb";
-import type { UserShow, EnrichedUserShow } from "@/types";
+import { getMetadataProvider } from "@/lib/metadata";
+import { resultParam, showPath } from "@/lib/show-ref";
+import type {
+  UserShow,
+  EnrichedUserShow,
+  ShowSeasonMeta,
+  ShowProvider,
+  TrackedStatuses,
+  TVMazeShow,
+  WatchProvider,
+} from "@/types";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
 // ── Sort priority (lower = higher on page) ────────────────────────────────────
@@ -22,51 +32,98 @@ function getSortPriority(show: EnrichedUserShow): number {
   return 5;
 }
 
+/** Map key for a stored show — IDs alone can collide across providers */
+function refKey(provider: string, externalId: number): string {
+  return `${provider}:${externalId}`;
+}
+
 // ── Public API ────────────────────────────────────────────────────────────────
 
+export interface EnrichOptions {
+  /** Also fetch streaming availability in this watch region (My Shows filter) */
+  watchRegion?: string;
+  /** Count specials (season 0) in episode progress — the user's include_specials */
+  includeSpecials?: boolean;
+  /**
+   * Move completed shows whose season still has episodes to come back to
+   * watching, in the DB too (default). Off for read-only callers.
+   */
+  autoMove?: boolean;
+}
+
 /**
- * Enrich user shows with TMDB metadata, auto-move completed shows,
- * and sort by priority.
+ * Enrich user shows with TMDB metadata, auto-move completed shows (see
+ * EnrichOptions.autoMove), and sort by priority.
  *
  * @param shows  Raw user shows from Supabase
- * @param supabase  Supabase client (for fire-and-forget DB updates)
+ * @param supabase  Supabase client (for progress, and fire-and-forget DB updates)
+ * @param options  Optional extra enrichment
  * @returns Enriched, sorted shows
  */
 export async function enrichUserShows(
   shows: UserShow[],
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  options: EnrichOptions = {}
 ): Promise<EnrichedUserShow[]> {
   if (shows.length === 0) return [];
 
-  // ── Fetch TMDB season metadata + user watch progress in parallel ──────
+  // ── Fetch TMDB season metadata, providers + user watch progress in parallel ──
 
-  const showIds = shows.map((s) => s.tvmaze_show_id);
+  const showIds = shows.map((s) => s.external_id);
+  const metadata = getMetadataProvider();
+  const { watchRegion, includeSpecials = false, autoMove = true } = options;
 
-  const [metaResults, watchProgressResult] = await Promise.all([
-    Promise.allSettled(shows.map((s) => getShowSeasonMeta(s.tvmaze_show_id))),
-    // Fetch the max watched season per show so we can skip "New Season Out"
-    // for shows the user has already started watching in the latest season
+  const [metaResults, providerResults, watchProgressResult] = await Promise.all([
+    // Rows saved under another provider (not yet backfilled) have no metadata
+    // here — their links go through the show page's ID resolution instead
+    Promise.allSettled(
+      shows.map((s) =>
+        s.provider === metadata.name ? metadata.getShowSeasonMeta(s.external_id) : null
+      )
+    ),
+    // Cached per show by the provider layer, so repeat visits stay cheap
+    Promise.allSettled(
+      shows.map((s) =>
+        watchRegion && s.provider === metadata.name
+          ? metadata.getWatchProviders(s.external_id, watchRegion)
+          : null
+      )
+    ),
+    // Watched episodes per show — for progress counts, and to skip "New Season
+    // Out" for shows the user has already started watching in the latest season
     supabase
       .from("watch_progress")
-      .select("tvmaze_show_id, season")
-      .in("tvmaze_show_id", showIds),
+      .select("provider, external_id, season, episode")
+      .in("external_id", showIds),
   ]);
 
-  const metaMap = new Map<number, ShowSeasonMeta>();
+  const metaMap = new Map<string, ShowSeasonMeta>();
   metaResults.forEach((result, i) => {
     if (result.status === "fulfilled" && result.value) {
-      metaMap.set(shows[i].tvmaze_show_id, result.value);
+      metaMap.set(shows[i].id, result.value);
     }
   });
 
-  // Build a map of showId → max watched season number
-  const maxWatchedSeasonMap = new Map<number, number>();
+  const streamingMap = new Map<string, WatchProvider[]>();
+  providerResults.forEach((result, i) => {
+    if (result.status === "fulfilled" && result.value) {
+      streamingMap.set(shows[i].id, result.value.flatrate);
+    }
+  });
+
+  // Build maps of show ref → max watched season number, and → watched episodes
+  const maxWatchedSeasonMap = new Map<string, number>();
+  const watchedMap = new Map<string, { season: number; episode: number }[]>();
   if (watchProgressResult.data) {
     for (const row of watchProgressResult.data) {
-      const current = maxWatchedSeasonMap.get(row.tvmaze_show_id) ?? 0;
+      const key = refKey(row.provider, row.external_id);
+      const current = maxWatchedSeasonMap.get(key) ?? 0;
       if (row.season > current) {
-        maxWatchedSeasonMap.set(row.tvmaze_show_id, row.season);
+        maxWatchedSeasonMap.set(key, row.season);
       }
+      const watched = watchedMap.get(key) ?? [];
+      watched.push({ season: row.season, episode: row.episode });
+      watchedMap.set(key, watched);
     }
   }
 
@@ -79,10 +136,12 @@ export async function enrichUserShows(
   threeMonthsLater.setMonth(threeMonthsLater.getMonth() + 3);
 
   const enriched: EnrichedUserShow[] = shows.map((show) => {
-    const meta = metaMap.get(show.tvmaze_show_id);
+    const meta = metaMap.get(show.id);
     let newSeasonTag: "soon" | "out" | null = null;
     let nextEpisodeAirDate: string | null = null;
     let hasUpcomingEpisodesInCurrentSeason = false;
+    let releasedEpisodeCount = 0;
+    let watchedEpisodeCount = 0;
 
     if (meta) {
       const { nextEpisode, lastEpisode, latestSeasonAirDate, numberOfSeasons } = meta;
@@ -119,7 +178,7 @@ export async function enrichUserShows(
         latestSeasonAirDate &&
         numberOfSeasons > 1
       ) {
-        const maxWatched = maxWatchedSeasonMap.get(show.tvmaze_show_id) ?? 0;
+        const maxWatched = maxWatchedSeasonMap.get(refKey(show.provider, show.external_id)) ?? 0;
         const alreadyWatchingLatest = maxWatched >= numberOfSeasons;
 
         if (!alreadyWatchingLatest) {
@@ -129,14 +188,38 @@ export async function enrichUserShows(
           }
         }
       }
+
+      // Episodes counted as on the show page: regular ones, plus specials if
+      // the user includes them. Watched regular episodes only count up to the
+      // last aired one — the range releasedEpisodeCount covers — and the cap
+      // keeps "N left" from going negative.
+      releasedEpisodeCount =
+        meta.releasedEpisodeCount + (includeSpecials ? meta.releasedSpecialsCount : 0);
+      const watched = watchedMap.get(refKey(show.provider, show.external_id)) ?? [];
+      watchedEpisodeCount = Math.min(
+        releasedEpisodeCount,
+        watched.filter((w) =>
+          w.season === 0
+            ? includeSpecials
+            : !!lastEpisode &&
+              (w.season < lastEpisode.seasonNumber ||
+                (w.season === lastEpisode.seasonNumber && w.episode <= lastEpisode.episodeNumber))
+        ).length
+      );
     }
 
     return {
       ...show,
+      href: showPath({ provider: show.provider, id: show.external_id }, metadata.name),
       newSeasonTag,
       nextEpisodeAirDate,
       hasUpcomingEpisodesInCurrentSeason,
       isRunning: meta?.isRunning ?? false,
+      genres: meta?.genres ?? [],
+      alternativeTitles: meta?.alternativeTitles ?? [],
+      streamingProviders: streamingMap.get(show.id) ?? [],
+      releasedEpisodeCount,
+      watchedEpisodeCount,
     };
   });
 
@@ -149,7 +232,7 @@ export async function enrichUserShows(
   const autoMoveToWatching: string[] = [];
 
   for (const show of enriched) {
-    if (show.status !== "completed") continue;
+    if (!autoMove || show.status !== "completed") continue;
 
     if (show.hasUpcomingEpisodesInCurrentSeason) {
       show.status = "watching";
@@ -178,8 +261,8 @@ export async function enrichUserShows(
     // Within the same status: sort by most recent episode air date (newest first).
     // Uses lastEpisode.airDate (most recently aired episode), falls back to
     // latestSeasonAirDate, then created_at.
-    const aMeta = metaMap.get(a.tvmaze_show_id);
-    const bMeta = metaMap.get(b.tvmaze_show_id);
+    const aMeta = metaMap.get(a.id);
+    const bMeta = metaMap.get(b.id);
     const aDate = aMeta?.lastEpisode?.airDate ?? aMeta?.latestSeasonAirDate ?? null;
     const bDate = bMeta?.lastEpisode?.airDate ?? bMeta?.latestSeasonAirDate ?? null;
 
@@ -195,3 +278,63 @@ export async function enrichUserShows(
 
   return enriched;
 }
+
+/**
+ * The signed-in user's status for each catalogue result they track, keyed by
+ * resultParam(), e.g. to badge search results. `activeProvider` is the ID
+ * space of untagged results. Untracked shows are absent from the map.
+ */
+export async function getTrackedStatuses(
+  supabase: SupabaseClient,
+  activeProvider: ShowProvider,
+  shows: Pick<TVMazeShow, "id" | "provider">[]
+): Promise<TrackedStatuses> {
+  if (shows.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("user_shows")
+    .select("provider, external_id, status")
+    .in("external_id", shows.map((s) => s.id));
+
+  if (error) {
+    console.error("Failed to fetch tracked statuses:", error);
+    return {};
+  }
+  const wanted = new Set(shows.map((s) => refKey(s.provider ?? activeProvider, s.id)));
+  return Object.fromEntries(
+    (data ?? [])
+      .filter((row) => wanted.has(refKey(row.provider, row.external_id)))
+      .map((row) => [
+        resultParam({
+          id:       row.external_id,
+          provider: row.provider === activeProvider ? undefined : row.provider,
+        }),
+        row.status,
+      ])
+  );
+}
+
+/**
+ * Which of `shows` stream on any of the user's `subscribed` services in
+ * `region`, as resultParam() keys — e.g. for "On your services" badges.
+ * Fallback results are skipped: their IDs mean nothing to the active
+ * provider. Provider lists are cached per show, so repeat lookups stay cheap.
+ */
+export async function getShowsOnServices(
+  shows: Pick<TVMazeShow, "id" | "provider">[],
+  subscribed: number[],
+  region: string
+): Promise<string[]> {
+  const ids = shows.filter((s) => !s.provider).map((s) => s.id);
+  if (ids.length === 0 || subscribed.length === 0) return [];
+
+  const metadata = getMetadataProvider();
+  const wanted = new Set(subscribed);
+  const results = await Promise.allSettled(ids.map((id) => metadata.getWatchProviders(id, region)));
+  return ids
+    .filter((_, i) => {
+      const result = results[i];
+      return result.status === "fulfilled" && result.value.flatrate.some((p) => wanted.has(p.id));
+    })
+    .map(String);
+}
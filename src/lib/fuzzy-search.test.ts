@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { createFuzzyIndex, normalizeText } from "@/lib/fuzzy-search";
+
+interface Item {
+  name: string;
+  genres: string[];
+}
+
+const items: Item[] = [
+  { name: "Office Christmas Party", genres: ["Comedy"] },
+  { name: "The Office",             genres: ["Comedy"] },
+  { name: "Breaking Bad",           genres: ["Drama", "Crime"] },
+  { name: "Pokémon",                genres: ["Animation"] },
+  { name: "Grey's Anatomy",         genres: ["Drama"] },
+];
+
+const index = createFuzzyIndex(items, [
+  { get: (i) => [i.name], weight: 1   },
+  { get: (i) => i.genres, weight: 0.6 },
+]);
+
+const names = (query: string) => index.search(query).map((r) => r.item.name);
+
+describe("normalizeText", () => {
+  it("folds case, accents, apostrophes and punctuation", () => {
+    expect(normalizeText("Pokémon")).toBe("pokemon");
+    expect(normalizeText("Grey’s  Anatomy!")).toBe("greys anatomy");
+  });
+});
+
+describe("createFuzzyIndex", () => {
+  it("ranks an exact title above a partial one", () => {
+    expect(names("the office")).toEqual(["The Office"]);
+    expect(names("office").slice(0, 2)).toEqual(["Office Christmas Party", "The Office"]);
+  });
+
+  it("ranks title matches above genre matches", () => {
+    const [title] = index.search("breaking");
+    const [genre] = index.search("crime");
+    expect(title.score).toBeGreaterThan(genre.score);
+  });
+
+  it("tolerates typos, accents and missing apostrophes", () => {
+    expect(names("breakng bad")).toEqual(["Breaking Bad"]);
+    expect(names("pokemn")).toEqual(["Pokémon"]);
+    expect(names("greys")).toEqual(["Grey's Anatomy"]);
+  });
+
+  it("allows no typos in short words", () => {
+    expect(names("bda")).toEqual([]);
+  });
+
+  it("requires every query word to match", () => {
+    expect(names("breaking office")).toEqual([]);
+  });
+
+  it("returns nothing for an empty or punctuation-only query", () => {
+    expect(names("")).toEqual([]);
+    expect(names("  ?! ")).toEqual([]);
+  });
+
+  it("honours the limit", () => {
+    expect(index.search("o", 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Client-side fuzzy search over a small in-memory list (e.g. the user's
+ * tracked shows). Tolerates typos, diacritics and punctuation:
+ * "pokemn" finds "Pokémon", "greys" finds "Grey's Anatomy".
+ *
+ *   const index = createFuzzyIndex(shows, [
+ *     { get: (s) => [s.show_name], weight: 1 },
+ *     { get: (s) => s.genres,      weight: 0.6 },
+ *   ]);
+ *   index.search("breakng bad");  // best matches first
+ *
+ * Every query word has to match a word of one field; a result's score is
+ * its best field. Safe to import from client components.
+ */
+
+import type { EnrichedUserShow } from "@/types";
+
+export interface FuzzyField<T> {
+  /** Values to match against — a field can hold several (e.g. genres) */
+  get: (item: T) => string[];
+  /** Relative importance, 0–1 */
+  weight: number;
+}
+
+export interface FuzzyResult<T> {
+  item: T;
+  /** 0–1, higher is better */
+  score: number;
+}
+
+export interface FuzzyIndex<T> {
+  search(query: string, limit?: number): FuzzyResult<T>[];
+}
+
+// ── Normalization ─────────────────────────────────────────────────────────────
+
+/**
+ * Lowercase, strip Latin diacritics, drop apostrophes, punctuation → spaces.
+ * Other scripts pass through — their combining marks are part of the letter.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['\u2019]/g, "")
+    .replace(/[\s!-/:-@[-`{-~\u00a1-\u00bf\u2000-\u206f]+/g, " ")
+    .trim();
+}
+
+function words(text: string): string[] {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(" ") : [];
+}
+
+// ── Matching ──────────────────────────────────────────────────────────────────
+
+/** Optimal string alignment distance (Levenshtein + adjacent swaps) */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/** Typos allowed in a query word — none for short words, which match too much */
+function maxTypos(token: string): number {
+  return token.length <= 3 ? 0 : token.length <= 6 ? 1 : 2;
+}
+
+/** How well one query word matches one field word, 0 for no match */
+function matchWord(token: string, word: string): number {
+  if (word === token) return 1;
+  if (word.startsWith(token)) return 0.9;
+  if (token.length >= 3 && word.includes(token)) return 0.7;
+
+  const allowed = maxTypos(token);
+  if (allowed === 0) return 0;
+  // Compare with the whole word, and with its prefix while the user is still typing
+  const distance = Math.min(
+    editDistance(token, word),
+    editDistance(token, word.slice(0, token.length))
+  );
+  return distance <= allowed ? 0.6 - 0.1 * distance : 0;
+}
+
+/** Average per-word match of `tokens` against one value, 0 if any word misses */
+function matchValue(tokens: string[], valueWords: string[], valueText: string, query: string): number {
+  if (valueText === query) return 1;
+  let total = 0;
+  for (const token of tokens) {
+    let best = 0;
+    for (const word of valueWords) {
+      best = Math.max(best, matchWord(token, word));
+      if (best === 1) break;
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  const score = total / tokens.length;
+  // Prefer values that start like the query ("the office" over "office christmas")
+  return valueText.startsWith(query) ? Math.min(1, score + 0.05) : score * 0.95;
+}
+
+// ── Index ─────────────────────────────────────────────────────────────────────
+
+interface IndexedValue {
+  text: string;
+  words: string[];
+  weight: number;
+}
+
+/** Build an index once per list — searching is then a linear scan with no re-normalizing */
+export function createFuzzyIndex<T>(items: T[], fields: FuzzyField<T>[]): FuzzyIndex<T> {
+  const entries = items.map((item) => ({
+    item,
+    values: fields.flatMap((field): IndexedValue[] =>
+      field.get(item).map((value) => ({
+        text: normalizeText(value),
+        words: words(value),
+        weight: field.weight,
+      }))
+    ),
+  }));
+
+  return {
+    search(query, limit = 20) {
+      const normalized = normalizeText(query);
+      const tokens = normalized ? normalized.split(" ") : [];
+      if (tokens.length === 0) return [];
+
+      const results: FuzzyResult<T>[] = [];
+      for (const { item, values } of entries) {
+        let score = 0;
+        for (const value of values) {
+          score = Math.max(score, matchValue(tokens, value.words, value.text, normalized) * value.weight);
+        }
+        if (score > 0) results.push({ item, score });
+      }
+      return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+}
+
+// ── Library index ─────────────────────────────────────────────────────────────
+
+/** Tracked shows by title, other titles and genre — for My Shows and the command palette */
+export function createLibraryIndex(shows: EnrichedUserShow[]): FuzzyIndex<EnrichedUserShow> {
+  return createFuzzyIndex(shows, [
+    { get: (s) => [s.show_name],       weight: 1   },
+    { get: (s) => s.alternativeTitles, weight: 0.9 },
+    { get: (s) => s.genres,            weight: 0.6 },
+  ]);
+}
@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { invalidateLibrary, loadLibrary } from "@/lib/library-cache";
+
+describe("loadLibrary", () => {
+  const fetch = vi.fn(async () => Response.json([{ id: "a" }]));
+
+  beforeEach(() => {
+    invalidateLibrary();
+    fetch.mockClear();
+    vi.stubGlobal("fetch", fetch);
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("fetches the library once until it's invalidated", async () => {
+    await loadLibrary();
+    expect(await loadLibrary()).toEqual([{ id: "a" }]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    invalidateLibrary();
+    await loadLibrary();
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries after a failed fetch", async () => {
+    fetch.mockResolvedValueOnce(new Response("Error", { status: 500 }));
+    await expect(loadLibrary()).rejects.toThrow("500");
+    expect(await loadLibrary()).toEqual([{ id: "a" }]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
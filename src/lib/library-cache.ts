@@ -0,0 +1,30 @@
+/**
+ * The signed-in user's tracked shows, enriched (/api/my-shows), for the
+ * command palette. Enriching costs a metadata call per show, so the library
+ * is fetched once per session and again only after invalidateLibrary() —
+ * call it wherever the client adds, moves or removes a show, and on sign-out.
+ * A failed fetch isn't kept, so the next load retries.
+ *
+ * Client-only: the cache is module state in the browser.
+ */
+
+import type { EnrichedUserShow } from "@/types";
+
+let library: Promise<EnrichedUserShow[]> | null = null;
+
+export function loadLibrary(): Promise<EnrichedUserShow[]> {
+  if (library) return library;
+  const request = fetch("/api/my-shows").then((res) => {
+    if (!res.ok) throw new Error(`My Shows API error: ${res.status}`);
+    return res.json() as Promise<EnrichedUserShow[]>;
+  });
+  library = request;
+  request.catch(() => {
+    if (library === request) library = null;
+  });
+  return request;
+}
+
+export function invalidateLibrary(): void {
+  library = null;
+}
@@ -0,0 +1,34 @@
+/**
+ * Locale and watch-region settings for show metadata.
+ *
+ * Locales are TMDB `language` values (ISO 639-1 language + ISO 3166-1
+ * region) and control titles, overviews and posters. The watch region is an
+ * ISO 3166-1 country code and controls Where to Watch and platform filters;
+ * the list of regions comes from TMDB (see getWatchRegions).
+ */
+
+export const DEFAULT_LOCALE = "en-US";
+export const DEFAULT_REGION = "IN";
+
+/** Locales offered in Settings — labels are in their own language */
+export const SUPPORTED_LOCALES: { code: string; label: string }[] = [
+  { code: "en-US", label: "English" },
+  { code: "hi-IN", label: "हिन्दी" },
+  { code: "ta-IN", label: "தமிழ்" },
+  { code: "te-IN", label: "తెలుగు" },
+  { code: "ml-IN", label: "മലയാളം" },
+  { code: "kn-IN", label: "ಕನ್ನಡ" },
+  { code: "es-ES", label: "Español" },
+  { code: "fr-FR", label: "Français" },
+  { code: "de-DE", label: "Deutsch" },
+  { code: "it-IT", label: "Italiano" },
+  { code: "pt-BR", label: "Português (Brasil)" },
+  { code: "ja-JP", label: "日本語" },
+  { code: "ko-KR", label: "한국어" },
+  { code: "zh-CN", label: "中文" },
+];
+
+/** "pt-BR" → "pt" */
+export function localeLanguage(locale: string): string {
+  return locale.split("-")[0];
+}
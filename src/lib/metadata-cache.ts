@@ -0,0 +1,163 @@
+/**
+ * Server-side metadata cache with stale-while-revalidate semantics.
+ *
+ * Two tiers:
+ *   1. In-memory LRU (per server process) — serves repeat renders instantly
+ *   2. Supabase `metadata_cache` table (optional) — survives cold starts and
+ *      is shared across serverless instances. Only enabled when
+ *      SUPABASE_SERVICE_ROLE_KEY is set, since the table has no RLS policies.
+ *
+ * Concurrent requests for the same key share a single in-flight load.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/supabase/service";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface CacheEntry<T> {
+  value: T;
+  /** Epoch ms when the value was loaded from the upstream API */
+  storedAt: number;
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+}
+
+export interface CachePolicy {
+  /** How long (ms) an entry is served as fresh */
+  ttl: number;
+  /** How long (ms) past `ttl` an entry may be served while revalidating */
+  staleTtl: number;
+}
+
+// ── Stores ────────────────────────────────────────────────────────────────────
+
+export function createMemoryStore(maxEntries = 5000): CacheStore {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry as CacheEntry<T>;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    },
+  };
+}
+
+export function createSupabaseStore(supabase: SupabaseClient): CacheStore {
+  return {
+    async get<T>(key: string) {
+      const { data, error } = await supabase
+        .from("metadata_cache")
+        .select("value, stored_at")
+        .eq("key", key)
+        .maybeSingle();
+      if (error || !data) return null;
+      return { value: data.value as T, storedAt: new Date(data.stored_at).getTime() };
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      const { error } = await supabase.from("metadata_cache").upsert({
+        key,
+        value: entry.value,
+        stored_at: new Date(entry.storedAt).toISOString(),
+      });
+      if (error) console.error("Metadata cache write failed:", error);
+    },
+  };
+}
+
+// ── Store resolution (once per server process) ────────────────────────────────
+
+let _memory: CacheStore | null = null;
+let _persistent: CacheStore | null | undefined;
+
+function getMemoryStore(): CacheStore {
+  if (!_memory) _memory = createMemoryStore();
+  return _memory;
+}
+
+function getPersistentStore(): CacheStore | null {
+  if (_persistent !== undefined) return _persistent;
+  // Fixture data must never reach the shared cache
+  const client = process.env.METADATA_PROVIDER === "mock" ? null : createServiceClient();
+  _persistent = client ? createSupabaseStore(client) : null;
+  return _persistent;
+}
+
+// ── Cached loader ─────────────────────────────────────────────────────────────
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/** Load from upstream once per key, writing through to both tiers */
+function load<T>(key: string, loader: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const promise = loader()
+    .then(async (value) => {
+      const entry: CacheEntry<T> = { value, storedAt: Date.now() };
+      await getMemoryStore().set(key, entry);
+      // Persistent write is fire-and-forget — never delays the response
+      getPersistentStore()?.set(key, entry);
+      return value;
+    })
+    .finally(() => inFlight.delete(key));
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+async function lookup<T>(key: string): Promise<CacheEntry<T> | null> {
+  const memory = getMemoryStore();
+  const hit = await memory.get<T>(key);
+  if (hit) return hit;
+
+  const persistent = getPersistentStore();
+  if (!persistent) return null;
+  try {
+    const entry = await persistent.get<T>(key);
+    if (entry) await memory.set(key, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Return the cached value for `key`, loading it via `loader` when missing.
+ *
+ * - fresh (age < ttl): served from cache
+ * - stale (age < ttl + staleTtl): served from cache, revalidated in background
+ * - expired or missing: loaded synchronously
+ */
+export async function cached<T>(
+  key: string,
+  policy: CachePolicy,
+  loader: () => Promise<T>
+): Promise<T> {
+  const entry = await lookup<T>(key);
+  if (entry) {
+    const age = Date.now() - entry.storedAt;
+    if (age < policy.ttl) return entry.value;
+    if (age < policy.ttl + policy.staleTtl) {
+      load(key, loader).catch((err) =>
+        console.error(`Background revalidation failed (${key}):`, err)
+      );
+      return entry.value;
+    }
+  }
+  return load(key, loader);
+}
@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { tmdbProvider, tvmazeProvider, type MetadataProvider } from "@/lib/metadata";
+import { DARK_ID, stubTVMaze } from "@/test/tvmaze";
+
+// TMDB runs on the recorded fixtures (tmdb-client reads this at import)
+vi.hoisted(() => {
+  process.env.METADATA_PROVIDER = "mock";
+});
+
+/**
+ * The behaviour pages and API routes rely on from any MetadataProvider, run
+ * against each implementation with Dark — in the TMDB fixtures and the
+ * TVMaze stub — as the known show.
+ */
+const providers: Array<{ provider: MetadataProvider; darkId: number }> = [
+  { provider: tmdbProvider,   darkId: 70523 },
+  { provider: tvmazeProvider, darkId: DARK_ID },
+];
+
+describe.each(providers)("$provider.name provider", ({ provider, darkId }) => {
+  beforeAll(() => stubTVMaze());
+  afterAll(() => vi.unstubAllGlobals());
+
+  it("searches by title", async () => {
+    const results = await provider.searchShows("dark");
+    expect(results.map((r) => r.show.id)).toContain(darkId);
+    for (const { show } of results) expect(show.name.toLowerCase()).toContain("dark");
+  });
+
+  it("pages search results, with nothing past the last page", async () => {
+    const first = await provider.searchShowsPage("dark", 1);
+    expect(first.page).toBe(1);
+    expect(first.totalPages).toBeGreaterThanOrEqual(1);
+    expect(first.results.length).toBeGreaterThan(0);
+
+    const past = await provider.searchShowsPage("dark", first.totalPages + 1);
+    expect(past.results).toEqual([]);
+  });
+
+  it("finds nothing for an unknown title", async () => {
+    expect(await provider.searchShows("zzzz no such show")).toEqual([]);
+  });
+
+  it("suggests shows matching the query", async () => {
+    const suggestions = await provider.searchSuggestions("dark");
+    expect(suggestions).toContainEqual({ type: "show", show: expect.objectContaining({ id: darkId }) });
+  });
+
+  it("fetches a show by ID", async () => {
+    const show = await provider.getShow(darkId);
+    expect(show).toMatchObject({ id: darkId, name: "Dark", status: "Ended" });
+    expect(show.provider).toBeUndefined();
+  });
+
+  it("rejects an unknown ID", async () => {
+    await expect(provider.getShow(999_999_999)).rejects.toThrow();
+  });
+
+  it("lists numbered episodes, with specials in season 0", async () => {
+    const episodes = await provider.getEpisodes(darkId);
+    const regular = episodes.filter((e) => e.season > 0);
+    expect(regular).toHaveLength(26);
+    expect(regular[0]).toMatchObject({ season: 1, number: 1 });
+    for (const episode of episodes) {
+      expect(episode.number).not.toBeNull();
+      expect(episode.season).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("summarises seasons for enrichment", async () => {
+    const meta = await provider.getShowSeasonMeta(darkId);
+    expect(meta).toMatchObject({
+      numberOfSeasons:      3,
+      releasedEpisodeCount: 26,
+      isRunning:            false,
+      nextEpisode:          null,
+      lastEpisode:          { seasonNumber: 3, episodeNumber: 8 },
+    });
+  });
+
+  it("returns watch providers as lists, empty when unknown", async () => {
+    const providers = await provider.getWatchProviders(darkId, "IN");
+    for (const list of [providers.flatrate, providers.rent, providers.buy]) {
+      expect(Array.isArray(list)).toBe(true);
+    }
+  });
+
+  it("lists popular shows", async () => {
+    const shows = await provider.getPopularShows();
+    expect(shows.length).toBeGreaterThan(0);
+  });
+
+  it("discovers shows a page at a time", async () => {
+    const result = await provider.discoverShows({ page: 1 });
+    expect(result.shows.length).toBeGreaterThan(0);
+    expect(result.totalPages).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMetadataProvider, isNotFoundError, tvmazeProvider } from "@/lib/metadata";
+import { resultParam } from "@/lib/show-ref";
+import { DARK_ID, stubTVMaze } from "@/test/tvmaze";
+
+// Real TMDB client with a key — the stubbed fetch rejects it, like an outage
+vi.hoisted(() => {
+  delete process.env.METADATA_PROVIDER;
+  process.env.TMDB_API_KEY = "test-key";
+});
+
+describe("TMDB → TVMaze fallback", () => {
+  beforeEach(() => {
+    stubTVMaze(() => new Response("Unauthorized", { status: 401, statusText: "Unauthorized" }));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const metadata = () => getMetadataProvider();
+
+  it("stays TMDB for ID-based calls", async () => {
+    expect(metadata().name).toBe("tmdb");
+    await expect(metadata().getShow(DARK_ID)).rejects.toThrow("401");
+  });
+
+  it("tags fallback search results with their provider", async () => {
+    const page = await metadata().searchShowsPage("dark", 1);
+    expect(page.results.map((r) => r.show)).toEqual([
+      expect.objectContaining({ id: DARK_ID, provider: "tvmaze" }),
+    ]);
+    expect(resultParam(page.results[0].show)).toBe(`tvmaze-${DARK_ID}`);
+  });
+
+  it("tags fallback catalogue lists", async () => {
+    const [popular, discovered] = await Promise.all([
+      metadata().getPopularShows(),
+      metadata().discoverShows({ page: 1 }),
+    ]);
+    for (const show of [...popular, ...discovered.shows]) {
+      expect(show.provider).toBe("tvmaze");
+    }
+  });
+
+  it("keeps fallback show suggestions, tagged, and drops people", async () => {
+    const suggestions = await metadata().searchSuggestions("dark");
+    expect(suggestions).toEqual([
+      { type: "show", show: expect.objectContaining({ id: DARK_ID, provider: "tvmaze" }) },
+    ]);
+  });
+});
+
+describe("isNotFoundError", () => {
+  beforeEach(() => stubTVMaze(() => new Response("Bad Gateway", { status: 502, statusText: "Bad Gateway" })));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("is true for a 404 from either provider", async () => {
+    await expect(tvmazeProvider.getShow(1)).rejects.toSatisfy(isNotFoundError);
+    stubTVMaze(() => new Response("Not Found", { status: 404, statusText: "Not Found" }));
+    await expect(getMetadataProvider().getShow(1)).rejects.toSatisfy(isNotFoundError);
+  });
+
+  it("is false for an outage", async () => {
+    await expect(getMetadataProvider().getShow(DARK_ID)).rejects.not.toSatisfy(isNotFoundError);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Metadata provider selection.
+ *
+ * Every page and API route fetches show data through getMetadataProvider()
+ * rather than importing tmdb.ts / tvmaze.ts directly.
+ *
+ * Methods taking an optional `locale` (TMDB language code, e.g. "hi-IN")
+ * return localized titles and overviews where the provider supports it;
+ * TVMaze is English-only and ignores it.
+ *
+ * Config (server-only env vars):
+ *   METADATA_PROVIDER  "tmdb" (default) | "tvmaze" | "mock"
+ *   TMDB_API_KEY       required for TMDB — without it TVMaze is used
+ *
+ * "mock" is TMDB served from recorded fixtures (tmdb-fixtures.ts) for
+ * offline development: no API key, no network, and no TVMaze fallback.
+ *
+ * When TMDB is selected, catalogue calls (search, popular, top rated,
+ * discover) fall back to TVMaze if TMDB throws. Fallback shows are tagged
+ * with `provider: "tvmaze"`, so they link to `/show/tvmaze-<id>` (resolved
+ * to the TMDB ID by the show page) and are looked up as TVMaze rows. People
+ * are dropped from fallback suggestions — person pages have no ID mapping.
+ * ID-based calls never fall back: show IDs are provider-specific, so a TMDB
+ * ID passed to TVMaze would resolve to an unrelated show.
+ */
+
+import * as tmdb from "@/lib/tmdb";
+import * as tvmaze from "@/lib/tvmaze";
+import { TMDBNotFoundError } from "@/lib/tmdb-client";
+import type {
+  TVMazeShow,
+  TVMazeEpisode,
+  TVMazeSearchResult,
+  SearchPage,
+  SearchSuggestion,
+  ShowSeasonMeta,
+  WatchProvider,
+  WatchProviders,
+  WatchRegion,
+  ShowBundle,
+  ShowCredits,
+  ShowExternalIds,
+  ShowProvider,
+  PersonDetail,
+  ShowVideo,
+  DiscoverOptions,
+  DiscoverResult,
+  DiscoverFacet,
+  DiscoverFacetType,
+} from "@/types";
+
+export type MetadataProviderName = ShowProvider;
+
+export interface MetadataProvider {
+  name: MetadataProviderName;
+  searchShows(query: string, locale?: string): Promise<TVMazeSearchResult[]>;
+  searchShowsPage(query: string, page: number, locale?: string): Promise<SearchPage>;
+  /** Typeahead suggestions mixing shows and people */
+  searchSuggestions(query: string, locale?: string): Promise<SearchSuggestion[]>;
+  getShow(id: number, locale?: string): Promise<TVMazeShow>;
+  getShowWithNextEpisode(id: number, locale?: string): Promise<TVMazeShow>;
+  getEpisodes(showId: number, locale?: string): Promise<TVMazeEpisode[]>;
+  getShowSeasonMeta(id: number): Promise<ShowSeasonMeta | null>;
+  getWatchProviders(showId: number, region?: string): Promise<WatchProviders>;
+  getRegionProviders(region?: string): Promise<WatchProvider[]>;
+  getWatchRegions(): Promise<WatchRegion[]>;
+  getShowBundle(id: number, region?: string, locale?: string): Promise<ShowBundle>;
+  getShowCredits(id: number): Promise<ShowCredits>;
+  getExternalIds(id: number): Promise<ShowExternalIds>;
+  getPerson(id: number): Promise<PersonDetail>;
+  /** "More like this" shows for the detail page, excluding the show itself */
+  getRelatedShows(id: number, limit?: number, locale?: string): Promise<TVMazeShow[]>;
+  getShowVideos(id: number, seasonNums?: number[]): Promise<ShowVideo[]>;
+  getPopularShows(locale?: string): Promise<TVMazeShow[]>;
+  getTopRatedShows(locale?: string): Promise<TVMazeShow[]>;
+  discoverShows(options: DiscoverOptions): Promise<DiscoverResult>;
+  discoverShowsByRating(
+    options: Omit<DiscoverOptions, "sortBy" | "voteCountMin">
+  ): Promise<DiscoverResult>;
+  /** Keyword / network autocomplete for the discover filters */
+  searchDiscoverFacets(type: DiscoverFacetType, query: string): Promise<DiscoverFacet[]>;
+  /** Names for keyword / network IDs, e.g. from a shared discover URL */
+  getDiscoverFacets(type: DiscoverFacetType, ids: number[]): Promise<DiscoverFacet[]>;
+}
+
+// ── Implementations ───────────────────────────────────────────────────────────
+
+export const tmdbProvider: MetadataProvider = {
+  name: "tmdb",
+  searchShows:            tmdb.searchShows,
+  searchShowsPage:        tmdb.searchShowsPage,
+  searchSuggestions:      tmdb.searchSuggestions,
+  getShow:                tmdb.getShow,
+  getShowWithNextEpisode: tmdb.getShowWithNextEpisode,
+  getEpisodes:            tmdb.getEpisodes,
+  getShowSeasonMeta:      tmdb.getShowSeasonMeta,
+  getWatchProviders:      tmdb.getWatchProviders,
+  getRegionProviders:     tmdb.getRegionProviders,
+  getWatchRegions:        tmdb.getWatchRegions,
+  getShowBundle:          tmdb.getShowBundle,
+  getShowCredits:         tmdb.getShowCredits,
+  getExternalIds:         tmdb.getExternalIds,
+  getPerson:              tmdb.getPerson,
+  getRelatedShows:        tmdb.getRelatedShows,
+  getShowVideos:          tmdb.getShowVideos,
+  getPopularShows:        tmdb.getPopularShows,
+  getTopRatedShows:       tmdb.getTopRatedShows,
+  discoverShows:          tmdb.discoverShows,
+  discoverShowsByRating:  tmdb.discoverShowsByRating,
+  searchDiscoverFacets:   tmdb.searchDiscoverFacets,
+  getDiscoverFacets:      tmdb.getDiscoverFacets,
+};
+
+export const tvmazeProvider: MetadataProvider = {
+  name: "tvmaze",
+  searchShows:            tvmaze.searchShows,
+  searchShowsPage:        tvmaze.searchShowsPage,
+  searchSuggestions:      tvmaze.searchSuggestions,
+  getShow:                tvmaze.getShow,
+  getShowWithNextEpisode: tvmaze.getShowWithNextEpisode,
+  getEpisodes:            tvmaze.getEpisodes,
+  getShowSeasonMeta:      tvmaze.getShowSeasonMeta,
+  getWatchProviders:      tvmaze.getWatchProviders,
+  getRegionProviders:     tvmaze.getRegionProviders,
+  getWatchRegions:        tvmaze.getWatchRegions,
+  getShowBundle:          tvmaze.getShowBundle,
+  getShowCredits:         tvmaze.getShowCredits,
+  getExternalIds:         tvmaze.getExternalIds,
+  getPerson:              tvmaze.getPerson,
+  getRelatedShows:        tvmaze.getRelatedShows,
+  getShowVideos:          tvmaze.getShowVideos,
+  getPopularShows:        tvmaze.getPopularShows,
+  getTopRatedShows:       tvmaze.getTopRatedShows,
+  discoverShows:          tvmaze.discoverShows,
+  discoverShowsByRating:  tvmaze.discoverShowsByRating,
+  searchDiscoverFacets:   tvmaze.searchDiscoverFacets,
+  getDiscoverFacets:      tvmaze.getDiscoverFacets,
+};
+
+// ── Fallback wrapper ──────────────────────────────────────────────────────────
+
+/**
+ * Run `call` on the primary provider, retrying on the fallback if it throws.
+ * `tag` marks the fallback's result as coming from another ID space.
+ */
+async function withFallback<T>(
+  primary: MetadataProvider,
+  fallback: MetadataProvider,
+  call: (p: MetadataProvider) => Promise<T>,
+  tag: (result: T) => T,
+  isUsable: (result: T) => boolean = () => true
+): Promise<T> {
+  try {
+    const result = await call(primary);
+    if (isUsable(result)) return result;
+  } catch (err) {
+    console.warn(`${primary.name} metadata call failed, falling back to ${fallback.name}:`, err);
+  }
+  return tag(await call(fallback));
+}
+
+function createFallbackProvider(
+  primary: MetadataProvider,
+  fallback: MetadataProvider
+): MetadataProvider {
+  // tmdb.getPopularShows swallows per-page errors, so an outage shows up as an
+  // empty list rather than a throw — a real popular/top-rated list is never empty.
+  const nonEmpty = (shows: TVMazeShow[]) => shows.length > 0;
+
+  const tagShows = (shows: TVMazeShow[]) =>
+    shows.map((show): TVMazeShow => ({ ...show, provider: fallback.name }));
+  const tagResults = (results: TVMazeSearchResult[]) =>
+    results.map((r) => ({ ...r, show: { ...r.show, provider: fallback.name } }));
+  const tagPage = (page: SearchPage) => ({ ...page, results: tagResults(page.results) });
+  const tagDiscover = (result: DiscoverResult) => ({ ...result, shows: tagShows(result.shows) });
+  const tagSuggestions = (suggestions: SearchSuggestion[]) =>
+    suggestions.flatMap((s): SearchSuggestion[] =>
+      s.type === "show" ? [{ type: "show", show: { ...s.show, provider: fallback.name } }] : []
+    );
+
+  return {
+    ...primary,
+    searchShows: (query, locale) =>
+      withFallback(primary, fallback, (p) => p.searchShows(query, locale), tagResults),
+    searchShowsPage: (query, page, locale) =>
+      withFallback(primary, fallback, (p) => p.searchShowsPage(query, page, locale), tagPage),
+    searchSuggestions: (query, locale) =>
+      withFallback(primary, fallback, (p) => p.searchSuggestions(query, locale), tagSuggestions),
+    getPopularShows: (locale) =>
+      withFallback(primary, fallback, (p) => p.getPopularShows(locale), tagShows, nonEmpty),
+    getTopRatedShows: (locale) =>
+      withFallback(primary, fallback, (p) => p.getTopRatedShows(locale), tagShows, nonEmpty),
+    discoverShows: (options) =>
+      withFallback(primary, fallback, (p) => p.discoverShows(options), tagDiscover),
+    discoverShowsByRating: (options) =>
+      withFallback(primary, fallback, (p) => p.discoverShowsByRating(options), tagDiscover),
+  };
+}
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+/** Whether `err` is a 404 from either provider, as opposed to an outage */
+export function isNotFoundError(err: unknown): boolean {
+  return err instanceof TMDBNotFoundError || err instanceof tvmaze.TVMazeNotFoundError;
+}
+
+// ── Selection (resolved once per server process) ──────────────────────────────
+
+let _provider: MetadataProvider | null = null;
+
+export function getMetadataProvider(): MetadataProvider {
+  if (_provider) return _provider;
+
+  const configured = process.env.METADATA_PROVIDER;
+
+  if (configured === "mock") {
+    // tmdb-client serves fixtures — TMDB mapping without key or network
+    _provider = tmdbProvider;
+  } else if (configured === "tvmaze") {
+    _provider = tvmazeProvider;
+  } else if (!process.env.TMDB_API_KEY) {
+    console.warn("TMDB_API_KEY is not set — using TVMaze for show metadata");
+    _provider = tvmazeProvider;
+  } else {
+    _provider = createFallbackProvider(tmdbProvider, tvmazeProvider);
+  }
+  return _provider;
+}
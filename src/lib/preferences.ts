@@ -0,0 +1,63 @@
+/**
+ * User Preferences — read/write helpers for the `user_preferences` table.
+ * Users without a row get DEFAULT_PREFERENCES; the row is created on first save.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/client";
+import { DEFAULT_LOCALE, DEFAULT_REGION } from "@/lib/locale";
+import type { UserPreferences } from "@/types";
+
+export type PreferenceSettings = Omit<UserPreferences, "user_id" | "updated_at">;
+
+export const DEFAULT_PREFERENCES: PreferenceSettings = {
+  include_specials: false,
+  locale:           DEFAULT_LOCALE,
+  region:           DEFAULT_REGION,
+  subscribed_providers: [],
+};
+
+/**
+ * Fetch preferences for a user (works with the server or browser client).
+ * Falls back to defaults when signed out, on error, or if no row exists yet.
+ */
+export async function getUserPreferences(
+  supabase: SupabaseClient,
+  userId: string | null | undefined
+): Promise<PreferenceSettings> {
+  if (!userId) return DEFAULT_PREFERENCES;
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch user preferences:", error);
+    return DEFAULT_PREFERENCES;
+  }
+  return { ...DEFAULT_PREFERENCES, ...(data as Partial<UserPreferences> | null) };
+}
+
+/** Save a partial preferences update for the signed-in user (browser client) */
+export async function updateUserPreferences(
+  patch: Partial<PreferenceSettings>
+): Promise<void> {
+  const supabase = createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not logged in");
+
+  const { error } = await supabase.from("user_preferences").upsert(
+    {
+      user_id: user.id,
+      ...patch,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+
+  if (error) throw error;
+}
@@ -0,0 +1,114 @@
+/**
+ * Saved Searches — Supabase helpers for the `saved_searches` table
+ * ("My presets" on /search and the dashboard).
+ * Uses the browser Supabase client by default; pass a client as the last
+ * argument to use another (the server client in pages, or
+ * lib/supabase/memory.ts).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/client";
+import type { SavedSearch } from "@/types";
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+async function getUser(supabase: SupabaseClient = createClient()) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not logged in");
+  return { supabase, user };
+}
+
+/** Results in `currentIds` that weren't there when the preset was last opened */
+export function countNewResults(preset: SavedSearch, currentIds: number[]): number {
+  const seen = new Set(preset.seen_ids);
+  return currentIds.filter((id) => !seen.has(id)).length;
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** The signed-in user's presets, oldest first (the order they were made in) */
+export async function listSavedSearches(client?: SupabaseClient): Promise<SavedSearch[]> {
+  const { supabase, user } = await getUser(client);
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Failed to fetch saved searches:", error);
+    return [];
+  }
+  return (data ?? []) as SavedSearch[];
+}
+
+/** Save filters under a new name — `seenIds` are the results on screen now */
+export async function createSavedSearch(
+  name: string,
+  params: string,
+  seenIds: number[],
+  client?: SupabaseClient
+): Promise<SavedSearch> {
+  const { supabase, user } = await getUser(client);
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({
+      user_id: user.id,
+      name: name.trim(),
+      params,
+      seen_ids: seenIds,
+      last_viewed_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error?.code === "23505") throw new Error(`You already have a preset called "${name.trim()}"`);
+  if (error) throw error;
+  return data as SavedSearch;
+}
+
+export async function renameSavedSearch(id: string, name: string, client?: SupabaseClient): Promise<void> {
+  const { supabase, user } = await getUser(client);
+
+  const { error } = await supabase
+    .from("saved_searches")
+    .update({ name: name.trim() })
+    .eq("user_id", user.id)
+    .eq("id", id);
+
+  if (error?.code === "23505") throw new Error(`You already have a preset called "${name.trim()}"`);
+  if (error) throw error;
+}
+
+export async function deleteSavedSearch(id: string, client?: SupabaseClient): Promise<void> {
+  const { supabase, user } = await getUser(client);
+
+  const { error } = await supabase
+    .from("saved_searches")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+/** Record the results seen on opening a preset — the baseline for new-result counts */
+export async function markSavedSearchSeen(
+  id: string,
+  seenIds: number[],
+  client?: SupabaseClient
+): Promise<void> {
+  const { supabase, user } = await getUser(client);
+
+  const { error } = await supabase
+    .from("saved_searches")
+    .update({ seen_ids: seenIds, last_viewed_at: new Date().toISOString() })
+    .eq("user_id", user.id)
+    .eq("id", id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,109 @@
+/**
+ * Search History — Supabase helpers for the `search_history` table.
+ * Uses the browser Supabase client by default; pass a client as the last
+ * argument to use another (e.g. lib/supabase/memory.ts).
+ *
+ * One row per distinct query: searching again bumps `searched_at` instead of
+ * adding a duplicate, and only the newest MAX_HISTORY queries are kept.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/client";
+import type { RecentSearch } from "@/types";
+
+/** Queries kept per user — older ones are trimmed on each save */
+const MAX_HISTORY = 20;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Collapse whitespace so "the  office " and "the office" are one entry */
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ");
+}
+
+async function getUser(supabase: SupabaseClient = createClient()) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not logged in");
+  return { supabase, user };
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** The signed-in user's recent queries, newest first */
+export async function getRecentSearches(
+  limit = 8,
+  client?: SupabaseClient
+): Promise<RecentSearch[]> {
+  const { supabase, user } = await getUser(client);
+
+  const { data, error } = await supabase
+    .from("search_history")
+    .select("query, searched_at")
+    .eq("user_id", user.id)
+    .order("searched_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Failed to fetch search history:", error);
+    return [];
+  }
+  return (data ?? []) as RecentSearch[];
+}
+
+/** Save a query (or move it to the top), then trim the history to MAX_HISTORY */
+export async function recordSearch(query: string, client?: SupabaseClient): Promise<void> {
+  const normalized = normalizeQuery(query);
+  if (!normalized) return;
+  const { supabase, user } = await getUser(client);
+
+  const { error } = await supabase.from("search_history").upsert(
+    {
+      user_id: user.id,
+      query: normalized,
+      searched_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,query" }
+  );
+  if (error) throw error;
+
+  const { data: stale } = await supabase
+    .from("search_history")
+    .select("id")
+    .eq("user_id", user.id)
+    .order("searched_at", { ascending: false })
+    .range(MAX_HISTORY, MAX_HISTORY + 49);
+
+  if (stale && stale.length > 0) {
+    await supabase
+      .from("search_history")
+      .delete()
+      .in("id", stale.map((row) => row.id));
+  }
+}
+
+/** Remove one query from the history */
+export async function removeRecentSearch(query: string, client?: SupabaseClient): Promise<void> {
+  const { supabase, user } = await getUser(client);
+
+  const { error } = await supabase
+    .from("search_history")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("query", normalizeQuery(query));
+
+  if (error) throw error;
+}
+
+/** Remove every query from the history */
+export async function clearSearchHistory(client?: SupabaseClient): Promise<void> {
+  const { supabase, user } = await getUser(client);
+
+  const { error } = await supabase
+    .from("search_history")
+    .delete()
+    .eq("user_id", user.id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,156 @@
+/**
+ * Cross-database show IDs: TMDB ⇄ TVMaze / TVDB / IMDb.
+ *
+ * Shows are identified by TMDB ID throughout the app. This module resolves
+ * the other IDs (for external links) and maps IDs from other databases back
+ * to TMDB (for importers and scrobblers), persisting each mapping in the
+ * `show_id_map` table. Persistence needs SUPABASE_SERVICE_ROLE_KEY; without
+ * it mappings are resolved on every call (still cached per endpoint).
+ */
+
+import * as tmdb from "@/lib/tmdb";
+import * as tvmaze from "@/lib/tvmaze";
+import { createServiceClient } from "@/lib/supabase/service";
+import type { ShowRef } from "@/lib/show-ref";
+import type { ShowExternalIds, ShowIdMapping, ShowProvider } from "@/types";
+
+export type ShowIdSource = "tmdb" | "tvmaze" | "tvdb" | "imdb";
+
+/** Re-resolve stored mappings after this long — IDs occasionally get merged */
+const MAPPING_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// ── Table rows ────────────────────────────────────────────────────────────────
+
+interface ShowIdMapRow {
+  tmdb_id: number;
+  tvmaze_id: number | null;
+  tvdb_id: number | null;
+  imdb_id: string | null;
+  tvrage_id: number | null;
+  wikidata_id: string | null;
+  updated_at: string;
+}
+
+const SOURCE_COLUMNS: Record<ShowIdSource, keyof ShowIdMapRow> = {
+  tmdb:   "tmdb_id",
+  tvmaze: "tvmaze_id",
+  tvdb:   "tvdb_id",
+  imdb:   "imdb_id",
+};
+
+function toMapping(row: ShowIdMapRow): ShowIdMapping {
+  return {
+    tmdb:     row.tmdb_id,
+    tvmaze:   row.tvmaze_id,
+    tvdb:     row.tvdb_id,
+    imdb:     row.imdb_id,
+    tvrage:   row.tvrage_id,
+    wikidata: row.wikidata_id,
+  };
+}
+
+async function readMapping(source: ShowIdSource, id: string | number): Promise<ShowIdMapRow | null> {
+  const supabase = createServiceClient();
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from("show_id_map")
+    .select("*")
+    .eq(SOURCE_COLUMNS[source], id)
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error("Failed to read show ID mapping:", error);
+    return null;
+  }
+  return data as ShowIdMapRow | null;
+}
+
+async function writeMapping(mapping: ShowIdMapping & { tmdb: number }): Promise<void> {
+  const supabase = createServiceClient();
+  if (!supabase) return;
+  const { error } = await supabase.from("show_id_map").upsert({
+    tmdb_id:     mapping.tmdb,
+    tvmaze_id:   mapping.tvmaze,
+    tvdb_id:     mapping.tvdb,
+    imdb_id:     mapping.imdb,
+    tvrage_id:   mapping.tvrage,
+    wikidata_id: mapping.wikidata,
+    updated_at:  new Date().toISOString(),
+  });
+  if (error) console.error("Failed to write show ID mapping:", error);
+}
+
+function isFresh(row: ShowIdMapRow): boolean {
+  return Date.now() - new Date(row.updated_at).getTime() < MAPPING_TTL_MS;
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * All known IDs for a TMDB show. Pass `known` external IDs (e.g. from
+ * getShowBundle) to skip the TMDB external_ids request.
+ */
+export async function getShowIdMapping(
+  tmdbId: number,
+  known?: ShowExternalIds
+): Promise<ShowIdMapping> {
+  const stored = await readMapping("tmdb", tmdbId);
+  if (stored && isFresh(stored)) return toMapping(stored);
+
+  const externalIds = known ?? (await tmdb.getExternalIds(tmdbId));
+  const mapping = {
+    tmdb: tmdbId,
+    tvmaze: await tvmaze.lookupShowId(externalIds),
+    ...externalIds,
+  };
+  // Fire-and-forget — the mapping is already usable
+  writeMapping(mapping);
+  return mapping;
+}
+
+/**
+ * Resolve a show ID from any supported database to a TMDB ID, or null when
+ * the show can't be matched.
+ */
+export async function resolveTmdbId(
+  source: ShowIdSource,
+  id: string | number
+): Promise<number | null> {
+  if (source === "tmdb") {
+    const tmdbId = Number(id);
+    return Number.isInteger(tmdbId) ? tmdbId : null;
+  }
+
+  const stored = await readMapping(source, id);
+  if (stored) return stored.tmdb_id;
+
+  let tmdbId: number | null;
+  if (source === "tvmaze") {
+    // TVMaze knows its shows' TVDB / IMDb IDs, which TMDB can look up
+    const externalIds = await tvmaze.getExternalIds(Number(id)).catch(() => null);
+    tmdbId =
+      (externalIds?.tvdb ? await tmdb.findShowByExternalId("tvdb", externalIds.tvdb) : null) ??
+      (externalIds?.imdb ? await tmdb.findShowByExternalId("imdb", externalIds.imdb) : null);
+  } else {
+    tmdbId = await tmdb.findShowByExternalId(source, id);
+  }
+
+  // Record the full mapping so the next lookup by any ID hits the table
+  if (tmdbId !== null) await getShowIdMapping(tmdbId).catch(() => undefined);
+  return tmdbId;
+}
+
+/**
+ * Translate a stored show reference into the given provider's ID space, or
+ * null when the show can't be matched. Backs qualified `/show/[id]` URLs and
+ * rows saved under a provider other than the active one.
+ */
+export async function resolveShowRef(
+  ref: ShowRef,
+  target: ShowProvider
+): Promise<number | null> {
+  if (ref.provider === target) return ref.id;
+  if (target === "tmdb") return resolveTmdbId(ref.provider, ref.id);
+  const mapping = await getShowIdMapping(ref.id).catch(() => null);
+  return mapping?.tvmaze ?? null;
+}
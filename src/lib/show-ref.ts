@@ -0,0 +1,56 @@
+/**
+ * Provider-qualified show references.
+ *
+ * `user_shows` and `watch_progress` rows identify a show by
+ * `(provider, external_id)` — the metadata provider whose ID space
+ * `external_id` belongs to. Show URLs use the bare ID for the active
+ * provider (`/show/1399`) and a qualified ID for any other
+ * (`/show/tvmaze-82`); the show page resolves and redirects the latter.
+ *
+ * Safe to import from client components.
+ */
+
+import type { ShowProvider } from "@/types";
+
+export interface ShowRef {
+  provider: ShowProvider;
+  id: number;
+}
+
+const PROVIDERS: ShowProvider[] = ["tmdb", "tvmaze"];
+
+/** Row columns for a show — spread into inserts, or pass to `.match()` */
+export function showRefColumns(ref: ShowRef): { provider: ShowProvider; external_id: number } {
+  return { provider: ref.provider, external_id: ref.id };
+}
+
+/**
+ * Parse a `/show/[id]` segment. `provider` is null for a bare ID, which
+ * belongs to whichever provider is active.
+ */
+export function parseShowParam(
+  param: string
+): { provider: ShowProvider | null; id: number } | null {
+  const match = /^(?:([a-z]+)-)?(\d+)$/.exec(param);
+  if (!match) return null;
+  const [, prefix, id] = match;
+  if (prefix === undefined) return { provider: null, id: Number(id) };
+  const provider = PROVIDERS.find((p) => p === prefix);
+  return provider ? { provider, id: Number(id) } : null;
+}
+
+/**
+ * `/show/[id]` segment for a catalogue result: the bare ID, or a qualified
+ * one when a fallback provider served it. Also keys per-result maps, so
+ * IDs from different providers never collide.
+ */
+export function resultParam(show: { id: number; provider?: ShowProvider }): string {
+  return show.provider ? `${show.provider}-${show.id}` : String(show.id);
+}
+
+/** Link to a show's detail page, qualified unless it's from the active provider */
+export function showPath(ref: ShowRef, activeProvider: ShowProvider): string {
+  return ref.provider === activeProvider
+    ? `/show/${ref.id}`
+    : `/show/${ref.provider}-${ref.id}`;
+}
@@ -0,0 +1,302 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * In-memory stand-in for the Supabase client, for tests and offline
+ * scripts that exercise watch-progress.ts / enrich-shows.ts without a
+ * database. Pair with METADATA_PROVIDER=mock for fully offline runs.
+ *
+ * Implements the subset of supabase-js the app uses: from().select / insert
+ * / upsert / update / delete with eq, in, match, order, range, limit,
+ * single and maybeSingle, plus auth.getUser(). Tables mirror
+ * supabase/schema.sql, including unique keys (upsert onConflict, 23505 on
+ * duplicate inserts) and RLS-like scoping: a client only sees and writes
+ * rows whose user_id is its signed-in user.
+ *
+ *   const db = createMemoryDatabase();
+ *   const alice = createMemoryClient(db, "alice");
+ *   const bob = createMemoryClient(db, "bob");   // can't see alice's rows
+ */
+
+type Row = Record<string, unknown>;
+
+interface TableDef {
+  /** Unique keys — the first is used when upsert has no onConflict */
+  unique: string[][];
+  defaults: () => Row;
+  /** Column RLS policies compare with auth.uid() */
+  owner: string;
+}
+
+const now = () => new Date().toISOString();
+
+const TABLES: Record<string, TableDef> = {
+  user_shows: {
+    unique:   [["user_id", "provider", "external_id"], ["id"]],
+    defaults: () => ({ id: crypto.randomUUID(), provider: "tmdb", status: "plan_to_watch", created_at: now() }),
+    owner:    "user_id",
+  },
+  watch_progress: {
+    unique:   [["user_id", "provider", "external_id", "season", "episode"], ["id"]],
+    defaults: () => ({ id: crypto.randomUUID(), provider: "tmdb", watched_at: now() }),
+    owner:    "user_id",
+  },
+  user_preferences: {
+    unique:   [["user_id"]],
+    defaults: () => ({
+      include_specials: false,
+      locale: "en-US",
+      region: "IN",
+      subscribed_providers: [],
+      updated_at: now(),
+    }),
+    owner:    "user_id",
+  },
+  search_history: {
+    unique:   [["user_id", "query"], ["id"]],
+    defaults: () => ({ id: crypto.randomUUID(), searched_at: now() }),
+    owner:    "user_id",
+  },
+  saved_searches: {
+    unique:   [["user_id", "name"], ["id"]],
+    defaults: () => ({ id: crypto.randomUUID(), seen_ids: [], last_viewed_at: now(), created_at: now() }),
+    owner:    "user_id",
+  },
+};
+
+export interface MemoryDatabase {
+  tables: Map<string, Row[]>;
+}
+
+/** A shared store — create one per test, and one client per simulated user */
+export function createMemoryDatabase(seed: Record<string, object[]> = {}): MemoryDatabase {
+  const tables = new Map<string, Row[]>();
+  for (const [name, def] of Object.entries(TABLES)) {
+    tables.set(name, (seed[name] ?? []).map((row) => ({ ...def.defaults(), ...row })));
+  }
+  return { tables };
+}
+
+// ── Errors (PostgREST-shaped) ─────────────────────────────────────────────────
+
+interface MemoryError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+function pgError(code: string, message: string): MemoryError {
+  return { message, code, details: null, hint: null };
+}
+
+// ── Query builder ─────────────────────────────────────────────────────────────
+
+type Operation =
+  | { kind: "select" }
+  | { kind: "insert"; rows: Row[] }
+  | { kind: "upsert"; rows: Row[]; onConflict: string[] | null }
+  | { kind: "update"; patch: Row }
+  | { kind: "delete" };
+
+interface QueryResult {
+  data: unknown;
+  error: MemoryError | null;
+  count: number | null;
+}
+
+function sameKey(a: Row, b: Row, columns: string[]): boolean {
+  return columns.every((c) => a[c] === b[c]);
+}
+
+function project(row: Row, columns: string[] | null): Row {
+  if (!columns) return { ...row };
+  return Object.fromEntries(columns.map((c) => [c, row[c]]));
+}
+
+function createQuery(db: MemoryDatabase, table: string, userId: string | null) {
+  const def = TABLES[table];
+  const filters: Array<(row: Row) => boolean> = [];
+  let operation: Operation = { kind: "select" };
+  let columns: string[] | null = null;
+  let returning = false;
+  let wantCount = false;
+  let order: { column: string; ascending: boolean } | null = null;
+  let slice: { from: number; to: number } | null = null;
+  let cardinality: "many" | "single" | "maybeSingle" = "many";
+
+  /** RLS: rows outside the signed-in user's scope don't exist */
+  const visible = (row: Row) => userId !== null && row[def.owner] === userId;
+
+  function write(rows: Row[], onConflict: string[] | null, upsert: boolean): Row[] | MemoryError {
+    const stored = db.tables.get(table)!;
+    const written: Row[] = [];
+    for (const input of rows) {
+      if (userId === null || input[def.owner] !== userId) {
+        return pgError("42501", `new row violates row-level security policy for table "${table}"`);
+      }
+      const key = onConflict ?? def.unique[0];
+      const existing = stored.find((r) => sameKey(r, input, key));
+      if (existing && upsert) {
+        Object.assign(existing, input);
+        written.push(existing);
+        continue;
+      }
+      const row = { ...def.defaults(), ...input };
+      const clash = def.unique.find((k) => stored.some((r) => sameKey(r, row, k)));
+      if (clash) {
+        return pgError("23505", `duplicate key value violates unique constraint on (${clash.join(", ")})`);
+      }
+      stored.push(row);
+      written.push(row);
+    }
+    return written;
+  }
+
+  function run(): QueryResult {
+    if (!def) return { data: null, error: pgError("42P01", `relation "${table}" does not exist`), count: null };
+    const stored = db.tables.get(table)!;
+    const matches = () => stored.filter((r) => visible(r) && filters.every((f) => f(r)));
+
+    let rows: Row[];
+    switch (operation.kind) {
+      case "select":
+        rows = matches();
+        break;
+      case "insert":
+      case "upsert": {
+        const result = write(
+          operation.rows,
+          operation.kind === "upsert" ? operation.onConflict : null,
+          operation.kind === "upsert"
+        );
+        if (!Array.isArray(result)) return { data: null, error: result, count: null };
+        rows = result;
+        break;
+      }
+      case "update": {
+        rows = matches();
+        for (const row of rows) Object.assign(row, operation.patch);
+        break;
+      }
+      case "delete": {
+        rows = matches();
+        db.tables.set(table, stored.filter((r) => !rows.includes(r)));
+        break;
+      }
+    }
+
+    const count = wantCount ? rows.length : null;
+    if (operation.kind !== "select" && !returning) return { data: null, error: null, count };
+
+    if (order) {
+      const { column, ascending } = order;
+      rows = rows.slice().sort((a, b) => {
+        const x = a[column] as string | number;
+        const y = b[column] as string | number;
+        return (x < y ? -1 : x > y ? 1 : 0) * (ascending ? 1 : -1);
+      });
+    }
+    if (slice) rows = rows.slice(slice.from, slice.to + 1);
+    const data = rows.map((r) => project(r, columns));
+
+    if (cardinality === "many") return { data, error: null, count };
+    if (data.length > 1) {
+      return { data: null, error: pgError("PGRST116", "Multiple rows returned"), count };
+    }
+    if (data.length === 0 && cardinality === "single") {
+      return { data: null, error: pgError("PGRST116", "No rows returned"), count };
+    }
+    return { data: data[0] ?? null, error: null, count };
+  }
+
+  const builder = {
+    select(cols = "*", options?: { count?: string }) {
+      if (operation.kind === "select") {
+        wantCount = !!options?.count;
+      } else {
+        returning = true;
+      }
+      columns = cols.trim() === "*" ? null : cols.split(",").map((c) => c.trim());
+      return builder;
+    },
+    insert(values: Row | Row[]) {
+      operation = { kind: "insert", rows: Array.isArray(values) ? values : [values] };
+      return builder;
+    },
+    upsert(values: Row | Row[], options?: { onConflict?: string }) {
+      operation = {
+        kind: "upsert",
+        rows: Array.isArray(values) ? values : [values],
+        onConflict: options?.onConflict ? options.onConflict.split(",").map((c) => c.trim()) : null,
+      };
+      return builder;
+    },
+    update(patch: Row, options?: { count?: string }) {
+      operation = { kind: "update", patch };
+      wantCount = !!options?.count;
+      return builder;
+    },
+    delete(options?: { count?: string }) {
+      operation = { kind: "delete" };
+      wantCount = !!options?.count;
+      return builder;
+    },
+    eq(column: string, value: unknown) {
+      filters.push((r) => r[column] === value);
+      return builder;
+    },
+    in(column: string, values: unknown[]) {
+      filters.push((r) => values.includes(r[column]));
+      return builder;
+    },
+    match(query: Row) {
+      for (const [column, value] of Object.entries(query)) builder.eq(column, value);
+      return builder;
+    },
+    order(column: string, options?: { ascending?: boolean }) {
+      order = { column, ascending: options?.ascending ?? true };
+      return builder;
+    },
+    range(from: number, to: number) {
+      slice = { from, to };
+      return builder;
+    },
+    limit(n: number) {
+      slice = { from: slice?.from ?? 0, to: (slice?.from ?? 0) + n - 1 };
+      return builder;
+    },
+    single() {
+      cardinality = "single";
+      return builder;
+    },
+    maybeSingle() {
+      cardinality = "maybeSingle";
+      return builder;
+    },
+    // Awaiting the builder runs the query, like supabase-js
+    then<T1 = QueryResult, T2 = never>(
+      onFulfilled?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+      onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+    ): Promise<T1 | T2> {
+      return Promise.resolve().then(run).then(onFulfilled, onRejected);
+    },
+  };
+  return builder;
+}
+
+// ── Client ────────────────────────────────────────────────────────────────────
+
+/**
+ * A client signed in as `userId` (null = signed out). Cast to SupabaseClient
+ * so it drops into any function that takes one.
+ */
+export function createMemoryClient(db: MemoryDatabase, userId: string | null): SupabaseClient {
+  const user = userId ? { id: userId, aud: "authenticated", app_metadata: {}, user_metadata: {} } : null;
+  const client = {
+    from: (table: string) => createQuery(db, table, userId),
+    auth: {
+      getUser: async () => ({ data: { user }, error: null }),
+    },
+  };
+  return client as unknown as SupabaseClient;
+}
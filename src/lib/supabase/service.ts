@@ -0,0 +1,18 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let _client: SupabaseClient | null | undefined;
+
+/**
+ * Service-role client for server-only tables that have no write policies
+ * (metadata_cache, show_id_map). Returns null when SUPABASE_SERVICE_ROLE_KEY
+ * is not set, so callers must treat persistence as optional.
+ */
+export function createServiceClient(): SupabaseClient | null {
+  if (_client !== undefined) return _client;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  _client = url && serviceKey
+    ? createClient(url, serviceKey, { auth: { persistSession: false } })
+    : null;
+  return _client;
+}
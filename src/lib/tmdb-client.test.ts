@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TMDBError, TMDBNotFoundError, TMDBTimeoutError, tmdbRequest } from "@/lib/tmdb-client";
+
+// Real client, tightened so the scheduler's limits are quick to hit
+vi.hoisted(() => {
+  delete process.env.METADATA_PROVIDER;
+  process.env.TMDB_API_KEY         = "test-key";
+  process.env.TMDB_MAX_CONCURRENCY = "2";
+  process.env.TMDB_MAX_RETRIES     = "1";
+  process.env.TMDB_TIMEOUT_MS      = "50";
+});
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("tmdbRequest", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("never has more than TMDB_MAX_CONCURRENCY requests in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    vi.stubGlobal("fetch", async (url: string) => {
+      peak = Math.max(peak, ++inFlight);
+      await tick();
+      inFlight--;
+      return Response.json({ url });
+    });
+
+    const endpoints = Array.from({ length: 8 }, (_, i) => `/tv/${i}`);
+    const results = await Promise.all(endpoints.map((e) => tmdbRequest<{ url: string }>(e)));
+
+    expect(results.map((r) => r.url)).toEqual(endpoints.map((e) => `https://api.themoviedb.org/3${e}`));
+    expect(peak).toBe(2);
+  });
+
+  it("times out a response whose body never finishes", async () => {
+    vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+      const body = new ReadableStream({
+        start(controller) {
+          init.signal?.addEventListener("abort", () => controller.error(init.signal?.reason));
+        },
+      });
+      return new Response(body, { status: 200 });
+    });
+
+    await expect(tmdbRequest("/tv/1")).rejects.toBeInstanceOf(TMDBTimeoutError);
+  });
+
+  it("fails a malformed body without retrying", async () => {
+    const fetch = vi.fn(async () => new Response("{ not json", { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+
+    const error = await tmdbRequest("/tv/1").catch((err) => err);
+    expect(error).toBeInstanceOf(TMDBError);
+    expect(error).toMatchObject({ retryable: false });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels the body of an error response", async () => {
+    const cancel = vi.fn();
+    vi.stubGlobal("fetch", async () =>
+      new Response(new ReadableStream({ cancel }), { status: 404, statusText: "Not Found" })
+    );
+
+    await expect(tmdbRequest("/tv/1")).rejects.toBeInstanceOf(TMDBNotFoundError);
+    expect(cancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Low-level TMDB HTTP client.
+ *
+ * Every request goes through a shared scheduler that:
+ *   - caps concurrent requests (TMDB_MAX_CONCURRENCY, default 8)
+ *   - retries 429 / 5xx / network errors with exponential backoff + full jitter
+ *   - honours Retry-After on 429 by pausing ALL queued requests, not just one
+ *   - aborts each attempt after TMDB_TIMEOUT_MS (default 8000)
+ *
+ * Failures are thrown as TMDBError subclasses so callers can tell a missing
+ * show (404) from an outage.
+ *
+ * With METADATA_PROVIDER=mock, requests are served from recorded fixtures
+ * instead (tmdb-fixtures.ts) — no API key or network needed.
+ */
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+export class TMDBError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, or null when no response was received */
+    readonly status: number | null,
+    readonly endpoint: string,
+    /** Whether the scheduler may retry the request */
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "TMDBError";
+  }
+}
+
+export class TMDBNotFoundError extends TMDBError {
+  constructor(endpoint: string) {
+    super(`TMDB resource not found (${endpoint})`, 404, endpoint, false);
+    this.name = "TMDBNotFoundError";
+  }
+}
+
+export class TMDBRateLimitError extends TMDBError {
+  constructor(endpoint: string, readonly retryAfterMs: number | null) {
+    super(`TMDB rate limit exceeded (${endpoint})`, 429, endpoint, true);
+    this.name = "TMDBRateLimitError";
+  }
+}
+
+export class TMDBTimeoutError extends TMDBError {
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`TMDB request timed out after ${timeoutMs}ms (${endpoint})`, null, endpoint, true);
+    this.name = "TMDBTimeoutError";
+  }
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const BASE = "https://api.themoviedb.org/3";
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const MAX_CONCURRENCY = envInt("TMDB_MAX_CONCURRENCY", 8);
+const MAX_RETRIES     = envInt("TMDB_MAX_RETRIES", 3);
+const TIMEOUT_MS      = envInt("TMDB_TIMEOUT_MS", 8000);
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS  = 10_000;
+const USE_FIXTURES    = process.env.METADATA_PROVIDER === "mock";
+
+function authHeaders(endpoint: string) {
+  const key = process.env.TMDB_API_KEY;
+  if (!key) throw new TMDBError("TMDB_API_KEY is not set", null, endpoint, false);
+  // Accept the token with or without the "Bearer " prefix in the env var
+  const value = key.startsWith("Bearer ") ? key : `Bearer ${key}`;
+  return { Authorization: value };
+}
+
+// ── Scheduler ─────────────────────────────────────────────────────────────────
+
+let active = 0;
+const waiting: Array<() => void> = [];
+/** Epoch ms until which no request may start (set from Retry-After) */
+let pausedUntil = 0;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function acquireSlot(): Promise<void> {
+  if (active < MAX_CONCURRENCY) {
+    active++;
+  } else {
+    // releaseSlot hands its slot straight over, so `active` never dips
+    // below the cap for a newcomer to jump the queue
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+  // Respect a global rate-limit pause even if a slot is free
+  const pause = pausedUntil - Date.now();
+  if (pause > 0) await sleep(pause);
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) next();
+  else active--;
+}
+
+/** Parse Retry-After as either delta-seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with full jitter */
+function backoffDelay(attempt: number): number {
+  const cap = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.random() * cap;
+}
+
+async function attemptRequest<T>(endpoint: string): Promise<T> {
+  const headers = authHeaders(endpoint);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+  let res: Response;
+  let body = "";
+  try {
+    res = await fetch(`${BASE}${endpoint}`, {
+      headers,
+      signal: controller.signal,
+      // Caching is handled by metadata-cache.ts — bypass the Next.js data cache
+      cache: "no-store",
+    });
+    // The body arrives after the headers — keep the timeout until it's read.
+    // Error bodies go unused; cancel them so the connection is released.
+    if (res.ok) body = await res.text();
+    else await res.body?.cancel();
+  } catch (err) {
+    if (controller.signal.aborted) throw new TMDBTimeoutError(endpoint, TIMEOUT_MS);
+    throw new TMDBError(
+      `TMDB network error: ${err instanceof Error ? err.message : String(err)} (${endpoint})`,
+      null,
+      endpoint,
+      true
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (res.ok) {
+    try {
+      return JSON.parse(body) as T;
+    } catch {
+      // The same body would come back on a retry
+      throw new TMDBError(`TMDB returned invalid JSON (${endpoint})`, res.status, endpoint, false);
+    }
+  }
+  if (res.status === 404) throw new TMDBNotFoundError(endpoint);
+  if (res.status === 429) {
+    throw new TMDBRateLimitError(endpoint, parseRetryAfter(res.headers.get("Retry-After")));
+  }
+  throw new TMDBError(
+    `TMDB API error: ${res.status} ${res.statusText} (${endpoint})`,
+    res.status,
+    endpoint,
+    res.status >= 500
+  );
+}
+
+/** Fetch a TMDB endpoint through the shared scheduler (uncached) */
+export async function tmdbRequest<T>(endpoint: string): Promise<T> {
+  if (USE_FIXTURES) {
+    // Loaded lazily so the fixture reader never ships with the real client path
+    const { fixtureRequest } = await import("@/lib/tmdb-fixtures");
+    return fixtureRequest<T>(endpoint);
+  }
+  for (let attempt = 0; ; attempt++) {
+    let error: unknown;
+    await acquireSlot();
+    try {
+      return await attemptRequest<T>(endpoint);
+    } catch (err) {
+      error = err;
+    } finally {
+      // Release before backing off so other requests can use the slot
+      releaseSlot();
+    }
+
+    if (!(error instanceof TMDBError) || !error.retryable || attempt >= MAX_RETRIES) {
+      throw error;
+    }
+
+    const delay =
+      error instanceof TMDBRateLimitError && error.retryAfterMs !== null
+        ? error.retryAfterMs
+        : backoffDelay(attempt);
+    if (error instanceof TMDBRateLimitError) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+    }
+    await sleep(delay);
+  }
+}
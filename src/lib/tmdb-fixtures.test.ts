@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { getMetadataProvider, tmdbProvider } from "@/lib/metadata";
+import { tmdbRequest, TMDBNotFoundError } from "@/lib/tmdb-client";
+
+// tmdb-client reads this at import
+vi.hoisted(() => {
+  process.env.METADATA_PROVIDER = "mock";
+});
+
+describe("METADATA_PROVIDER=mock", () => {
+  const metadata = getMetadataProvider();
+
+  it("is TMDB, without the TVMaze fallback", () => {
+    expect(metadata.name).toBe("tmdb");
+    expect(metadata.searchShows).toBe(tmdbProvider.searchShows);
+  });
+
+  it("answers each recorded search with its own results", async () => {
+    const names = async (query: string) =>
+      (await metadata.searchShows(query)).map((r) => r.show.name);
+    expect(await names("Dark")).toEqual(["Dark"]);
+    expect(await names("Fleabag")).toEqual(["Fleabag"]);
+    expect(await names("  severance ")).toEqual(["Severance"]);
+  });
+
+  it("finds nothing for an unrecorded query", async () => {
+    const page = await metadata.searchShowsPage("breaking bad", 1);
+    expect(page.results).toEqual([]);
+    expect(page.totalPages).toBe(0);
+  });
+
+  it("serves typeahead from the same recordings", async () => {
+    const suggestions = await metadata.searchSuggestions("chernobyl");
+    expect(suggestions).toEqual([
+      { type: "show", show: expect.objectContaining({ id: 87108, name: "Chernobyl" }) },
+    ]);
+  });
+
+  it("filters discover by genre", async () => {
+    const { shows } = await metadata.discoverShows({ genreIds: [35] });
+    expect(shows.map((s) => s.name)).toEqual(["Fleabag"]);
+  });
+
+  it("applies discover count bounds from show details", async () => {
+    const { shows } = await metadata.discoverShows({ seasonsMin: 3 });
+    expect(shows).toEqual([expect.objectContaining({ name: "Dark", seasonCount: 3, episodeCount: 26 })]);
+  });
+
+  it("fills in episode counts for the time-to-finish estimate without count bounds", async () => {
+    const { shows } = await metadata.discoverShows({});
+    expect(shows.length).toBeGreaterThan(1);
+    expect(shows.find((s) => s.name === "Dark")).toEqual(
+      expect.objectContaining({ episodeCount: 26, seasonCount: 3 })
+    );
+  });
+
+  it("bundles a show with its seasons appended", async () => {
+    const bundle = await metadata.getShowBundle(70523);
+    expect(bundle.show.name).toBe("Dark");
+    expect(bundle.episodes.map((e) => e.season)).toEqual([
+      ...Array(10).fill(1),
+      ...Array(8).fill(2),
+      ...Array(8).fill(3),
+    ]);
+    expect(bundle.externalIds.imdb).toBe("tt5753856");
+  });
+
+  it("404s unrecorded shows", async () => {
+    await expect(tmdbRequest("/tv/1")).rejects.toBeInstanceOf(TMDBNotFoundError);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Offline TMDB stand-in — serves recorded JSON from fixtures/tmdb/ in place
+ * of the API when METADATA_PROVIDER=mock (see tmdb-client.ts). Everything
+ * above the transport (mapping, caching, localization) runs unchanged.
+ *
+ * Endpoint → file:
+ *   /tv/1396                      fixtures/tmdb/tv/1396.json
+ *   /tv/1396/season/1/videos      fixtures/tmdb/tv/1396/season/1/videos.json
+ *   ?append_to_response=a,b       each of tv/1396/{a,b}.json attached under its key
+ *   /search/tv?query=Breaking Bad fixtures/tmdb/search/tv/breaking-bad.json
+ *
+ * Searches are recorded per query; an unrecorded query finds nothing. Other
+ * query parameters are applied the way TMDB would where it matters for
+ * deterministic results: discover filters by included and excluded genres,
+ * language, country, first air year, rating, vote count, status, network
+ * and runtime and sorts by sort_by, and pages past total_pages come back
+ * empty. Keywords aren't recorded, so with_keywords is ignored, and fixtures
+ * are English, so `language` is too. People aren't recorded either, so
+ * /search/multi is /search/tv tagged media_type "tv".
+ * Other missing fixtures throw TMDBNotFoundError, like an unknown ID.
+ *
+ * Refresh the fixtures with scripts/record-tmdb-fixtures.ts.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { TMDBNotFoundError } from "@/lib/tmdb-client";
+
+const FIXTURE_DIR = path.join(process.cwd(), "fixtures", "tmdb");
+
+interface ListResultFixture {
+  id: number;
+  name: string;
+  original_name: string;
+  original_language: string;
+  genre_ids: number[];
+  vote_average: number;
+  vote_count: number;
+  popularity: number;
+  first_air_date: string | null;
+  origin_country: string[];
+}
+
+interface ListFixture {
+  results: ListResultFixture[];
+  total_pages?: number;
+  total_results?: number;
+}
+
+/** What TMDB returns for a query that matches nothing */
+const EMPTY_SEARCH: ListFixture = { results: [], total_pages: 1, total_results: 0 };
+
+// ── File access ───────────────────────────────────────────────────────────────
+
+async function readFixture<T>(fixturePath: string): Promise<T | null> {
+  // Endpoints come from our own code, but never read outside the fixture dir
+  const file = path.join(FIXTURE_DIR, `${fixturePath}.json`);
+  if (!file.startsWith(FIXTURE_DIR + path.sep)) return null;
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8")) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+// ── Query handling ────────────────────────────────────────────────────────────
+
+// TMDB with_status codes → show status
+const STATUS_CODES: Record<string, string> = {
+  "0": "Returning Series",
+  "3": "Ended",
+  "4": "Canceled",
+};
+
+interface ShowFixture {
+  status: string;
+  networks: { id: number }[];
+  episode_run_time: number[];
+}
+
+/** Filter on a detail-only field by reading each show's tv/{id}.json */
+async function filterByShow(
+  results: ListResultFixture[],
+  keep: (show: ShowFixture) => boolean
+): Promise<ListResultFixture[]> {
+  const shows = await Promise.all(results.map((r) => readFixture<ShowFixture>(`tv/${r.id}`)));
+  return results.filter((_, i) => {
+    const show = shows[i];
+    return show !== null && keep(show);
+  });
+}
+
+async function applyDiscoverParams(
+  results: ListResultFixture[],
+  params: URLSearchParams
+): Promise<ListResultFixture[]> {
+  let filtered = results;
+
+  const genres = params.get("with_genres");
+  // Comma = AND, pipe = OR, as in TMDB
+  if (genres) {
+    const any = genres.includes("|");
+    const ids = genres.split(/[,|]/).map(Number);
+    filtered = filtered.filter((r) =>
+      any ? ids.some((g) => r.genre_ids.includes(g)) : ids.every((g) => r.genre_ids.includes(g))
+    );
+  }
+  const excluded = params.get("without_genres");
+  if (excluded) {
+    const ids = excluded.split(/[,|]/).map(Number);
+    filtered = filtered.filter((r) => !ids.some((g) => r.genre_ids.includes(g)));
+  }
+  const language = params.get("with_original_language");
+  if (language) filtered = filtered.filter((r) => r.original_language === language);
+  const country = params.get("with_origin_country");
+  if (country) filtered = filtered.filter((r) => r.origin_country.includes(country));
+  const ratingMin = Number(params.get("vote_average.gte") ?? 0);
+  if (ratingMin) filtered = filtered.filter((r) => r.vote_average >= ratingMin);
+  const votesMin = Number(params.get("vote_count.gte") ?? 0);
+  if (votesMin) filtered = filtered.filter((r) => r.vote_count >= votesMin);
+  // Dates are ISO strings, so they compare lexically
+  const airedFrom = params.get("first_air_date.gte");
+  const airedTo = params.get("first_air_date.lte");
+  if (airedFrom) filtered = filtered.filter((r) => (r.first_air_date ?? "") >= airedFrom);
+  if (airedTo) filtered = filtered.filter((r) => !!r.first_air_date && r.first_air_date <= airedTo);
+
+  const status = params.get("with_status");
+  if (status) {
+    const wanted = new Set(status.split("|").map((code) => STATUS_CODES[code]));
+    filtered = await filterByShow(filtered, (show) => wanted.has(show.status));
+  }
+  const networks = params.get("with_networks");
+  if (networks) {
+    const ids = networks.split("|").map(Number);
+    filtered = await filterByShow(filtered, (show) => show.networks.some((n) => ids.includes(n.id)));
+  }
+  const runtimeMin = Number(params.get("with_runtime.gte") ?? 0);
+  const runtimeMax = Number(params.get("with_runtime.lte") ?? Infinity);
+  if (runtimeMin || runtimeMax !== Infinity) {
+    filtered = await filterByShow(filtered, (show) =>
+      show.episode_run_time.some((t) => t >= runtimeMin && t <= runtimeMax)
+    );
+  }
+
+  const [field, direction] = (params.get("sort_by") ?? "popularity.desc").split(".");
+  const sign = direction === "asc" ? 1 : -1;
+  const key = (r: ListResultFixture): string | number =>
+    field === "vote_average"   ? r.vote_average :
+    field === "first_air_date" ? r.first_air_date ?? "" :
+    field === "name"           ? r.name.toLowerCase() :
+    r.popularity;
+  return filtered.slice().sort((a, b) => (key(a) < key(b) ? -sign : key(a) > key(b) ? sign : 0));
+}
+
+/** Filter / sort / paginate a list fixture as TMDB would */
+async function applyListParams(
+  fixturePath: string,
+  data: ListFixture,
+  params: URLSearchParams
+): Promise<ListFixture> {
+  let results = data.results;
+  if (fixturePath.startsWith("discover/")) {
+    results = await applyDiscoverParams(results, params);
+  }
+
+  const page = Number(params.get("page") ?? 1);
+  const totalPages = data.total_pages ?? 1;
+  return {
+    ...data,
+    results: page > totalPages ? [] : results,
+    total_results: results.length,
+    total_pages: results.length > 0 ? totalPages : 0,
+  };
+}
+
+/** File name a search query is recorded under: "Breaking Bad" → "breaking-bad" */
+function searchFixtureName(query: string): string {
+  return query.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/** Serve an endpoint from fixtures — same contract as tmdbRequest */
+export async function fixtureRequest<T>(endpoint: string): Promise<T> {
+  const url = new URL(endpoint, "http://fixtures");
+  const fixturePath = url.pathname.replace(/^\/+/, "");
+
+  if (fixturePath === "search/multi") {
+    const shows = await fixtureRequest<ListFixture>(`/search/tv${url.search}`);
+    return { ...shows, results: shows.results.map((r) => ({ ...r, media_type: "tv" })) } as T;
+  }
+
+  if (fixturePath === "search/tv") {
+    const name = searchFixtureName(url.searchParams.get("query") ?? "");
+    const recorded = name ? await readFixture<ListFixture>(`search/tv/${name}`) : null;
+    return (await applyListParams(fixturePath, recorded ?? EMPTY_SEARCH, url.searchParams)) as T;
+  }
+
+  const data = await readFixture<Record<string, unknown>>(fixturePath);
+  if (!data) throw new TMDBNotFoundError(endpoint);
+
+  if (Array.isArray(data.results) && !fixturePath.startsWith("watch/")) {
+    return (await applyListParams(fixturePath, data as unknown as ListFixture, url.searchParams)) as T;
+  }
+
+  const appended = url.searchParams.get("append_to_response");
+  if (!appended) return data as T;
+
+  // TMDB silently omits appended resources it doesn't have
+  const extras = await Promise.all(
+    appended.split(",").map(async (key) => [key, await readFixture(`${fixturePath}/${key}`)] as const)
+  );
+  for (const [key, value] of extras) {
+    if (value !== null) data[key] = value;
+  }
+  return data as T;
+}
@@ -1,30 +1,43 @@
 /**
- * TMDB (The Movie Database) API layer
- * Exports the same function signatures as the old tvmaze.ts so all
- * consuming pages/components need zero changes.
+ * TMDB (The Movie Database) API layer — the primary metadata provider.
+ * Pages don't import this directly: they go through getMetadataProvider()
+ * in metadata.ts, which falls back to tvmaze.ts when TMDB is unavailable.
  *
- * Auth: Bearer token via TMDB_API_KEY env var (server-only).
+ * Auth + transport: tmdb-client.ts (concurrency cap, retries, typed errors).
+ * Caching: every request goes through metadata-cache.ts with a per-endpoint
+ *          TTL (see CACHE_POLICIES), de-duplicated and stale-while-revalidate.
  * Images: TMDB returns relative paths — tmdbImage() prefixes the CDN base.
  */
 
+import { cached, type CachePolicy } from "@/lib/metadata-cache";
+import { tmdbRequest } from "@/lib/tmdb-client";
+import { DEFAULT_LOCALE, DEFAULT_REGION, localeLanguage } from "@/lib/locale";
 import type {
   TVMazeShow,
   TVMazeEpisode,
   TVMazeSearchResult,
+  SearchPage,
+  SearchSuggestion,
+  ShowSeasonMeta,
+  WatchProvider,
+  WatchProviders,
+  WatchRegion,
+  ShowBundle,
+  ShowCredits,
+  ShowExternalIds,
+  PersonCredit,
+  PersonDetail,
+  ShowVideo,
+  ShowVideoType,
+  DiscoverOptions,
+  DiscoverResult,
+  DiscoverFacet,
+  DiscoverFacetType,
 } from "@/types";
 
 // ── Config ────────────────────────────────────────────────────────────────────
 
-const BASE = "https://api.themoviedb.org/3";
-const IMG  = "https://image.tmdb.org/t/p";
-
-function authHeaders() {
-  const key = process.env.TMDB_API_KEY;
-  if (!key) throw new Error("TMDB_API_KEY is not set");
-  // Accept the token with or without the "Bearer " prefix in the env var
-  const value = key.startsWith("Bearer ") ? key : `Bearer ${key}`;
-  return { Authorization: value };
-}
+const IMG = "https://image.tmdb.org/t/p";
 
 // ── Raw TMDB response shapes (internal only) ──────────────────────────────────
 
@@ -39,6 +52,7 @@ interface TMDBEpisodeRaw {
   air_date: string | null;
   runtime: number | null;
   overview: string | null;
+  still_path?: string | null;
 }
 
 interface TMDBSeasonSummaryRaw {
@@ -52,6 +66,7 @@ interface TMDBSeasonSummaryRaw {
 interface TMDBShowRaw {
   id: number;
   name: string;
+  original_name: string;
   overview: string | null;
   poster_path: string | null;
   backdrop_path: string | null;
@@ -70,6 +85,10 @@ interface TMDBShowRaw {
   next_episode_to_air: TMDBEpisodeRaw | null;
   last_episode_to_air: TMDBEpisodeRaw | null;
   seasons: TMDBSeasonSummaryRaw[];
+  /** Only present with append_to_response=external_ids */
+  external_ids?: TMDBExternalIdsRaw;
+  /** Only present with append_to_response=alternative_titles */
+  alternative_titles?: { results: { title: string; iso_3166_1: string }[] };
 }
 
 interface TMDBSeasonRaw {
@@ -77,9 +96,15 @@ interface TMDBSeasonRaw {
   episodes: TMDBEpisodeRaw[];
 }
 
+/** /tv/{id} with `append_to_response=season/N,...` — each season under its own key */
+type TMDBShowWithSeasonsRaw = TMDBShowRaw & {
+  [key: `season/${number}`]: TMDBSeasonRaw | undefined;
+};
+
 interface TMDBListResultRaw {
   id: number;
   name: string;
+  original_name: string;
   overview: string | null;
   poster_path: string | null;
   backdrop_path: string | null;
@@ -87,6 +112,7 @@ interface TMDBListResultRaw {
   original_language: string;
   genre_ids: number[];
   vote_average: number;
+  vote_count: number;
   popularity: number;
   origin_country: string[];
 }
@@ -97,6 +123,25 @@ interface TMDBSearchResultRaw {
   total_pages: number;
 }
 
+interface TMDBMultiPersonRaw {
+  media_type: "person";
+  id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string | null;
+  /** Mixed movies (title) and shows (name) */
+  known_for?: { name?: string; title?: string }[];
+}
+
+type TMDBMultiResultRaw =
+  | (TMDBListResultRaw & { media_type: "tv" })
+  | TMDBMultiPersonRaw
+  | { media_type: "movie"; id: number };
+
+interface TMDBMultiSearchRaw {
+  results: TMDBMultiResultRaw[];
+}
+
 interface TMDBPopularResultRaw {
   results: TMDBListResultRaw[];
 }
@@ -133,6 +178,11 @@ function mapLanguage(code: string): string {
   return LANG_MAP[code] ?? code.toUpperCase();
 }
 
+/** Original-language title, only when it differs from the (localized) name */
+function originalName(raw: { name: string; original_name: string }): string | null {
+  return raw.original_name && raw.original_name !== raw.name ? raw.original_name : null;
+}
+
 /** Map a raw TMDB show to the TVMazeShow shape used throughout the app */
 function mapShow(raw: TMDBShowRaw): TVMazeShow {
   const nextEp = raw.next_episode_to_air
@@ -143,6 +193,9 @@ function mapShow(raw: TMDBShowRaw): TVMazeShow {
     id:             raw.id,
     url:            `https://www.themoviedb.org/tv/${raw.id}`,
     name:           raw.name,
+    originalName:   originalName(raw),
+    episodeCount:   raw.number_of_episodes ?? null,
+    seasonCount:    raw.number_of_seasons ?? null,
     type:           "Scripted",
     language:       mapLanguage(raw.original_language),
     genres:         raw.genres?.map((g) => g.name) ?? [],
@@ -159,7 +212,11 @@ function mapShow(raw: TMDBShowRaw): TVMazeShow {
       ? { id: raw.networks[0].id, name: raw.networks[0].name, country: null, officialSite: null }
       : null,
     webChannel:     null,
-    externals:      { tvrage: null, thetvdb: null, imdb: null },
+    externals:      {
+      tvrage:  raw.external_ids?.tvrage_id ?? null,
+      thetvdb: raw.external_ids?.tvdb_id ?? null,
+      imdb:    raw.external_ids?.imdb_id || null,
+    },
     image: {
       medium:   tmdbImage(raw.poster_path, "w500"),
       original: tmdbImage(raw.poster_path, "original"),
@@ -185,7 +242,9 @@ function mapEpisode(raw: TMDBEpisodeRaw): TVMazeEpisode {
     airstamp: raw.air_date ? `${raw.air_date}T00:00:00+00:00` : null,
     runtime:  raw.runtime ?? null,
     rating:   { average: null },
-    image:    null,
+    image:    raw.still_path
+      ? { medium: tmdbImage(raw.still_path, "w300"), original: tmdbImage(raw.still_path, "original") }
+      : null,
     summary:  raw.overview ?? null,
     _links:   { self: { href: "" } },
   };
@@ -201,7 +260,8 @@ async function getGenreMap(): Promise<Record<number, string>> {
     const data = await tmdbFetch<{ genres: TMDBGenre[] }>("/genre/tv/list");
     _genreMap = Object.fromEntries(data.genres.map((g) => [g.id, g.name]));
   } catch {
-    _genreMap = {};
+    // Don't memoise the failure — retry on the next call
+    return {};
   }
   return _genreMap;
 }
@@ -216,6 +276,7 @@ function mapListResult(r: TMDBListResultRaw, genreMap: Record<number, string>):
     id:             r.id,
     url:            `https://www.themoviedb.org/tv/${r.id}`,
     name:           r.name,
+    originalName:   originalName(r),
     type:           "Scripted",
     language:       mapLanguage(r.original_language),
     genres:         resolveGenres(r.genre_ids ?? [], genreMap),
@@ -241,67 +302,254 @@ function mapListResult(r: TMDBListResultRaw, genreMap: Record<number, string>):
   };
 }
 
+// ── Cache policy (per endpoint, first match wins) ─────────────────────────────
+
+const MINUTE = 60 * 1000;
+const HOUR   = 60 * MINUTE;
+const DAY    = 24 * HOUR;
+
+const CACHE_POLICIES: Array<{ pattern: RegExp; policy: CachePolicy }> = [
+  // Genre list practically never changes
+  { pattern: /^\/genre\//,                            policy: { ttl: 7 * DAY,     staleTtl: 30 * DAY } },
+  // Season episode lists only change when new episodes are announced
+  { pattern: /^\/tv\/\d+\/season\//,                  policy: { ttl: 6 * HOUR,    staleTtl: 7 * DAY  } },
+  { pattern: /^\/tv\/\d+\/watch\/providers/,          policy: { ttl: 12 * HOUR,   staleTtl: 7 * DAY  } },
+  // Recommendations drift slowly
+  { pattern: /^\/tv\/\d+\/(recommendations|similar)/, policy: { ttl: DAY,         staleTtl: 7 * DAY  } },
+  // Show details carry next_episode_to_air, so keep them reasonably fresh
+  { pattern: /^\/tv\/\d+/,                            policy: { ttl: 6 * HOUR,    staleTtl: 7 * DAY  } },
+  { pattern: /^\/tv\/(popular|top_rated)/,            policy: { ttl: HOUR,        staleTtl: DAY      } },
+  { pattern: /^\/discover\//,                         policy: { ttl: 15 * MINUTE, staleTtl: HOUR     } },
+  // Provider catalogues per region change rarely
+  { pattern: /^\/watch\/providers\//,                 policy: { ttl: DAY,         staleTtl: 7 * DAY  } },
+  // Keyword and network names never change
+  { pattern: /^\/(keyword|network)\/\d+/,             policy: { ttl: 30 * DAY,    staleTtl: 30 * DAY } },
+  // External ID lookups are effectively permanent
+  { pattern: /^\/find\//,                             policy: { ttl: 7 * DAY,     staleTtl: 30 * DAY } },
+  // Filmographies only change when someone is cast in something new
+  { pattern: /^\/person\//,                           policy: { ttl: DAY,         staleTtl: 7 * DAY  } },
+  // Search: short TTL, never stale — user expects fresh results
+  { pattern: /^\/search\//,                           policy: { ttl: 5 * MINUTE,  staleTtl: 0        } },
+];
+
+const DEFAULT_CACHE_POLICY: CachePolicy = { ttl: HOUR, staleTtl: DAY };
+
+function cachePolicyFor(endpoint: string): CachePolicy {
+  return CACHE_POLICIES.find((p) => p.pattern.test(endpoint))?.policy ?? DEFAULT_CACHE_POLICY;
+}
+
 // ── Fetch helper ──────────────────────────────────────────────────────────────
 
-async function tmdbFetch<T>(endpoint: string, noCache = false): Promise<T> {
-  const res = await fetch(`${BASE}${endpoint}`, {
-    headers: authHeaders(),
-    next: noCache ? { revalidate: 0 } : { revalidate: 3600 },
+/** Cached, rate-limited TMDB GET — throws TMDBError subclasses on failure */
+async function tmdbFetch<T>(endpoint: string): Promise<T> {
+  return cached(`tmdb:${endpoint}`, cachePolicyFor(endpoint), () =>
+    tmdbRequest<T>(endpoint)
+  );
+}
+
+// ── Localization ──────────────────────────────────────────────────────────────
+// For non-English locales each endpoint is fetched twice: with `language=` and
+// without (English — usually a cache hit). TMDB leaves untranslated overviews
+// empty and returns the *original* title for untranslated names, so those
+// gaps are filled from the English response.
+
+interface TMDBTitledRaw {
+  name: string;
+  original_name: string;
+  original_language: string;
+  overview: string | null;
+}
+
+function isLocalized(locale: string | undefined): locale is string {
+  return !!locale && locale !== DEFAULT_LOCALE;
+}
+
+function withLanguage(endpoint: string, locale: string): string {
+  return `${endpoint}${endpoint.includes("?") ? "&" : "?"}language=${encodeURIComponent(locale)}`;
+}
+
+/** Fill an untranslated title / overview from the English version */
+function fillTitled<T extends TMDBTitledRaw>(loc: T, en: TMDBTitledRaw | undefined, locale: string): T {
+  if (!en) return loc;
+  const untranslatedName =
+    loc.name === loc.original_name && loc.original_language !== localeLanguage(locale);
+  return {
+    ...loc,
+    name:     untranslatedName ? en.name : loc.name,
+    overview: loc.overview || en.overview,
+  };
+}
+
+function fillResults<T extends { results: TMDBListResultRaw[] }>(loc: T, en: T, locale: string): T {
+  const english = new Map((en.results ?? []).map((r) => [r.id, r]));
+  return { ...loc, results: (loc.results ?? []).map((r) => fillTitled(r, english.get(r.id), locale)) };
+}
+
+/** fillResults for /search/multi — only shows have titles to fill */
+function fillMultiResults(loc: TMDBMultiSearchRaw, en: TMDBMultiSearchRaw, locale: string): TMDBMultiSearchRaw {
+  const english = new Map(
+    (en.results ?? []).flatMap((r) => (r.media_type === "tv" ? [[r.id, r] as const] : []))
+  );
+  return {
+    ...loc,
+    results: (loc.results ?? []).map((r) =>
+      r.media_type === "tv" ? fillTitled(r, english.get(r.id), locale) : r
+    ),
+  };
+}
+
+function fillEpisodes(loc: TMDBEpisodeRaw[], en: TMDBEpisodeRaw[]): TMDBEpisodeRaw[] {
+  const english = new Map(en.map((e) => [e.id, e]));
+  return loc.map((e) => {
+    const fallback = english.get(e.id);
+    return fallback
+      ? { ...e, name: e.name || fallback.name, overview: e.overview || fallback.overview }
+      : e;
   });
-  if (!res.ok) {
-    throw new Error(`TMDB API error: ${res.status} ${res.statusText} (${endpoint})`);
+}
+
+function fillShowWithSeasons<T extends TMDBShowWithSeasonsRaw>(loc: T, en: T, locale: string): T {
+  const filled = fillTitled(loc, en, locale);
+  const seasons: TMDBShowWithSeasonsRaw = filled;
+  const seasonKeys = Object.keys(loc).filter((k): k is `season/${number}` => k.startsWith("season/"));
+  for (const key of seasonKeys) {
+    const season = loc[key];
+    const english = en[key];
+    if (season && english) {
+      seasons[key] = { ...season, episodes: fillEpisodes(season.episodes ?? [], english.episodes ?? []) };
+    }
   }
-  return res.json() as Promise<T>;
+  return filled;
 }
 
-// ── Public API (same signatures as old tvmaze.ts) ─────────────────────────────
+/** tmdbFetch (or `fetch`) in the given locale, with gaps filled from English by `fill` */
+async function tmdbFetchLocalized<T>(
+  endpoint: string,
+  locale: string | undefined,
+  fill: (localized: T, english: T, locale: string) => T,
+  fetch: (endpoint: string) => Promise<T> = tmdbFetch
+): Promise<T> {
+  if (!isLocalized(locale)) return fetch(endpoint);
+  const [localized, english] = await Promise.all([
+    fetch(withLanguage(endpoint, locale)),
+    // English is only the fallback — without it, untranslated fields stay empty
+    fetch(endpoint).catch(() => null),
+  ]);
+  return english ? fill(localized, english, locale) : localized;
+}
+
+// ── Public API (implements MetadataProvider, see metadata.ts) ─────────────────
+
+/** Search TV shows by query string (first page) */
+export async function searchShows(query: string, locale?: string): Promise<TVMazeSearchResult[]> {
+  return (await searchShowsPage(query, 1, locale)).results;
+}
+
+/** One page of TV search results, for paging past the first 20 */
+export async function searchShowsPage(query: string, page: number, locale?: string): Promise<SearchPage> {
+  const [data, genreMap] = await Promise.all([
+    tmdbFetchLocalized<TMDBSearchResultRaw>(
+      `/search/tv?query=${encodeURIComponent(query)}&page=${page}`,
+      locale,
+      fillResults
+    ),
+    getGenreMap(),
+  ]);
+
+  return {
+    results: (data.results ?? []).map((r) => ({
+      score: r.popularity,
+      show: mapListResult(r, genreMap),
+    })),
+    page,
+    totalPages: Math.min(data.total_pages ?? 0, TMDB_MAX_PAGE),
+  };
+}
 
-/** Search TV shows by query string */
-export async function searchShows(query: string): Promise<TVMazeSearchResult[]> {
+/** Typeahead: shows and people for a partial query via /search/multi (movies dropped) */
+export async function searchSuggestions(query: string, locale?: string): Promise<SearchSuggestion[]> {
   const [data, genreMap] = await Promise.all([
-    tmdbFetch<TMDBSearchResultRaw>(
-      `/search/tv?query=${encodeURIComponent(query)}&page=1`,
-      true  // no cache on search — user expects fresh results
+    tmdbFetchLocalized<TMDBMultiSearchRaw>(
+      `/search/multi?query=${encodeURIComponent(query)}&page=1`,
+      locale,
+      fillMultiResults
     ),
     getGenreMap(),
   ]);
 
-  return (data.results ?? []).map((r) => ({
-    score: r.popularity,
-    show: mapListResult(r, genreMap),
-  }));
+  const suggestions: SearchSuggestion[] = [];
+  for (const r of data.results ?? []) {
+    if (r.media_type === "tv") {
+      suggestions.push({ type: "show", show: mapListResult(r, genreMap) });
+    } else if (r.media_type === "person") {
+      suggestions.push({
+        type: "person",
+        person: {
+          id:                 r.id,
+          name:               r.name,
+          profileImage:       tmdbImage(r.profile_path, "w185"),
+          knownForDepartment: r.known_for_department || null,
+          knownFor:           (r.known_for ?? []).map((k) => k.name ?? k.title ?? "").filter(Boolean),
+        },
+      });
+    }
+  }
+  return suggestions;
 }
 
 /** Get full show details by TMDB ID */
-export async function getShow(id: number): Promise<TVMazeShow> {
-  const raw = await tmdbFetch<TMDBShowRaw>(`/tv/${id}`);
+export async function getShow(id: number, locale?: string): Promise<TVMazeShow> {
+  const raw = await tmdbFetchLocalized<TMDBShowRaw>(
+    `/tv/${id}?append_to_response=external_ids`,
+    locale,
+    fillTitled
+  );
   return mapShow(raw);
 }
 
 /** Get show details — TMDB includes next_episode_to_air inline, so same as getShow */
-export async function getShowWithNextEpisode(id: number): Promise<TVMazeShow> {
-  const raw = await tmdbFetch<TMDBShowRaw>(`/tv/${id}`);
+export async function getShowWithNextEpisode(id: number, locale?: string): Promise<TVMazeShow> {
+  const raw = await tmdbFetchLocalized<TMDBShowRaw>(`/tv/${id}`, locale, fillTitled);
   return mapShow(raw);
 }
 
-/** Get all episodes for a show (fetches each season in parallel) */
-export async function getEpisodes(showId: number): Promise<TVMazeEpisode[]> {
-  // First get the show to find number_of_seasons
-  const show = await tmdbFetch<TMDBShowRaw>(`/tv/${showId}`);
-  const numSeasons = show.number_of_seasons ?? 0;
-  if (numSeasons === 0) return [];
-
-  // Fetch all seasons in parallel
-  const seasonNums = Array.from({ length: numSeasons }, (_, i) => i + 1);
-  const seasons = await Promise.all(
-    seasonNums.map((n) =>
-      tmdbFetch<TMDBSeasonRaw>(`/tv/${showId}/season/${n}`).catch(() => null)
+/** TMDB accepts at most 20 items in a single append_to_response */
+const APPEND_LIMIT = 20;
+
+/**
+ * Fetch seasons via append_to_response, 20 per request, chunks in parallel
+ * (the client scheduler caps concurrency). A season TMDB lists but doesn't
+ * return is skipped; request failures have already been retried, so they
+ * surface rather than silently dropping episodes.
+ */
+async function fetchSeasons(
+  showId: number,
+  seasonNums: number[],
+  locale?: string
+): Promise<TMDBSeasonRaw[]> {
+  const chunks: number[][] = [];
+  for (let i = 0; i < seasonNums.length; i += APPEND_LIMIT) {
+    chunks.push(seasonNums.slice(i, i + APPEND_LIMIT));
+  }
+  const responses = await Promise.all(
+    chunks.map((chunk) =>
+      tmdbFetchLocalized<TMDBShowWithSeasonsRaw>(
+        `/tv/${showId}?append_to_response=${chunk.map((n) => `season/${n}`).join(",")}`,
+        locale,
+        fillShowWithSeasons
+      )
     )
   );
+  return responses.flatMap((res, i) =>
+    chunks[i]
+      .map((n) => res[`season/${n}`])
+      .filter((s): s is TMDBSeasonRaw => s !== undefined)
+  );
+}
 
-  // Flatten to a single episode list, filter out specials (season 0)
+/** Flatten seasons to a single episode list (specials stay in season 0) */
+function flattenSeasons(seasons: TMDBSeasonRaw[]): TVMazeEpisode[] {
   return seasons
-    .filter((s): s is TMDBSeasonRaw => s !== null && s.season_number > 0)
     .flatMap((s) =>
       (s.episodes ?? [])
         .filter((ep) => ep.episode_number > 0)
@@ -309,6 +557,24 @@ export async function getEpisodes(showId: number): Promise<TVMazeEpisode[]> {
     );
 }
 
+/** Season numbers to fetch: 1..number_of_seasons, plus 0 when TMDB lists specials */
+function seasonNumbers(raw: TMDBShowRaw): number[] {
+  const numSeasons = raw.number_of_seasons ?? 0;
+  const regular = Array.from({ length: numSeasons }, (_, i) => i + 1);
+  const hasSpecials = raw.seasons?.some((s) => s.season_number === 0 && s.episode_count > 0);
+  return hasSpecials ? [0, ...regular] : regular;
+}
+
+/** Get all episodes for a show (seasons batched via append_to_response) */
+export async function getEpisodes(showId: number, locale?: string): Promise<TVMazeEpisode[]> {
+  // First get the show to find number_of_seasons (season counts aren't localized)
+  const show = await tmdbFetch<TMDBShowRaw>(`/tv/${showId}`);
+  const seasonNums = seasonNumbers(show);
+  if (seasonNums.length === 0) return [];
+
+  return flattenSeasons(await fetchSeasons(showId, seasonNums, locale));
+}
+
 // ── Genre ID → name map (exported for UI usage) ──────────────────────────────
 
 export const GENRE_MAP: Record<string, number> = {
@@ -330,23 +596,13 @@ export const GENRE_MAP: Record<string, number> = {
   "Soap":               10766,
 };
 
-/** Indian streaming providers — TMDB provider IDs for watch_region=IN */
-export const PLATFORM_MAP: Record<string, number> = {
-  "Netflix":          8,
-  "Prime Video":      119,
-  "Disney+ Hotstar":  122,
-  "Apple TV+":        350,
-  "JioCinema":        220,
-  "SonyLIV":          237,
-  "ZEE5":             232,
-};
-
 /** Get popular TV shows — fetches 3 pages (~60 shows) in parallel */
-export async function getPopularShows(): Promise<TVMazeShow[]> {
+export async function getPopularShows(locale?: string): Promise<TVMazeShow[]> {
   const [pages, genreMap] = await Promise.all([
     Promise.all(
       [1, 2, 3].map((p) =>
-        tmdbFetch<TMDBPopularResultRaw>(`/tv/popular?page=${p}`).catch(() => ({ results: [] }))
+        tmdbFetchLocalized<TMDBPopularResultRaw>(`/tv/popular?page=${p}`, locale, fillResults)
+          .catch(() => ({ results: [] }))
       )
     ),
     getGenreMap(),
@@ -358,40 +614,149 @@ export async function getPopularShows(): Promise<TVMazeShow[]> {
 }
 
 /** Get top-rated TV shows (single page, 20 results) */
-export async function getTopRatedShows(): Promise<TVMazeShow[]> {
+export async function getTopRatedShows(locale?: string): Promise<TVMazeShow[]> {
+  const [data, genreMap] = await Promise.all([
+    tmdbFetchLocalized<TMDBPopularResultRaw>(`/tv/top_rated?page=1`, locale, fillResults),
+    getGenreMap(),
+  ]);
+
+  return (data.results ?? []).map((r) => mapListResult(r, genreMap));
+}
+
+/** TMDB's recommendations for a show (based on what other users watched) */
+export async function getShowRecommendations(id: number, locale?: string): Promise<TVMazeShow[]> {
   const [data, genreMap] = await Promise.all([
-    tmdbFetch<TMDBPopularResultRaw>(`/tv/top_rated?page=1`),
+    tmdbFetchLocalized<TMDBPopularResultRaw>(`/tv/${id}/recommendations`, locale, fillResults),
     getGenreMap(),
   ]);
+  return (data.results ?? []).map((r) => mapListResult(r, genreMap));
+}
 
+/** Shows with similar genres and keywords */
+export async function getSimilarShows(id: number, locale?: string): Promise<TVMazeShow[]> {
+  const [data, genreMap] = await Promise.all([
+    tmdbFetchLocalized<TMDBPopularResultRaw>(`/tv/${id}/similar`, locale, fillResults),
+    getGenreMap(),
+  ]);
   return (data.results ?? []).map((r) => mapListResult(r, genreMap));
 }
 
+/**
+ * "More like this": recommendations first, topped up from similar shows.
+ * Niche shows often have no recommendations yet, while similar is keyword
+ * based and almost always populated.
+ */
+export async function getRelatedShows(
+  id: number,
+  limit = 20,
+  locale?: string
+): Promise<TVMazeShow[]> {
+  const [recommended, similar] = await Promise.all([
+    getShowRecommendations(id, locale).catch(() => []),
+    getSimilarShows(id, locale).catch(() => []),
+  ]);
+  const seen = new Set<number>([id]);
+  return [...recommended, ...similar]
+    .filter((s) => !seen.has(s.id) && seen.add(s.id))
+    .slice(0, limit);
+}
+
+// ── Videos ────────────────────────────────────────────────────────────────────
+
+interface TMDBVideoRaw {
+  id: string;
+  key: string;
+  name: string;
+  site: string;
+  type: string;
+  official: boolean;
+  published_at: string | null;
+}
+
+// Display order — trailers first; anything not listed here is dropped
+const VIDEO_TYPE_ORDER: ShowVideoType[] = [
+  "Trailer", "Teaser", "Featurette", "Clip", "Behind the Scenes", "Bloopers", "Opening Credits",
+];
+
+function mapVideos(results: TMDBVideoRaw[], seasonNumber: number | null): ShowVideo[] {
+  return results
+    .filter((v) => (v.site === "YouTube" || v.site === "Vimeo") &&
+      VIDEO_TYPE_ORDER.includes(v.type as ShowVideoType))
+    .map((v) => ({
+      id:           v.id,
+      key:          v.key,
+      name:         v.name,
+      site:         v.site as ShowVideo["site"],
+      type:         v.type as ShowVideoType,
+      seasonNumber,
+      official:     v.official,
+      publishedAt:  v.published_at ?? null,
+    }));
+}
+
+/**
+ * Trailers, teasers and clips for a show plus the given seasons (1 request
+ * each), ordered show-level first, then by type, official uploads first and
+ * newest first.
+ */
+export async function getShowVideos(id: number, seasonNums: number[] = []): Promise<ShowVideo[]> {
+  const [showVideos, ...seasonVideos] = await Promise.all([
+    tmdbFetch<{ results: TMDBVideoRaw[] }>(`/tv/${id}/videos`).then((d) =>
+      mapVideos(d.results ?? [], null)
+    ),
+    // A missing season video list shouldn't hide the show-level trailers
+    ...seasonNums.map((n) =>
+      tmdbFetch<{ results: TMDBVideoRaw[] }>(`/tv/${id}/season/${n}/videos`)
+        .then((d) => mapVideos(d.results ?? [], n))
+        .catch(() => [] as ShowVideo[])
+    ),
+  ]);
+
+  // Season lists usually repeat some show-level videos
+  const seen = new Set<string>();
+  return [...showVideos, ...seasonVideos.flat()]
+    .filter((v) => !seen.has(v.key) && seen.add(v.key))
+    .sort(
+      (a, b) =>
+        Number(a.seasonNumber !== null) - Number(b.seasonNumber !== null) ||
+        (b.seasonNumber ?? 0) - (a.seasonNumber ?? 0) ||
+        VIDEO_TYPE_ORDER.indexOf(a.type) - VIDEO_TYPE_ORDER.indexOf(b.type) ||
+        Number(b.official) - Number(a.official) ||
+        (b.publishedAt ?? "").localeCompare(a.publishedAt ?? "")
+    );
+}
+
 // ── Season metadata (for My Shows enrichment) ──────────────────────────────────
 
-export interface ShowSeasonMeta {
-  tmdbId: number;
-  nextEpisode: {
-    seasonNumber: number;
-    episodeNumber: number;
-    airDate: string | null;
-  } | null;
-  lastEpisode: {
-    seasonNumber: number;
-    episodeNumber: number;
-    airDate: string | null;
-  } | null;
-  numberOfSeasons: number;
-  /** Air date of the latest (highest-numbered, non-specials) season premiere */
-  latestSeasonAirDate: string | null;
-  /** Whether the show is still airing ("Running") or has ended */
-  isRunning: boolean;
-}
-
-/** Lightweight metadata fetch — returns season-level info for enrichment logic */
+/**
+ * Regular episodes aired through `last`: every earlier season in full plus
+ * `last`'s place in its own season (whose episode_count includes announced
+ * episodes). Unknown (0) when the last aired episode is a special.
+ */
+function releasedEpisodeCount(seasons: TMDBSeasonSummaryRaw[], last: TMDBEpisodeRaw | null): number {
+  if (!last || last.season_number === 0) return 0;
+  return seasons
+    .filter((s) => s.season_number > 0 && s.season_number < last.season_number)
+    .reduce((sum, s) => sum + s.episode_count, last.episode_number);
+}
+
+/** Specials with an air date on or before today */
+function releasedSpecialsCount(specials: TMDBSeasonRaw | undefined): number {
+  const now = new Date();
+  return (specials?.episodes ?? []).filter(
+    (e) => !!e.air_date && new Date(e.air_date + "T00:00:00") <= now
+  ).length;
+}
+
+/**
+ * Lightweight metadata fetch — returns season-level info for enrichment logic.
+ * Specials come along in the same request, for progress that includes them.
+ */
 export async function getShowSeasonMeta(id: number): Promise<ShowSeasonMeta | null> {
   try {
-    const raw = await tmdbFetch<TMDBShowRaw>(`/tv/${id}`);
+    const raw = await tmdbFetch<TMDBShowWithSeasonsRaw>(
+      `/tv/${id}?append_to_response=alternative_titles,season/0`
+    );
 
     // Find the latest non-specials season's air_date from the seasons array
     let latestSeasonAirDate: string | null = null;
@@ -422,32 +787,34 @@ export async function getShowSeasonMeta(id: number): Promise<ShowSeasonMeta | nu
           }
         : null,
       numberOfSeasons: raw.number_of_seasons,
+      specialsCount: raw.seasons?.find((s) => s.season_number === 0)?.episode_count ?? 0,
+      releasedEpisodeCount: releasedEpisodeCount(raw.seasons ?? [], raw.last_episode_to_air),
+      releasedSpecialsCount: releasedSpecialsCount(raw["season/0"]),
       latestSeasonAirDate,
       isRunning: raw.status === "Returning Series",
+      genres: (raw.genres ?? []).map((g) => g.name),
+      alternativeTitles: uniqueTitles(
+        [raw.original_name, ...(raw.alternative_titles?.results ?? []).map((t) => t.title)],
+        raw.name
+      ),
     };
   } catch {
     return null;
   }
 }
 
-// ── Watch providers ──────────────────────────────────────────────────────────
-
-export interface WatchProvider {
-  id: number;
-  name: string;
-  logoPath: string | null;
+/** Distinct titles, minus the display name itself */
+function uniqueTitles(titles: string[], name: string): string[] {
+  const seen = new Set([name.toLowerCase()]);
+  return titles.filter((t) => {
+    const key = t.toLowerCase();
+    if (!t || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
 }
 
-export interface WatchProviders {
-  /** Streaming / subscription services (e.g. Netflix, Hulu) */
-  flatrate: WatchProvider[];
-  /** Purchase providers (e.g. Apple TV, Google Play) */
-  buy: WatchProvider[];
-  /** Rental providers */
-  rent: WatchProvider[];
-  /** TMDB "Where to Watch" link */
-  link: string | null;
-}
+// ── Watch providers ──────────────────────────────────────────────────────────
 
 interface TMDBProviderRaw {
   provider_id: number;
@@ -475,149 +842,575 @@ function mapProvider(raw: TMDBProviderRaw): WatchProvider {
   };
 }
 
+function mapWatchProviders(
+  data: TMDBWatchProvidersRaw | undefined,
+  region: string
+): WatchProviders {
+  const regionData = data?.results?.[region];
+  if (!regionData) {
+    return { flatrate: [], buy: [], rent: [], link: null };
+  }
+  return {
+    flatrate: (regionData.flatrate ?? []).map(mapProvider),
+    buy: (regionData.buy ?? []).map(mapProvider),
+    rent: (regionData.rent ?? []).map(mapProvider),
+    link: regionData.link ?? null,
+  };
+}
+
 /**
  * Fetch watch/streaming providers for a TV show.
- * Returns data for the given region (default "US").
+ * Returns data for the given region (default DEFAULT_REGION).
  */
 export async function getWatchProviders(
   showId: number,
-  region = "IN"
+  region = DEFAULT_REGION
 ): Promise<WatchProviders> {
   try {
     const data = await tmdbFetch<TMDBWatchProvidersRaw>(
       `/tv/${showId}/watch/providers`
     );
-    const regionData = data.results?.[region];
-    if (!regionData) {
-      return { flatrate: [], buy: [], rent: [], link: null };
-    }
-    return {
-      flatrate: (regionData.flatrate ?? []).map(mapProvider),
-      buy: (regionData.buy ?? []).map(mapProvider),
-      rent: (regionData.rent ?? []).map(mapProvider),
-      link: regionData.link ?? null,
-    };
+    return mapWatchProviders(data, region);
   } catch {
     return { flatrate: [], buy: [], rent: [], link: null };
   }
 }
 
-/** Discover TV shows by genre (paginated, 20 per page) with optional server-side filters */
-export async function discoverShows(options: {
-  genreId?: number;
-  page?: number;
-  sortBy?: string;
-  status?: "running" | "ended";
-  ratingMin?: number;
-  language?: string;          // ISO 639-1 code, e.g. "en"
-  voteCountMin?: number;      // minimum vote count (filters out obscure shows)
-  watchProviderId?: number;   // TMDB provider ID (watch_region=IN implied)
-}): Promise<{ shows: TVMazeShow[]; totalPages: number }> {
-  const { genreId, page = 1, sortBy = "popularity.desc", status, ratingMin, language, voteCountMin, watchProviderId } = options;
-
-  const params = new URLSearchParams({
-    sort_by: sortBy,
-    page: String(page),
-  });
-  if (genreId) params.set("with_genres", String(genreId));
+interface TMDBRegionProviderRaw extends TMDBProviderRaw {
+  display_priorities?: Record<string, number>;
+}
+
+/** Streaming providers available in a region, most prominent first */
+export async function getRegionProviders(region = DEFAULT_REGION): Promise<WatchProvider[]> {
+  const data = await tmdbFetch<{ results: TMDBRegionProviderRaw[] }>(
+    `/watch/providers/tv?watch_region=${encodeURIComponent(region)}`
+  );
+  const priority = (p: TMDBRegionProviderRaw) => p.display_priorities?.[region] ?? Infinity;
+  return (data.results ?? [])
+    .slice()
+    .sort((a, b) => priority(a) - priority(b))
+    .map(mapProvider);
+}
+
+/** Countries TMDB has watch-provider data for, sorted by name */
+export async function getWatchRegions(): Promise<WatchRegion[]> {
+  const data = await tmdbFetch<{ results: { iso_3166_1: string; english_name: string }[] }>(
+    "/watch/providers/regions"
+  );
+  return (data.results ?? [])
+    .map((r) => ({ code: r.iso_3166_1, name: r.english_name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ── Show bundle (show detail page) ───────────────────────────────────────────
+
+interface TMDBAggregateCastRaw {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  roles: { character: string; episode_count: number }[];
+  total_episode_count: number;
+}
+
+interface TMDBAggregateCrewRaw {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  department: string;
+  jobs: { job: string; episode_count: number }[];
+  total_episode_count: number;
+}
+
+interface TMDBAggregateCreditsRaw {
+  cast: TMDBAggregateCastRaw[];
+  crew: TMDBAggregateCrewRaw[];
+}
+
+interface TMDBExternalIdsRaw {
+  imdb_id: string | null;
+  tvdb_id: number | null;
+  tvrage_id: number | null;
+  wikidata_id: string | null;
+}
+
+type TMDBShowBundleRaw = TMDBShowWithSeasonsRaw & {
+  aggregate_credits?: TMDBAggregateCreditsRaw;
+  "watch/providers"?: TMDBWatchProvidersRaw;
+};
+
+/** Pick the role/job with the most episodes (aggregate credits list them all) */
+function topByEpisodes<T extends { episode_count: number }>(items: T[]): T | undefined {
+  return items.reduce<T | undefined>(
+    (best, item) => (!best || item.episode_count > best.episode_count ? item : best),
+    undefined
+  );
+}
+
+function mapCredits(raw: TMDBAggregateCreditsRaw | undefined): ShowCredits {
+  return {
+    cast: (raw?.cast ?? []).map((c) => ({
+      id:           c.id,
+      name:         c.name,
+      character:    topByEpisodes(c.roles ?? [])?.character ?? "",
+      profileImage: tmdbImage(c.profile_path, "w185"),
+      episodeCount: c.total_episode_count ?? 0,
+    })),
+    crew: (raw?.crew ?? []).map((c) => ({
+      id:           c.id,
+      name:         c.name,
+      job:          topByEpisodes(c.jobs ?? [])?.job ?? "",
+      department:   c.department,
+      profileImage: tmdbImage(c.profile_path, "w185"),
+      episodeCount: c.total_episode_count ?? 0,
+    })),
+  };
+}
+
+function mapExternalIds(raw: TMDBExternalIdsRaw | undefined): ShowExternalIds {
+  return {
+    imdb:     raw?.imdb_id || null,
+    tvdb:     raw?.tvdb_id ?? null,
+    tvrage:   raw?.tvrage_id ?? null,
+    wikidata: raw?.wikidata_id || null,
+  };
+}
+
+const BUNDLE_APPENDS = ["aggregate_credits", "external_ids", "watch/providers"];
+
+/** Seasons that fit alongside BUNDLE_APPENDS — specials plus seasons 1–16 */
+const BUNDLE_SEASONS = Array.from({ length: APPEND_LIMIT - BUNDLE_APPENDS.length }, (_, i) => i);
+
+/**
+ * Everything the show detail page needs — 1 request for most shows: the show
+ * with credits, external IDs, providers and its first seasons appended (TMDB
+ * omits seasons the show doesn't have). Longer-running shows fetch the rest
+ * in chunks of 20.
+ */
+export async function getShowBundle(
+  id: number,
+  region = DEFAULT_REGION,
+  locale?: string
+): Promise<ShowBundle> {
+  const appended = [...BUNDLE_APPENDS, ...BUNDLE_SEASONS.map((n) => `season/${n}`)];
+  const raw = await tmdbFetchLocalized<TMDBShowBundleRaw>(
+    `/tv/${id}?append_to_response=${appended.join(",")}`,
+    locale,
+    fillShowWithSeasons
+  );
+  const seasonNums = seasonNumbers(raw);
+  const remaining = seasonNums.filter((n) => !BUNDLE_SEASONS.includes(n));
+  const seasons = [
+    ...seasonNums
+      .filter((n) => BUNDLE_SEASONS.includes(n))
+      .map((n) => raw[`season/${n}`])
+      .filter((s): s is TMDBSeasonRaw => s !== undefined),
+    ...(remaining.length > 0 ? await fetchSeasons(id, remaining, locale) : []),
+  ];
+
+  return {
+    show: mapShow(raw),
+    episodes: flattenSeasons(seasons),
+    watchProviders: mapWatchProviders(raw["watch/providers"], region),
+    credits: mapCredits(raw.aggregate_credits),
+    externalIds: mapExternalIds(raw.external_ids),
+  };
+}
+
+/** IMDb / TVDB / TVRage / Wikidata IDs for a show */
+export async function getExternalIds(id: number): Promise<ShowExternalIds> {
+  const raw = await tmdbFetch<TMDBExternalIdsRaw>(`/tv/${id}/external_ids`);
+  return mapExternalIds(raw);
+}
+
+/** Resolve an IMDb or TVDB ID to a TMDB show ID (null when TMDB has no match) */
+export async function findShowByExternalId(
+  source: "imdb" | "tvdb",
+  externalId: string | number
+): Promise<number | null> {
+  const externalSource = source === "imdb" ? "imdb_id" : "tvdb_id";
+  const data = await tmdbFetch<{ tv_results: { id: number }[] }>(
+    `/find/${encodeURIComponent(String(externalId))}?external_source=${externalSource}`
+  );
+  return data.tv_results?.[0]?.id ?? null;
+}
+
+/** Cast and crew aggregated across all seasons */
+export async function getShowCredits(id: number): Promise<ShowCredits> {
+  const raw = await tmdbFetch<TMDBAggregateCreditsRaw>(`/tv/${id}/aggregate_credits`);
+  return mapCredits(raw);
+}
+
+// ── People ────────────────────────────────────────────────────────────────────
+
+type TMDBPersonCastCreditRaw = TMDBListResultRaw & {
+  character: string;
+  episode_count: number;
+};
+
+type TMDBPersonCrewCreditRaw = TMDBListResultRaw & {
+  job: string;
+  episode_count: number;
+};
+
+interface TMDBPersonRaw {
+  id: number;
+  name: string;
+  biography: string;
+  profile_path: string | null;
+  known_for_department: string | null;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  tv_credits?: {
+    cast: TMDBPersonCastCreditRaw[];
+    crew: TMDBPersonCrewCreditRaw[];
+  };
+}
+
+// Talk shows and news — guest appearances that would swamp a filmography
+const EXCLUDED_CREDIT_GENRES = new Set([10767, 10763]);
+
+/** Person details with their TV filmography (1 request via append_to_response) */
+export async function getPerson(id: number): Promise<PersonDetail> {
+  const [raw, genreMap] = await Promise.all([
+    tmdbFetch<TMDBPersonRaw>(`/person/${id}?append_to_response=tv_credits`),
+    getGenreMap(),
+  ]);
+
+  // A person can appear in the same show several times (e.g. actor + producer)
+  const byShow = new Map<number, PersonCredit>();
+  const addCredit = (r: TMDBListResultRaw, role: string, episodeCount: number) => {
+    if ((r.genre_ids ?? []).some((g) => EXCLUDED_CREDIT_GENRES.has(g))) return;
+    const existing = byShow.get(r.id);
+    if (existing) {
+      if (role && !existing.roles.includes(role)) existing.roles.push(role);
+      existing.episodeCount = Math.max(existing.episodeCount, episodeCount);
+    } else {
+      byShow.set(r.id, { show: mapListResult(r, genreMap), roles: role ? [role] : [], episodeCount });
+    }
+  };
+  for (const c of raw.tv_credits?.cast ?? []) addCredit(c, c.character, c.episode_count ?? 0);
+  for (const c of raw.tv_credits?.crew ?? []) addCredit(c, c.job, c.episode_count ?? 0);
+
+  return {
+    id:                 raw.id,
+    name:               raw.name,
+    biography:          raw.biography || null,
+    profileImage:       tmdbImage(raw.profile_path, "w500"),
+    knownForDepartment: raw.known_for_department || null,
+    birthday:           raw.birthday || null,
+    deathday:           raw.deathday || null,
+    placeOfBirth:       raw.place_of_birth || null,
+    credits: Array.from(byShow.values()).sort(
+      (a, b) => b.episodeCount - a.episodeCount || b.show.weight - a.show.weight
+    ),
+  };
+}
+
+/** /discover/tv query for the filters in `options`, after the `base` params */
+function discoverParams(options: DiscoverOptions, base: Record<string, string>): URLSearchParams {
+  const {
+    genreIds, genreMatch, excludeGenreIds, status, ratingMin, language, watchProviderIds, watchRegion,
+    keywordIds, networkIds, originCountry, yearFrom, yearTo, runtimeMin, runtimeMax,
+  } = options;
+
+  const params = new URLSearchParams(base);
+  // Comma = all of, pipe = any of
+  if (genreIds?.length) params.set("with_genres", genreIds.join(genreMatch === "any" ? "|" : ","));
+  if (excludeGenreIds?.length) params.set("without_genres", excludeGenreIds.join(","));
   // TMDB with_status: 0=Returning Series, 3=Ended, 4=Cancelled
   if (status === "running") params.set("with_status", "0");
   if (status === "ended") params.set("with_status", "3|4");
   if (ratingMin) params.set("vote_average.gte", String(ratingMin));
   if (language) params.set("with_original_language", language);
-  if (voteCountMin) params.set("vote_count.gte", String(voteCountMin));
-  if (watchProviderId) {
-    params.set("with_watch_providers", String(watchProviderId));
-    params.set("watch_region", "IN");
+  if (watchProviderIds?.length) {
+    params.set("with_watch_providers", watchProviderIds.join("|"));
+    params.set("watch_region", watchRegion ?? DEFAULT_REGION);
   }
+  // Pipe-separated = any of (commas would require all)
+  if (keywordIds?.length) params.set("with_keywords", keywordIds.join("|"));
+  if (networkIds?.length) params.set("with_networks", networkIds.join("|"));
+  if (originCountry) params.set("with_origin_country", originCountry);
+  if (yearFrom) params.set("first_air_date.gte", `${yearFrom}-01-01`);
+  if (yearTo) params.set("first_air_date.lte", `${yearTo}-12-31`);
+  if (runtimeMin) params.set("with_runtime.gte", String(runtimeMin));
+  if (runtimeMax) params.set("with_runtime.lte", String(runtimeMax));
+  return params;
+}
+
+function hasCountBounds(options: DiscoverOptions): boolean {
+  const { episodesMin, episodesMax, seasonsMin, seasonsMax } = options;
+  return !!(episodesMin || episodesMax || seasonsMin || seasonsMax);
+}
+
+function withinBounds(value: number | null | undefined, min?: number, max?: number): boolean {
+  if (!min && !max) return true;
+  if (value == null) return false;
+  return (!min || value >= min) && (!max || value <= max);
+}
+
+/**
+ * Fill in episode / season counts and runtime from show details (one cached
+ * /tv/{id} fetch per result — list results lack them, and cards need them for
+ * the time-to-finish estimate), then apply the count bounds in `options`,
+ * which TMDB can't filter on. Shows whose details fail to load are kept
+ * unless there are bounds to check.
+ */
+async function withShowDetails(shows: TVMazeShow[], options: DiscoverOptions): Promise<TVMazeShow[]> {
+  const details = await Promise.all(
+    shows.map((s) => tmdbFetch<TMDBShowRaw>(`/tv/${s.id}`).catch(() => null))
+  );
+  const detailed = shows.map((show, i) => {
+    const raw = details[i];
+    if (!raw) return show;
+    const { episodeCount, seasonCount, runtime, averageRuntime, status } = mapShow(raw);
+    return { ...show, episodeCount, seasonCount, runtime, averageRuntime, status };
+  });
+  if (!hasCountBounds(options)) return detailed;
+  return detailed.filter(
+    (s) =>
+      withinBounds(s.episodeCount, options.episodesMin, options.episodesMax) &&
+      withinBounds(s.seasonCount, options.seasonsMin, options.seasonsMax)
+  );
+}
+
+/** Discover TV shows by genre (paginated, 20 per page) with optional server-side filters */
+export async function discoverShows(options: DiscoverOptions): Promise<DiscoverResult> {
+  const { page = 1, sortBy = "popularity.desc", voteCountMin, locale } = options;
+
+  const params = discoverParams(options, {
+    sort_by: sortBy,
+    page: String(page),
+  });
+  if (voteCountMin) params.set("vote_count.gte", String(voteCountMin));
 
   const [data, genreMap] = await Promise.all([
-    tmdbFetch<{ results: TMDBListResultRaw[]; total_pages: number }>(
+    tmdbFetchLocalized<{ results: TMDBListResultRaw[]; total_pages: number }>(
       `/discover/tv?${params.toString()}`,
-      true // no stale cache — user navigates between genres frequently
+      locale,
+      fillResults
     ),
     getGenreMap(),
   ]);
 
+  // Count bounds can leave a page short (or empty) — TMDB can't filter on them
   return {
-    shows: (data.results ?? []).map((r) => mapListResult(r, genreMap)),
+    shows: await withShowDetails((data.results ?? []).map((r) => mapListResult(r, genreMap)), options),
     totalPages: data.total_pages ?? 0,
   };
 }
 
-/**
- * Hybrid "top rated" discover: fetch multiple pages sorted by popularity from
- * TMDB (ensuring only well-known shows), then re-sort by vote_average on our
- * server. Returns a virtual page (20 shows) from that re-sorted pool.
- *
- * This avoids the TMDB issue where sorting by vote_average surfaces obscure
- * shows with high ratings but very few votes.
- */
-const RATING_POOL_PAGES = 5;          // 5 TMDB pages = 100 popular shows
-const RATING_PAGE_SIZE  = 20;
-const RATING_MIN_VOTES  = 200;
-
-export async function discoverShowsByRating(options: {
-  genreId?: number;
-  page?: number;                       // virtual page within the re-sorted pool
-  status?: "running" | "ended";
-  ratingMin?: number;
-  language?: string;
-  watchProviderId?: number;            // TMDB provider ID (watch_region=IN implied)
-}): Promise<{ shows: TVMazeShow[]; totalPages: number }> {
-  const { genreId, page = 1, status, ratingMin, language, watchProviderId } = options;
-
-  // Build base params — always fetch by popularity so we get well-known shows
-  const baseParams = new URLSearchParams({
-    sort_by: "popularity.desc",
-  });
-  if (genreId) baseParams.set("with_genres", String(genreId));
-  if (status === "running") baseParams.set("with_status", "0");
-  if (status === "ended") baseParams.set("with_status", "3|4");
-  if (ratingMin) baseParams.set("vote_average.gte", String(ratingMin));
-  if (language) baseParams.set("with_original_language", language);
-  if (watchProviderId) {
-    baseParams.set("with_watch_providers", String(watchProviderId));
-    baseParams.set("watch_region", "IN");
+// ── Rating-ordered discover ───────────────────────────────────────────────────
+// Shows are ranked by a Bayesian weighted rating, which pulls ratings with few
+// votes towards a prior so that 9.0 from 200 votes doesn't outrank 8.9 from
+// 20,000:
+//
+//   score = (votes × rating + PRIOR_VOTES × PRIOR_RATING) / (votes + PRIOR_VOTES)
+//
+// The pool is TMDB discover sorted by vote_average, extended page by page as
+// readers go deeper. A score never exceeds max(rating, PRIOR_RATING), and no
+// show past the fetched pages rates above the last fetched one — so entries
+// scoring above that bound are in their final order, and slices are served
+// from that settled prefix.
+//
+// Pool pages are pinned to a snapshot epoch carried in the cursor, so paging
+// through a snapshot stays stable while TMDB's numbers drift underneath.
+
+const RATING_PAGE_SIZE   = 20;
+const RATING_MIN_VOTES   = 200;      // well-known shows only
+const PRIOR_VOTES        = 200;      // weight of the prior, in votes
+const PRIOR_RATING       = 7.0;      // roughly TMDB's mean TV rating
+const SNAPSHOT_TTL       = 6 * HOUR;
+const MAX_EXTRA_PAGES    = 10;       // pool pages one request may add past the slice
+const TMDB_PAGE_SIZE     = 20;
+const TMDB_MAX_PAGE      = 500;
+
+interface TMDBDiscoverPageRaw {
+  results: TMDBListResultRaw[];
+  total_pages: number;
+  total_results: number;
+}
+
+interface RatingCursor {
+  epoch: number;
+  offset: number;
+}
+
+function encodeRatingCursor(cursor: RatingCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/** Decode a cursor from a previous result — null if malformed */
+function decodeRatingCursor(value: string): RatingCursor | null {
+  try {
+    const { epoch, offset } = JSON.parse(Buffer.from(value, "base64url").toString());
+    return Number.isInteger(epoch) && Number.isInteger(offset) && offset >= 0 ? { epoch, offset } : null;
+  } catch {
+    return null;
   }
-  baseParams.set("vote_count.gte", String(RATING_MIN_VOTES));
+}
 
-  // Fetch multiple pages in parallel
-  const pageNums = Array.from({ length: RATING_POOL_PAGES }, (_, i) => i + 1);
+function weightedRating(r: TMDBListResultRaw): number {
+  const votes = r.vote_count ?? 0;
+  return (votes * r.vote_average + PRIOR_VOTES * PRIOR_RATING) / (votes + PRIOR_VOTES);
+}
 
-  const [pages, genreMap] = await Promise.all([
-    Promise.all(
-      pageNums.map((p) => {
-        const params = new URLSearchParams(baseParams);
-        params.set("page", String(p));
-        return tmdbFetch<{ results: TMDBListResultRaw[]; total_pages: number }>(
-          `/discover/tv?${params.toString()}`,
-          true
-        ).catch(() => ({ results: [] as TMDBListResultRaw[], total_pages: 0 }));
-      })
-    ),
-    getGenreMap(),
-  ]);
+/** A discover page frozen for the snapshot epoch */
+function fetchPoolPage<T>(epoch: number, endpoint: string): Promise<T> {
+  // Kept for two epochs, so cursors from the previous snapshot keep working
+  return cached(`tmdb:rating-pool:${epoch}:${endpoint}`, { ttl: 2 * SNAPSHOT_TTL, staleTtl: 0 }, () =>
+    tmdbRequest<T>(endpoint)
+  );
+}
 
-  // Merge all results, deduplicate by ID, then re-sort by rating desc
-  const seen = new Set<number>();
-  const allShows: TVMazeShow[] = [];
-  for (const p of pages) {
-    for (const r of p.results ?? []) {
-      if (!seen.has(r.id)) {
-        seen.add(r.id);
-        allShows.push(mapListResult(r, genreMap));
-      }
+/**
+ * Rating-ordered discover with stable cursor pagination: pass the previous
+ * result's `nextCursor` as `cursor` to continue its snapshot. Without a
+ * cursor, `page` starts from the current snapshot.
+ */
+export async function discoverShowsByRating(
+  options: Omit<DiscoverOptions, "sortBy" | "voteCountMin">
+): Promise<DiscoverResult> {
+  const { page = 1, locale } = options;
+  const currentEpoch = Math.floor(Date.now() / SNAPSHOT_TTL);
+  const cursor = options.cursor ? decodeRatingCursor(options.cursor) : null;
+  // Older snapshots may be evicted — continue at the same offset in the current one
+  const epoch = cursor && cursor.epoch >= currentEpoch - 1 ? cursor.epoch : currentEpoch;
+  const offset = cursor?.offset ?? (page - 1) * RATING_PAGE_SIZE;
+  const wanted = offset + RATING_PAGE_SIZE;
+
+  const baseParams = discoverParams(options, { sort_by: "vote_average.desc" });
+  baseParams.set("vote_count.gte", String(RATING_MIN_VOTES));
+  const fetchPage = (p: number) => {
+    const params = new URLSearchParams(baseParams);
+    params.set("page", String(p));
+    return tmdbFetchLocalized<TMDBDiscoverPageRaw>(
+      `/discover/tv?${params.toString()}`,
+      locale,
+      fillResults,
+      (endpoint) => fetchPoolPage(epoch, endpoint)
+    );
+  };
+
+  // Grow the pool until the requested slice has settled
+  const pool: TMDBListResultRaw[] = [];
+  let lastPage = TMDB_MAX_PAGE;
+  let totalResults = 0;
+  let fetched = 0;
+  let ranked: TMDBListResultRaw[] = [];
+  for (let target = Math.ceil(wanted / TMDB_PAGE_SIZE); ; target = fetched + 1) {
+    const pageNums = [];
+    for (let p = fetched + 1; p <= Math.min(target, lastPage); p++) pageNums.push(p);
+    for (const data of await Promise.all(pageNums.map(fetchPage))) {
+      pool.push(...(data.results ?? []));
+      lastPage = Math.min(data.total_pages ?? 0, TMDB_MAX_PAGE);
+      totalResults = data.total_results ?? 0;
+    }
+    fetched += pageNums.length;
+
+    const exhausted = fetched >= lastPage;
+    const bound = exhausted ? -Infinity : Math.max(pool[pool.length - 1]?.vote_average ?? 0, PRIOR_RATING);
+    const scored = pool
+      .map((raw) => ({ raw, score: weightedRating(raw) }))
+      .sort((a, b) => b.score - a.score || b.raw.vote_count - a.raw.vote_count || a.raw.id - b.raw.id);
+    const settled = scored.filter((s) => s.score >= bound);
+    // Past the extra-page budget, serve the best order known so far
+    if (exhausted || settled.length >= wanted || fetched >= Math.ceil(wanted / TMDB_PAGE_SIZE) + MAX_EXTRA_PAGES) {
+      ranked = (settled.length >= wanted ? settled : scored).map((s) => s.raw);
+      break;
     }
   }
 
-  allShows.sort((a, b) => (b.rating.average ?? 0) - (a.rating.average ?? 0));
+  const genreMap = await getGenreMap();
+  const slice = ranked.slice(offset, wanted);
+  const hasMore = offset + slice.length < Math.min(totalResults, TMDB_MAX_PAGE * TMDB_PAGE_SIZE);
+
+  // Count bounds can leave a slice short — the cursor still advances past it
+  return {
+    shows: await withShowDetails(slice.map((r) => mapListResult(r, genreMap)), options),
+    totalPages: Math.ceil(Math.min(totalResults, TMDB_MAX_PAGE * TMDB_PAGE_SIZE) / RATING_PAGE_SIZE),
+    nextCursor: hasMore && slice.length > 0
+      ? encodeRatingCursor({ epoch, offset: offset + slice.length })
+      : null,
+  };
+}
+
+// ── Discover facets (keyword / network filters) ──────────────────────────────
+
+/** Keywords matching a query, e.g. "time travel" → [{ id: 4379, ... }] */
+async function searchKeywords(query: string): Promise<DiscoverFacet[]> {
+  if (!query.trim()) return [];
+  const data = await tmdbFetch<{ results: { id: number; name: string }[] }>(
+    `/search/keyword?query=${encodeURIComponent(query)}&page=1`
+  );
+  return (data.results ?? []).map((k) => ({ id: k.id, name: k.name }));
+}
 
-  // Virtual pagination: slice the re-sorted pool
-  const totalShows = allShows.length;
-  const totalPages = Math.ceil(totalShows / RATING_PAGE_SIZE);
-  const start = (page - 1) * RATING_PAGE_SIZE;
-  const shows = allShows.slice(start, start + RATING_PAGE_SIZE);
+// TMDB has no network search endpoint, so autocomplete searches a curated
+// list of major networks; any other ID still works and is named via /network/{id}
+const NETWORKS: DiscoverFacet[] = [
+  { id: 49,   name: "HBO"            },
+  { id: 3186, name: "Max"            },
+  { id: 213,  name: "Netflix"        },
+  { id: 1024, name: "Prime Video"    },
+  { id: 2552, name: "Apple TV+"      },
+  { id: 2739, name: "Disney+"        },
+  { id: 453,  name: "Hulu"           },
+  { id: 4330, name: "Paramount+"     },
+  { id: 3353, name: "Peacock"        },
+  { id: 174,  name: "AMC"            },
+  { id: 88,   name: "FX"             },
+  { id: 67,   name: "Showtime"       },
+  { id: 318,  name: "Starz"          },
+  { id: 6,    name: "NBC"            },
+  { id: 16,   name: "CBS"            },
+  { id: 2,    name: "ABC"            },
+  { id: 19,   name: "FOX"            },
+  { id: 71,   name: "The CW"         },
+  { id: 77,   name: "Syfy"           },
+  { id: 47,   name: "Comedy Central" },
+  { id: 80,   name: "Adult Swim"     },
+  { id: 4,    name: "BBC One"        },
+  { id: 332,  name: "BBC Two"        },
+  { id: 3,    name: "BBC Three"      },
+  { id: 26,   name: "Channel 4"      },
+  { id: 9,    name: "ITV1"           },
+  { id: 866,  name: "tvN"            },
+  { id: 885,  name: "JTBC"           },
+];
+
+function searchNetworks(query: string): DiscoverFacet[] {
+  const q = query.trim().toLowerCase();
+  return NETWORKS.filter((n) => n.name.toLowerCase().includes(q));
+}
 
-  return { shows, totalPages };
+/**
+ * Autocomplete for the keyword / network discover filters. An empty query
+ * lists the curated networks, so the network picker has options up front.
+ */
+export async function searchDiscoverFacets(
+  type: DiscoverFacetType,
+  query: string
+): Promise<DiscoverFacet[]> {
+  return type === "keyword" ? searchKeywords(query) : searchNetworks(query);
+}
+
+/** Names for keyword or network IDs (e.g. from a shared URL); unknown IDs are dropped */
+export async function getDiscoverFacets(
+  type: DiscoverFacetType,
+  ids: number[]
+): Promise<DiscoverFacet[]> {
+  const facets = await Promise.all(
+    ids.map(async (id) => {
+      const known = type === "network" ? NETWORKS.find((n) => n.id === id) : undefined;
+      if (known) return known;
+      try {
+        const raw = await tmdbFetch<{ id: number; name: string }>(`/${type}/${id}`);
+        return { id: raw.id, name: raw.name };
+      } catch {
+        return null;
+      }
+    })
+  );
+  return facets.filter((f): f is DiscoverFacet => f !== null);
 }
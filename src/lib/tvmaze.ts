@@ -1,17 +1,51 @@
+/**
+ * TVMaze API layer — fallback metadata provider (no API key required).
+ * Used by metadata.ts when TMDB_API_KEY is missing or TMDB is unreachable.
+ *
+ * TVMaze has no discover endpoint or streaming availability data, so
+ * discover is approximated by filtering the paginated show index and
+ * watch providers are always empty.
+ */
+
 import type {
+  TVMazeImage,
   TVMazeSearchResult,
+  SearchPage,
+  SearchSuggestion,
   TVMazeShow,
   TVMazeEpisode,
   TVMazeScheduleEntry,
+  ShowSeasonMeta,
+  WatchProvider,
+  WatchProviders,
+  WatchRegion,
+  ShowBundle,
+  ShowCredits,
+  ShowExternalIds,
+  PersonCredit,
+  PersonDetail,
+  ShowVideo,
+  DiscoverOptions,
+  DiscoverResult,
+  DiscoverFacet,
 } from "@/types";
 
 const BASE_URL = "https://api.tvmaze.com";
 
+/** A TVMaze 404 — kept apart so pages can tell a missing show from an outage */
+export class TVMazeNotFoundError extends Error {
+  constructor(endpoint: string) {
+    super(`TVMaze resource not found (${endpoint})`);
+    this.name = "TVMazeNotFoundError";
+  }
+}
+
 async function fetchFromTVMaze<T>(endpoint: string): Promise<T> {
   const res = await fetch(`${BASE_URL}${endpoint}`, {
     next: { revalidate: 3600 },
   });
 
+  if (res.status === 404) throw new TVMazeNotFoundError(endpoint);
   if (!res.ok) {
     throw new Error(`TVMaze API error: ${res.status} ${res.statusText}`);
   }
@@ -19,6 +53,126 @@ async function fetchFromTVMaze<T>(endpoint: string): Promise<T> {
   return res.json();
 }
 
+// ── Raw TVMaze response shapes (internal only) ────────────────────────────────
+
+interface TVMazeSeasonRaw {
+  id: number;
+  number: number;
+  premiereDate: string | null;
+  /** Episodes in the season, once announced */
+  episodeOrder: number | null;
+}
+
+interface TVMazePersonRaw {
+  id: number;
+  name: string;
+  image: TVMazeImage | null;
+  birthday?: string | null;
+  deathday?: string | null;
+  country?: { name: string } | null;
+}
+
+type TVMazeCastRaw = { person: TVMazePersonRaw; character: { name: string } }[];
+type TVMazeCrewRaw = { type: string; person: TVMazePersonRaw }[];
+
+interface TVMazeShowWithEmbedsRaw extends TVMazeShow {
+  _embedded?: {
+    nextepisode?: TVMazeEpisode;
+    previousepisode?: TVMazeEpisode;
+    seasons?: TVMazeSeasonRaw[];
+    cast?: TVMazeCastRaw;
+    crew?: TVMazeCrewRaw;
+    akas?: { name: string }[];
+  };
+}
+
+interface TVMazeCastCreditRaw {
+  _embedded: { show: TVMazeShow; character?: { name: string } };
+}
+
+interface TVMazeCrewCreditRaw {
+  type: string;
+  _embedded: { show: TVMazeShow };
+}
+
+// ── TMDB filter → TVMaze mapping ──────────────────────────────────────────────
+// Discover options carry TMDB genre IDs and ISO language codes; TVMaze uses
+// its own genre names and full language names.
+
+const TMDB_GENRE_TO_TVMAZE: Record<number, string[]> = {
+  18:    ["Drama"],
+  35:    ["Comedy"],
+  80:    ["Crime", "Legal"],
+  10765: ["Science-Fiction", "Fantasy", "Supernatural"],
+  10759: ["Action", "Adventure"],
+  9648:  ["Mystery", "Thriller"],
+  16:    ["Anime"],
+  99:    ["History", "Nature"],
+  10762: ["Children"],
+  10751: ["Family"],
+  10768: ["War", "Espionage"],
+  37:    ["Western"],
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English", hi: "Hindi",    ta: "Tamil",   te: "Telugu",
+  ml: "Malayalam", kn: "Kannada", ko: "Korean", ja: "Japanese",
+  fr: "French",  es: "Spanish",  de: "German",  zh: "Chinese",
+  pt: "Portuguese",
+};
+
+const INDEX_PAGE_SIZE = 20;
+
+function matchesDiscoverOptions(show: TVMazeShow, options: DiscoverOptions): boolean {
+  const {
+    genreIds, genreMatch, excludeGenreIds, status, ratingMin, language, originCountry, yearFrom, yearTo,
+    runtimeMin, runtimeMax,
+  } = options;
+  // A TMDB genre matches if the show has any of its TVMaze equivalents
+  const hasGenre = (id: number) =>
+    show.genres.some((g) => (TMDB_GENRE_TO_TVMAZE[id] ?? []).includes(g));
+  if (genreIds?.length) {
+    const matched = genreMatch === "any" ? genreIds.some(hasGenre) : genreIds.every(hasGenre);
+    if (!matched) return false;
+  }
+  if (excludeGenreIds?.some(hasGenre)) return false;
+  if (status === "running" && show.status !== "Running") return false;
+  if (status === "ended" && show.status !== "Ended") return false;
+  if (ratingMin && (show.rating.average ?? 0) < ratingMin) return false;
+  if (language && show.language !== (LANGUAGE_NAMES[language] ?? language)) return false;
+  if (originCountry) {
+    const country = (show.network ?? show.webChannel)?.country?.code;
+    if (country !== originCountry) return false;
+  }
+  if (yearFrom || yearTo) {
+    const year = show.premiered ? Number(show.premiered.slice(0, 4)) : null;
+    if (!year || (yearFrom && year < yearFrom) || (yearTo && year > yearTo)) return false;
+  }
+  if (runtimeMin || runtimeMax) {
+    const runtime = show.averageRuntime ?? show.runtime;
+    if (!runtime || (runtimeMin && runtime < runtimeMin) || (runtimeMax && runtime > runtimeMax)) return false;
+  }
+  return true;
+}
+
+function sortShows(shows: TVMazeShow[], sortBy: string): TVMazeShow[] {
+  const sorted = shows.slice();
+  switch (sortBy) {
+    case "vote_average.desc":
+      return sorted.sort((a, b) => (b.rating.average ?? 0) - (a.rating.average ?? 0));
+    case "first_air_date.desc":
+      return sorted.sort((a, b) => (b.premiered ?? "").localeCompare(a.premiered ?? ""));
+    case "first_air_date.asc":
+      return sorted.sort((a, b) => (a.premiered ?? "").localeCompare(b.premiered ?? ""));
+    case "name.asc":
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    default:
+      return sorted.sort((a, b) => b.weight - a.weight);
+  }
+}
+
+// ── Public API (implements MetadataProvider, see metadata.ts) ─────────────────
+
 /** Search shows by query string */
 export async function searchShows(
   query: string
@@ -28,6 +182,41 @@ export async function searchShows(
   );
 }
 
+/** TVMaze search isn't paginated — everything (at most 10) is page 1 */
+export async function searchShowsPage(query: string, page: number): Promise<SearchPage> {
+  const results = page === 1 ? await searchShows(query) : [];
+  return { results, page, totalPages: 1 };
+}
+
+/** Typeahead: best show and people matches, interleaved by relevance score */
+export async function searchSuggestions(query: string): Promise<SearchSuggestion[]> {
+  const [shows, people] = await Promise.all([
+    searchShows(query),
+    fetchFromTVMaze<{ score: number; person: TVMazePersonRaw }[]>(
+      `/search/people?q=${encodeURIComponent(query)}`
+    ),
+  ]);
+
+  const scored: { score: number; suggestion: SearchSuggestion }[] = [
+    ...shows.map((r) => ({ score: r.score, suggestion: { type: "show" as const, show: r.show } })),
+    ...people.map((r) => ({
+      score: r.score,
+      suggestion: {
+        type: "person" as const,
+        person: {
+          id:                 r.person.id,
+          name:               r.person.name,
+          profileImage:       r.person.image?.medium ?? null,
+          // Search results don't include credits
+          knownForDepartment: null,
+          knownFor:           [],
+        },
+      },
+    })),
+  ];
+  return scored.sort((a, b) => b.score - a.score).map((s) => s.suggestion);
+}
+
 /** Get full show details by TVMaze ID */
 export async function getShow(id: number): Promise<TVMazeShow> {
   return fetchFromTVMaze<TVMazeShow>(`/shows/${id}`);
@@ -40,9 +229,24 @@ export async function getShowWithNextEpisode(
   return fetchFromTVMaze<TVMazeShow>(`/shows/${id}?embed=nextepisode`);
 }
 
-/** Get all episodes for a show */
+/**
+ * TVMaze files specials under the season they aired in, with `number: null`.
+ * Move them to season 0 (numbered in air order) so they match TMDB and can
+ * be tracked in watch_progress like any other episode.
+ */
+function normalizeSpecials(episodes: TVMazeEpisode[]): TVMazeEpisode[] {
+  let specialNumber = 0;
+  return episodes.map((ep) =>
+    ep.number === null ? { ...ep, season: 0, number: ++specialNumber } : ep
+  );
+}
+
+/** Get all episodes for a show, specials included as season 0 */
 export async function getEpisodes(showId: number): Promise<TVMazeEpisode[]> {
-  return fetchFromTVMaze<TVMazeEpisode[]>(`/shows/${showId}/episodes`);
+  const episodes = await fetchFromTVMaze<TVMazeEpisode[]>(
+    `/shows/${showId}/episodes?specials=1`
+  );
+  return normalizeSpecials(episodes);
 }
 
 /** Get the TV schedule for a specific date and country */
@@ -57,5 +261,269 @@ export async function getSchedule(
 
 /** Get popular shows sorted by TVMaze weight (page 0 = top ~250 shows) */
 export async function getPopularShows(): Promise<TVMazeShow[]> {
-  return fetchFromTVMaze<TVMazeShow[]>("/shows?page=0");
+  const shows = await fetchFromTVMaze<TVMazeShow[]>("/shows?page=0");
+  return sortShows(shows, "popularity.desc");
+}
+
+/** Get top-rated shows from the first index page (20 results, well-known shows only) */
+export async function getTopRatedShows(): Promise<TVMazeShow[]> {
+  const shows = await fetchFromTVMaze<TVMazeShow[]>("/shows?page=0");
+  return sortShows(
+    shows.filter((s) => s.weight >= 90),
+    "vote_average.desc"
+  ).slice(0, 20);
+}
+
+/** Lightweight metadata fetch — mirrors tmdb.getShowSeasonMeta for enrichment */
+export async function getShowSeasonMeta(id: number): Promise<ShowSeasonMeta | null> {
+  try {
+    const raw = await fetchFromTVMaze<TVMazeShowWithEmbedsRaw>(
+      `/shows/${id}?embed[]=seasons&embed[]=nextepisode&embed[]=previousepisode&embed[]=akas`
+    );
+    const seasons = (raw._embedded?.seasons ?? []).filter((s) => s.number > 0);
+    const latestSeason = seasons
+      .filter((s) => s.premiereDate)
+      .sort((a, b) => b.number - a.number)[0];
+    const next = raw._embedded?.nextepisode;
+    const prev = raw._embedded?.previousepisode;
+
+    return {
+      tmdbId: raw.id,
+      nextEpisode: next && next.number !== null
+        ? { seasonNumber: next.season, episodeNumber: next.number, airDate: next.airdate || null }
+        : null,
+      lastEpisode: prev && prev.number !== null
+        ? { seasonNumber: prev.season, episodeNumber: prev.number, airDate: prev.airdate || null }
+        : null,
+      numberOfSeasons: seasons.length,
+      // Specials aren't listed per season on TVMaze — only known from the episode list
+      specialsCount: 0,
+      releasedSpecialsCount: 0,
+      // Earlier seasons in full, plus the last aired episode's place in its season
+      releasedEpisodeCount: prev && prev.number !== null
+        ? seasons
+            .filter((s) => s.number < prev.season)
+            .reduce((sum, s) => sum + (s.episodeOrder ?? 0), prev.number)
+        : 0,
+      latestSeasonAirDate: latestSeason?.premiereDate ?? null,
+      isRunning: raw.status === "Running",
+      genres: raw.genres ?? [],
+      alternativeTitles: Array.from(
+        new Set((raw._embedded?.akas ?? []).map((a) => a.name).filter((n) => n !== raw.name))
+      ),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** TVMaze doesn't report per-person episode counts, so those are always 0 */
+function mapCredits(cast: TVMazeCastRaw, crew: TVMazeCrewRaw): ShowCredits {
+  return {
+    cast: cast.map((c) => ({
+      id:           c.person.id,
+      name:         c.person.name,
+      character:    c.character.name,
+      profileImage: c.person.image?.medium ?? null,
+      episodeCount: 0,
+    })),
+    crew: crew.map((c) => ({
+      id:           c.person.id,
+      name:         c.person.name,
+      job:          c.type,
+      department:   c.type,
+      profileImage: c.person.image?.medium ?? null,
+      episodeCount: 0,
+    })),
+  };
+}
+
+/** Main cast and crew for a show */
+export async function getShowCredits(id: number): Promise<ShowCredits> {
+  const [cast, crew] = await Promise.all([
+    fetchFromTVMaze<TVMazeCastRaw>(`/shows/${id}/cast`),
+    fetchFromTVMaze<TVMazeCrewRaw>(`/shows/${id}/crew`),
+  ]);
+  return mapCredits(cast, crew);
+}
+
+/**
+ * Show with embedded cast/crew, plus the episode list (fetched separately
+ * because embedded episodes can't include specials)
+ */
+export async function getShowBundle(id: number): Promise<ShowBundle> {
+  const [raw, episodes] = await Promise.all([
+    fetchFromTVMaze<TVMazeShowWithEmbedsRaw>(
+      `/shows/${id}?embed[]=cast&embed[]=crew&embed[]=nextepisode`
+    ),
+    getEpisodes(id),
+  ]);
+  const { cast = [], crew = [], nextepisode } = raw._embedded ?? {};
+
+  return {
+    show: { ...raw, _embedded: nextepisode ? { nextepisode } : undefined },
+    episodes,
+    watchProviders: await getWatchProviders(),
+    credits: mapCredits(cast, crew),
+    externalIds: {
+      imdb:     raw.externals?.imdb ?? null,
+      tvdb:     raw.externals?.thetvdb ?? null,
+      tvrage:   raw.externals?.tvrage ?? null,
+      wikidata: null,
+    },
+  };
+}
+
+/** Person details with cast and crew credits (TVMaze has no biographies) */
+export async function getPerson(id: number): Promise<PersonDetail> {
+  const [person, castCredits, crewCredits] = await Promise.all([
+    fetchFromTVMaze<TVMazePersonRaw>(`/people/${id}`),
+    fetchFromTVMaze<TVMazeCastCreditRaw[]>(
+      `/people/${id}/castcredits?embed[]=show&embed[]=character`
+    ),
+    fetchFromTVMaze<TVMazeCrewCreditRaw[]>(`/people/${id}/crewcredits?embed=show`),
+  ]);
+
+  const byShow = new Map<number, PersonCredit>();
+  const addCredit = (show: TVMazeShow, role: string | undefined) => {
+    const existing = byShow.get(show.id);
+    if (existing) {
+      if (role && !existing.roles.includes(role)) existing.roles.push(role);
+    } else {
+      byShow.set(show.id, { show, roles: role ? [role] : [], episodeCount: 0 });
+    }
+  };
+  castCredits.forEach((c) => addCredit(c._embedded.show, c._embedded.character?.name));
+  crewCredits.forEach((c) => addCredit(c._embedded.show, c.type));
+
+  return {
+    id:                 person.id,
+    name:               person.name,
+    biography:          null,
+    profileImage:       person.image?.original ?? person.image?.medium ?? null,
+    knownForDepartment: castCredits.length > 0 ? "Acting" : crewCredits[0]?.type ?? null,
+    birthday:           person.birthday ?? null,
+    deathday:           person.deathday ?? null,
+    placeOfBirth:       person.country?.name ?? null,
+    // No episode counts — order by show popularity instead
+    credits: Array.from(byShow.values()).sort((a, b) => b.show.weight - a.show.weight),
+  };
+}
+
+/**
+ * TVMaze has no recommendations — approximate with well-known shows from the
+ * first index page sharing the most genres with this one
+ */
+export async function getRelatedShows(id: number, limit = 20): Promise<TVMazeShow[]> {
+  const [show, indexPage] = await Promise.all([
+    getShow(id),
+    fetchFromTVMaze<TVMazeShow[]>("/shows?page=0"),
+  ]);
+  const overlap = (s: TVMazeShow) => s.genres.filter((g) => show.genres.includes(g)).length;
+  return indexPage
+    .filter((s) => s.id !== id && overlap(s) > 0)
+    .sort((a, b) => overlap(b) - overlap(a) || b.weight - a.weight)
+    .slice(0, limit);
+}
+
+/** TVMaze has no video data — always empty */
+export async function getShowVideos(): Promise<ShowVideo[]> {
+  return [];
+}
+
+/** IMDb / TVDB / TVRage IDs from the show's `externals` */
+export async function getExternalIds(id: number): Promise<ShowExternalIds> {
+  const show = await getShow(id);
+  return {
+    imdb:     show.externals?.imdb ?? null,
+    tvdb:     show.externals?.thetvdb ?? null,
+    tvrage:   show.externals?.tvrage ?? null,
+    wikidata: null,
+  };
+}
+
+/**
+ * Find the TVMaze ID for a show by TVDB or IMDb ID (TVDB first — it's the
+ * more reliable match). Returns null when TVMaze doesn't know the show.
+ */
+export async function lookupShowId(ids: Pick<ShowExternalIds, "imdb" | "tvdb">): Promise<number | null> {
+  const queries = [
+    ids.tvdb ? `thetvdb=${ids.tvdb}` : null,
+    ids.imdb ? `imdb=${encodeURIComponent(ids.imdb)}` : null,
+  ].filter((q): q is string => q !== null);
+
+  for (const query of queries) {
+    try {
+      // Redirects to /shows/{id} on a match, 404 otherwise
+      const show = await fetchFromTVMaze<TVMazeShow>(`/lookup/shows?${query}`);
+      return show.id;
+    } catch {
+      // Try the next ID
+    }
+  }
+  return null;
+}
+
+/** TVMaze has no streaming availability data — always empty */
+export async function getWatchProviders(): Promise<WatchProviders> {
+  return { flatrate: [], buy: [], rent: [], link: null };
+}
+
+/** No streaming availability data — no providers or regions */
+export async function getRegionProviders(): Promise<WatchProvider[]> {
+  return [];
+}
+
+export async function getWatchRegions(): Promise<WatchRegion[]> {
+  return [];
+}
+
+/**
+ * Approximate discover: filter one page of the TVMaze show index (250 shows
+ * ordered by ID) and return up to 20 matches. Provider, keyword and network
+ * filters use TMDB IDs, and the index has no episode / season counts, so those
+ * filters can't be honoured — they yield no results and let the caller's
+ * fallback relax them.
+ */
+export async function discoverShows(options: DiscoverOptions): Promise<DiscoverResult> {
+  const { page = 1, sortBy = "popularity.desc", voteCountMin, watchProviderIds } = options;
+  const { keywordIds, networkIds, episodesMin, episodesMax, seasonsMin, seasonsMax } = options;
+  if (
+    watchProviderIds?.length || keywordIds?.length || networkIds?.length ||
+    episodesMin || episodesMax || seasonsMin || seasonsMax
+  ) {
+    return { shows: [], totalPages: 0 };
+  }
+
+  let indexPage: TVMazeShow[];
+  try {
+    indexPage = await fetchFromTVMaze<TVMazeShow[]>(`/shows?page=${page - 1}`);
+  } catch {
+    // TVMaze returns 404 past the last index page
+    return { shows: [], totalPages: page - 1 };
+  }
+
+  const matches = indexPage.filter(
+    (s) => matchesDiscoverOptions(s, options) && (!voteCountMin || s.weight >= 50)
+  );
+  return {
+    shows: sortShows(matches, sortBy).slice(0, INDEX_PAGE_SIZE),
+    totalPages: indexPage.length > 0 ? page + 1 : page - 1,
+  };
+}
+
+/** Rating-sorted discover — same index scan, ordered by rating */
+export async function discoverShowsByRating(
+  options: Omit<DiscoverOptions, "sortBy" | "voteCountMin">
+): Promise<DiscoverResult> {
+  return discoverShows({ ...options, sortBy: "vote_average.desc", voteCountMin: 1 });
+}
+
+/** No keyword / network catalogue — those discover filters are TMDB-only */
+export async function searchDiscoverFacets(): Promise<DiscoverFacet[]> {
+  return [];
+}
+
+export async function getDiscoverFacets(): Promise<DiscoverFacet[]> {
+  return [];
 }
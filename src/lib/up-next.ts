@@ -0,0 +1,90 @@
+/**
+ * Up Next — the next unwatched released episode(s) of each show the user is
+ * watching, from `watch_progress` plus the provider's episode lists.
+ *
+ * Used by the dashboard's Continue Watching rail and /api/up-next, which
+ * refills a show's queue once the dashboard has marked its lookahead watched.
+ */
+
+import { getMetadataProvider } from "@/lib/metadata";
+import { episodeKey } from "@/lib/watch-progress";
+import type { TVMazeEpisode, UpNext, UserShow } from "@/types";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/** Episodes sent per show — marking them watched needs no round trip */
+const LOOKAHEAD = 5;
+
+/** Map key for a stored show — IDs alone can collide across providers */
+function refKey(provider: string, externalId: number): string {
+  return `${provider}:${externalId}`;
+}
+
+function isReleased(ep: TVMazeEpisode, now: Date): boolean {
+  return !!ep.airdate && new Date(ep.airdate + "T00:00:00") <= now;
+}
+
+/**
+ * Unwatched released episodes in viewing order. Specials (season 0) have no
+ * place in that order, so they're left out whatever the user's settings.
+ */
+function upNextFrom(episodes: TVMazeEpisode[], watched: Set<string>): UpNext {
+  const now = new Date();
+  const unwatched = episodes
+    .filter((ep) => ep.season > 0 && ep.number !== null && isReleased(ep, now))
+    .filter((ep) => !watched.has(episodeKey(ep.season, ep.number!)))
+    .sort((a, b) => a.season - b.season || a.number! - b.number!);
+
+  return {
+    episodes: unwatched.slice(0, LOOKAHEAD).map((ep) => ({
+      season:  ep.season,
+      number:  ep.number!,
+      name:    ep.name,
+      image:   ep.image?.medium ?? ep.image?.original ?? null,
+      airdate: ep.airdate,
+    })),
+    remaining: unwatched.length,
+  };
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Up Next for each of `shows` that has unwatched released episodes, in the
+ * order given. Shows saved under another provider, or whose episode list
+ * can't be fetched, are left out.
+ */
+export async function getUpNextQueue<T extends UserShow>(
+  shows: T[],
+  supabase: SupabaseClient,
+  locale?: string
+): Promise<Array<UpNext & { show: T }>> {
+  const metadata = getMetadataProvider();
+  const current = shows.filter((s) => s.provider === metadata.name);
+  if (current.length === 0) return [];
+
+  const [episodeResults, progressResult] = await Promise.all([
+    Promise.allSettled(current.map((s) => metadata.getEpisodes(s.external_id, locale))),
+    supabase
+      .from("watch_progress")
+      .select("provider, external_id, season, episode")
+      .in("external_id", current.map((s) => s.external_id)),
+  ]);
+
+  const watchedMap = new Map<string, Set<string>>();
+  for (const row of progressResult.data ?? []) {
+    const key = refKey(row.provider, row.external_id);
+    const watched = watchedMap.get(key) ?? new Set<string>();
+    watched.add(episodeKey(row.season, row.episode));
+    watchedMap.set(key, watched);
+  }
+
+  const queue: Array<UpNext & { show: T }> = [];
+  current.forEach((show, i) => {
+    const result = episodeResults[i];
+    if (result.status !== "fulfilled") return;
+    const watched = watchedMap.get(refKey(show.provider, show.external_id)) ?? new Set<string>();
+    const upNext = upNextFrom(result.value, watched);
+    if (upNext.remaining > 0) queue.push({ ...upNext, show });
+  });
+  return queue;
+}
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryClient, createMemoryDatabase, type MemoryDatabase } from "@/lib/supabase/memory";
+import {
+  episodeKey,
+  fetchWatchedEpisodes,
+  isAllWatched,
+  loadWatchedEpisodes,
+  markEpisodeWatched,
+} from "@/lib/watch-progress";
+
+const show = { provider: "tmdb", id: 70523 } as const;
+
+const released = [
+  { season: 1, episode: 1 },
+  { season: 1, episode: 2 },
+  { season: 1, episode: 3 },
+];
+
+describe("watch progress", () => {
+  let db: MemoryDatabase;
+
+  beforeEach(() => {
+    db = createMemoryDatabase();
+  });
+
+  it("is all watched only once the last released episode is marked", async () => {
+    const supabase = createMemoryClient(db, "alice");
+    await markEpisodeWatched(show, 1, 1, supabase);
+    await markEpisodeWatched(show, 1, 2, supabase);
+    expect(isAllWatched(await fetchWatchedEpisodes(show, supabase), released)).toBe(false);
+
+    await markEpisodeWatched(show, 1, 3, supabase);
+    expect(isAllWatched(await fetchWatchedEpisodes(show, supabase), released)).toBe(true);
+  });
+
+  it("never counts a show with no released episodes as all watched", () => {
+    expect(isAllWatched(new Set(), [])).toBe(false);
+  });
+
+  it("backfills every released episode for a completed show with no progress", async () => {
+    const supabase = createMemoryClient(db, "alice");
+    const watched = await loadWatchedEpisodes(show, "completed", released, supabase);
+
+    expect(watched).toEqual(new Set(["S1E1", "S1E2", "S1E3"]));
+    expect(db.tables.get("watch_progress")).toHaveLength(3);
+  });
+
+  it("doesn't backfill a completed show that already has progress", async () => {
+    const supabase = createMemoryClient(db, "alice");
+    await markEpisodeWatched(show, 1, 1, supabase);
+
+    const watched = await loadWatchedEpisodes(show, "completed", released, supabase);
+    expect(watched).toEqual(new Set([episodeKey(1, 1)]));
+    expect(db.tables.get("watch_progress")).toHaveLength(1);
+  });
+
+  it("doesn't backfill shows that aren't completed", async () => {
+    const supabase = createMemoryClient(db, "alice");
+    const watched = await loadWatchedEpisodes(show, "watching", released, supabase);
+
+    expect(watched.size).toBe(0);
+    expect(db.tables.get("watch_progress")).toHaveLength(0);
+  });
+
+  it("keeps each user's progress to themselves", async () => {
+    await markEpisodeWatched(show, 1, 1, createMemoryClient(db, "alice"));
+    expect((await fetchWatchedEpisodes(show, createMemoryClient(db, "bob"))).size).toBe(0);
+  });
+});
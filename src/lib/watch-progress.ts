@@ -1,9 +1,15 @@
 /**
  * Watch Progress — Supabase CRUD helpers for the `watch_progress` table.
- * All functions use the browser Supabase client and handle auth internally.
+ * All functions use the browser Supabase client and handle auth internally;
+ * pass a client as the last argument to use another (e.g. lib/supabase/memory.ts).
  */
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/client";
+import { showRefColumns, type ShowRef } from "@/lib/show-ref";
+import type { ShowStatus } from "@/types";
+
+type EpisodeRef = { season: number; episode: number };
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -12,8 +18,7 @@ export function episodeKey(season: number, episode: number): string {
   return `S${season}E${episode}`;
 }
 
-async function getUser() {
-  const supabase = createClient();
+async function getUser(supabase: SupabaseClient = createClient()) {
   const {
     data: { user },
   } = await supabase.auth.getUser();
@@ -28,15 +33,16 @@ async function getUser() {
  * Returns a Set of episode keys like "S1E3", "S2E1", etc.
  */
 export async function fetchWatchedEpisodes(
-  showId: number
+  show: ShowRef,
+  client?: SupabaseClient
 ): Promise<Set<string>> {
-  const { supabase, user } = await getUser();
+  const { supabase, user } = await getUser(client);
 
   const { data, error } = await supabase
     .from("watch_progress")
     .select("season, episode")
     .eq("user_id", user.id)
-    .eq("tvmaze_show_id", showId);
+    .match(showRefColumns(show));
 
   if (error) {
     console.error("Failed to fetch watch progress:", error);
@@ -50,20 +56,21 @@ export async function fetchWatchedEpisodes(
 
 /** Mark a single episode as watched (idempotent via upsert) */
 export async function markEpisodeWatched(
-  showId: number,
+  show: ShowRef,
   season: number,
-  episode: number
+  episode: number,
+  client?: SupabaseClient
 ): Promise<void> {
-  const { supabase, user } = await getUser();
+  const { supabase, user } = await getUser(client);
 
   const { error } = await supabase.from("watch_progress").upsert(
     {
       user_id: user.id,
-      tvmaze_show_id: showId,
+      ...showRefColumns(show),
       season,
       episode,
     },
-    { onConflict: "user_id,tvmaze_show_id,season,episode" }
+    { onConflict: "user_id,provider,external_id,season,episode" }
   );
 
   if (error) throw error;
@@ -71,17 +78,18 @@ export async function markEpisodeWatched(
 
 /** Unmark a single episode as watched */
 export async function unmarkEpisodeWatched(
-  showId: number,
+  show: ShowRef,
   season: number,
-  episode: number
+  episode: number,
+  client?: SupabaseClient
 ): Promise<void> {
-  const { supabase, user } = await getUser();
+  const { supabase, user } = await getUser(client);
 
   const { error } = await supabase
     .from("watch_progress")
     .delete()
     .eq("user_id", user.id)
-    .eq("tvmaze_show_id", showId)
+    .match(showRefColumns(show))
     .eq("season", season)
     .eq("episode", episode);
 
@@ -90,42 +98,45 @@ export async function unmarkEpisodeWatched(
 
 /** Batch-mark an entire season as watched (idempotent via upsert) */
 export async function markSeasonWatched(
-  showId: number,
-  episodes: { season: number; episode: number }[]
+  show: ShowRef,
+  episodes: EpisodeRef[],
+  client?: SupabaseClient
 ): Promise<void> {
   if (episodes.length === 0) return;
-  const { supabase, user } = await getUser();
+  const { supabase, user } = await getUser(client);
 
   const rows = episodes.map((ep) => ({
     user_id: user.id,
-    tvmaze_show_id: showId,
+    ...showRefColumns(show),
     season: ep.season,
     episode: ep.episode,
   }));
 
   const { error } = await supabase
     .from("watch_progress")
-    .upsert(rows, { onConflict: "user_id,tvmaze_show_id,season,episode" });
+    .upsert(rows, { onConflict: "user_id,provider,external_id,season,episode" });
 
   if (error) throw error;
 }
 
 /** Batch-mark all released episodes as watched (used by "Mark Completed") */
 export async function markAllWatched(
-  showId: number,
-  episodes: { season: number; episode: number }[]
+  show: ShowRef,
+  episodes: EpisodeRef[],
+  client?: SupabaseClient
 ): Promise<void> {
   // Same implementation as markSeasonWatched — just semantically separate
-  return markSeasonWatched(showId, episodes);
+  return markSeasonWatched(show, episodes, client);
 }
 
 /** Batch-unmark an entire season */
 export async function unmarkSeasonWatched(
-  showId: number,
-  episodes: { season: number; episode: number }[]
+  show: ShowRef,
+  episodes: EpisodeRef[],
+  client?: SupabaseClient
 ): Promise<void> {
   if (episodes.length === 0) return;
-  const { supabase, user } = await getUser();
+  const { supabase, user } = await getUser(client);
 
   // Supabase doesn't support bulk delete with composite keys easily,
   // so we delete one by one. Seasons are typically <25 episodes.
@@ -134,10 +145,35 @@ export async function unmarkSeasonWatched(
       .from("watch_progress")
       .delete()
       .eq("user_id", user.id)
-      .eq("tvmaze_show_id", showId)
+      .match(showRefColumns(show))
       .eq("season", ep.season)
       .eq("episode", ep.episode);
 
     if (error) throw error;
   }
 }
+
+// ── Show-level progress ──────────────────────────────────────────────────────
+
+/** True when every released episode is watched — the auto-complete condition */
+export function isAllWatched(watched: Set<string>, released: EpisodeRef[]): boolean {
+  return released.length > 0 && released.every((e) => watched.has(episodeKey(e.season, e.episode)));
+}
+
+/**
+ * Watched episodes for a tracked show. A show marked "completed" before
+ * episode tracking existed has no rows — backfill all released episodes so
+ * its progress matches its status.
+ */
+export async function loadWatchedEpisodes(
+  show: ShowRef,
+  status: ShowStatus,
+  released: EpisodeRef[],
+  client?: SupabaseClient
+): Promise<Set<string>> {
+  const watched = await fetchWatchedEpisodes(show, client);
+  if (status !== "completed" || watched.size > 0 || released.length === 0) return watched;
+
+  await markAllWatched(show, released, client);
+  return new Set(released.map((e) => episodeKey(e.season, e.episode)));
+}
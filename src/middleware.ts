@@ -2,7 +2,7 @@ import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
 
 // Routes that require authentication
-const PROTECTED_PREFIXES = ["/dashboard", "/my-shows", "/settings", "/search", "/show"];
+const PROTECTED_PREFIXES = ["/dashboard", "/my-shows", "/settings", "/search", "/show", "/person"];
 
 // Routes that should NOT require auth (landing, auth flow, API, static assets)
 function isProtectedRoute(pathname: string): boolean {
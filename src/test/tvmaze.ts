@@ -0,0 +1,124 @@
+/**
+ * A stand-in TVMaze API for tests: stubs global fetch so api.tvmaze.com
+ * requests are answered for one show, Dark (TVMaze ID 17861), and one
+ * person, and any other TVMaze path 404s. Requests to other hosts go to `passthrough` (404 by
+ * default), e.g. to fail TMDB when testing the fallback provider.
+ *
+ *   beforeEach(() => stubTVMaze());
+ *   afterEach(() => vi.unstubAllGlobals());
+ */
+
+import { vi } from "vitest";
+import type { TVMazeEpisode, TVMazeShow } from "@/types";
+
+export const DARK_ID = 17861;
+
+export const dark: TVMazeShow = {
+  id:             DARK_ID,
+  url:            "https://www.tvmaze.com/shows/17861/dark",
+  name:           "Dark",
+  type:           "Scripted",
+  language:       "German",
+  genres:         ["Drama", "Mystery", "Science-Fiction"],
+  status:         "Ended",
+  runtime:        60,
+  averageRuntime: 56,
+  premiered:      "2017-12-01",
+  ended:          "2020-06-27",
+  officialSite:   "https://www.netflix.com/title/80100172",
+  schedule:       { time: "", days: ["Saturday"] },
+  rating:         { average: 8.7 },
+  weight:         98,
+  network:        null,
+  webChannel:     { id: 1, name: "Netflix", country: null, officialSite: "https://www.netflix.com/" },
+  externals:      { tvrage: null, thetvdb: 334824, imdb: "tt5753856" },
+  image:          null,
+  summary:        "<p>A missing child sets four families on a frantic hunt for answers.</p>",
+  updated:        1704067200,
+  _links:         { self: { href: "https://api.tvmaze.com/shows/17861" } },
+};
+
+const SEASONS = [
+  { number: 1, episodes: 10, premiereDate: "2017-12-01" },
+  { number: 2, episodes: 8,  premiereDate: "2019-06-21" },
+  { number: 3, episodes: 8,  premiereDate: "2020-06-27" },
+];
+
+function episode(season: number, number: number | null, airdate: string): TVMazeEpisode {
+  return {
+    id:       season * 100 + (number ?? 99),
+    url:      `https://www.tvmaze.com/episodes/${season}${number}`,
+    name:     number === null ? "Dark: Behind the Scenes" : `Episode ${number}`,
+    season,
+    number,
+    type:     number === null ? "significant_special" : "regular",
+    airdate,
+    airtime:  "",
+    airstamp: `${airdate}T12:00:00+00:00`,
+    runtime:  56,
+    rating:   { average: null },
+    image:    null,
+    summary:  null,
+    _links:   { self: { href: `https://api.tvmaze.com/episodes/${season}${number}` } },
+  };
+}
+
+/** Every season in full, plus a special TVMaze files under season 3 */
+const EPISODES: TVMazeEpisode[] = [
+  ...SEASONS.flatMap((s) =>
+    Array.from({ length: s.episodes }, (_, i) => episode(s.number, i + 1, s.premiereDate))
+  ),
+  episode(3, null, "2020-07-01"),
+];
+
+const withEmbeds = {
+  ...dark,
+  _embedded: {
+    seasons: SEASONS.map((s) => ({
+      id:           s.number,
+      number:       s.number,
+      premiereDate: s.premiereDate,
+      episodeOrder: s.episodes,
+    })),
+    previousepisode: EPISODES.find((e) => e.season === 3 && e.number === 8),
+    akas:            [{ name: "Dark" }],
+    cast:            [],
+    crew:            [],
+  },
+};
+
+/** Response body for a TVMaze path + query, or undefined for a 404 */
+function respond(path: string, params: URLSearchParams): unknown {
+  const query = params.get("q")?.toLowerCase() ?? "";
+  switch (path) {
+    case "/search/shows":
+      return query && dark.name.toLowerCase().includes(query) ? [{ score: 0.9, show: dark }] : [];
+    case "/search/people":
+      return query && "darko perić".includes(query)
+        ? [{ score: 0.5, person: { id: 4242, name: "Darko Perić", image: null } }]
+        : [];
+    case "/shows":
+      return params.get("page") === "0" ? [dark] : [];
+    case `/shows/${DARK_ID}`:
+      return params.toString() ? withEmbeds : dark;
+    case `/shows/${DARK_ID}/episodes`:
+      return EPISODES;
+    case `/shows/${DARK_ID}/cast`:
+    case `/shows/${DARK_ID}/crew`:
+      return [];
+  }
+  return undefined;
+}
+
+export function stubTVMaze(
+  passthrough: (url: URL) => Response = () => new Response("Not Found", { status: 404 })
+): void {
+  vi.stubGlobal("fetch", async (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.hostname !== "api.tvmaze.com") return passthrough(url);
+    const body = respond(url.pathname, url.searchParams);
+    return body === undefined
+      ? new Response("Not Found", { status: 404, statusText: "Not Found" })
+      : Response.json(body);
+  });
+}
@@ -35,8 +35,19 @@ export interface TVMazeExternals {
 
 export interface TVMazeShow {
   id: number;
+  /**
+   * Set on catalogue results served by the fallback provider (see
+   * metadata.ts) — `id` is then in that provider's ID space, not the
+   * active one's. Link and key such results with resultParam().
+   */
+  provider?: ShowProvider;
   url: string;
   name: string;
+  /** Title in the show's original language, when it differs from `name` */
+  originalName?: string | null;
+  /** Episode / season totals — only from show details, not list results */
+  episodeCount?: number | null;
+  seasonCount?: number | null;
   type: string;
   language: string | null;
   genres: string[];
@@ -70,6 +81,13 @@ export interface TVMazeSearchResult {
   show: TVMazeShow;
 }
 
+/** One page of show search results */
+export interface SearchPage {
+  results: TVMazeSearchResult[];
+  page: number;
+  totalPages: number;
+}
+
 export interface TVMazeEpisode {
   id: number;
   url: string;
@@ -94,6 +112,211 @@ export interface TVMazeScheduleEntry extends TVMazeEpisode {
   show: TVMazeShow;
 }
 
+// ============================================
+// Metadata Provider Types
+// ============================================
+
+export interface ShowSeasonMeta {
+  tmdbId: number;
+  nextEpisode: {
+    seasonNumber: number;
+    episodeNumber: number;
+    airDate: string | null;
+  } | null;
+  lastEpisode: {
+    seasonNumber: number;
+    episodeNumber: number;
+    airDate: string | null;
+  } | null;
+  numberOfSeasons: number;
+  /** Number of specials (season 0) — not counted in numberOfSeasons */
+  specialsCount: number;
+  /** Regular (non-special) episodes aired so far, through lastEpisode */
+  releasedEpisodeCount: number;
+  /** Specials (season 0) aired so far — counted when the user includes specials */
+  releasedSpecialsCount: number;
+  /** Air date of the latest (highest-numbered, non-specials) season premiere */
+  latestSeasonAirDate: string | null;
+  /** Whether the show is still airing ("Running") or has ended */
+  isRunning: boolean;
+  genres: string[];
+  /** Original and localized titles other than the display name, for library search */
+  alternativeTitles: string[];
+}
+
+export interface WatchProvider {
+  id: number;
+  name: string;
+  logoPath: string | null;
+}
+
+export interface WatchProviders {
+  /** Streaming / subscription services (e.g. Netflix, Hulu) */
+  flatrate: WatchProvider[];
+  /** Purchase providers (e.g. Apple TV, Google Play) */
+  buy: WatchProvider[];
+  /** Rental providers */
+  rent: WatchProvider[];
+  /** TMDB "Where to Watch" link */
+  link: string | null;
+}
+
+/** A country TMDB has streaming availability data for */
+export interface WatchRegion {
+  /** ISO 3166-1 code, e.g. "GB" */
+  code: string;
+  name: string;
+}
+
+export interface CastMember {
+  id: number;
+  name: string;
+  /** Most-credited character name across seasons */
+  character: string;
+  profileImage: string | null;
+  episodeCount: number;
+}
+
+export interface CrewMember {
+  id: number;
+  name: string;
+  /** Most-credited job across seasons */
+  job: string;
+  department: string;
+  profileImage: string | null;
+  episodeCount: number;
+}
+
+export interface ShowCredits {
+  cast: CastMember[];
+  crew: CrewMember[];
+}
+
+export type ShowVideoType =
+  | "Trailer"
+  | "Teaser"
+  | "Featurette"
+  | "Clip"
+  | "Behind the Scenes"
+  | "Bloopers"
+  | "Opening Credits";
+
+export interface ShowVideo {
+  id: string;
+  /** Site-specific video ID (YouTube / Vimeo) */
+  key: string;
+  name: string;
+  site: "YouTube" | "Vimeo";
+  type: ShowVideoType;
+  /** null for show-level videos */
+  seasonNumber: number | null;
+  official: boolean;
+  publishedAt: string | null;
+}
+
+/** One show in a person's TV filmography (cast and crew roles merged) */
+export interface PersonCredit {
+  show: TVMazeShow;
+  /** Character names and/or jobs, e.g. ["Walter White", "Producer"] */
+  roles: string[];
+  episodeCount: number;
+}
+
+export interface PersonDetail {
+  id: number;
+  name: string;
+  biography: string | null;
+  profileImage: string | null;
+  /** e.g. "Acting", "Directing" */
+  knownForDepartment: string | null;
+  birthday: string | null;
+  deathday: string | null;
+  placeOfBirth: string | null;
+  /** TV filmography, most episodes first */
+  credits: PersonCredit[];
+}
+
+/** A person in search suggestions */
+export interface PersonSummary {
+  id: number;
+  name: string;
+  profileImage: string | null;
+  /** e.g. "Acting", "Directing" */
+  knownForDepartment: string | null;
+  /** Titles they're best known for, most popular first */
+  knownFor: string[];
+}
+
+/** Typeahead suggestion — shows and people, most relevant first */
+export type SearchSuggestion =
+  | { type: "show"; show: TVMazeShow }
+  | { type: "person"; person: PersonSummary };
+
+export interface ShowExternalIds {
+  imdb: string | null;
+  tvdb: number | null;
+  tvrage: number | null;
+  wikidata: string | null;
+}
+
+/** One show's IDs across databases — the app's own show IDs are TMDB IDs */
+export interface ShowIdMapping extends ShowExternalIds {
+  tmdb: number | null;
+  tvmaze: number | null;
+}
+
+/** Everything the show detail page needs, fetched in as few requests as possible */
+export interface ShowBundle {
+  show: TVMazeShow;
+  episodes: TVMazeEpisode[];
+  watchProviders: WatchProviders;
+  credits: ShowCredits;
+  externalIds: ShowExternalIds;
+}
+
+/** Server-side discover filters. Genre and provider IDs are TMDB IDs. */
+export interface DiscoverOptions {
+  genreIds?: number[];        // shows with all of them, or any of them with genreMatch "any"
+  genreMatch?: "all" | "any"; // defaults to "all"
+  excludeGenreIds?: number[]; // shows with none of them
+  page?: number;
+  sortBy?: string;
+  status?: "running" | "ended";
+  ratingMin?: number;
+  language?: string;          // ISO 639-1 code, e.g. "en"
+  voteCountMin?: number;      // minimum vote count (filters out obscure shows)
+  watchProviderIds?: number[]; // TMDB provider IDs — streaming on any of them in watchRegion
+  watchRegion?: string;       // ISO 3166-1 code, defaults to DEFAULT_REGION
+  keywordIds?: number[];      // TMDB keyword IDs — shows with any of them
+  networkIds?: number[];      // TMDB network IDs — shows on any of them
+  originCountry?: string;     // ISO 3166-1 code of the show's country of origin
+  yearFrom?: number;          // first air date year range, inclusive
+  yearTo?: number;
+  runtimeMin?: number;        // episode runtime range in minutes, inclusive
+  runtimeMax?: number;
+  episodesMin?: number;       // total episode / season count bounds, inclusive —
+  episodesMax?: number;       // post-filtered, as list results carry no counts
+  seasonsMin?: number;
+  seasonsMax?: number;
+  cursor?: string;            // rating-sorted discover: nextCursor of the previous slice
+  locale?: string;            // display language for titles/overviews, e.g. "hi-IN"
+}
+
+/** A keyword or network usable as a discover filter */
+export interface DiscoverFacet {
+  id: number;
+  name: string;
+}
+
+export type DiscoverFacetType = "keyword" | "network";
+
+export interface DiscoverResult {
+  shows: TVMazeShow[];
+  totalPages: number;
+  /** Cursor-paginated results only: pass back as `cursor` for the next slice, null at the end */
+  nextCursor?: string | null;
+}
+
 // ============================================
 // Supabase / App Domain Types
 // ============================================
@@ -105,10 +328,18 @@ export type ShowStatus =
   | "dropped"
   | "plan_to_watch";
 
+/** The signed-in user's status per tracked result, keyed by resultParam() — for badging results */
+export type TrackedStatuses = Record<string, ShowStatus>;
+
+/** Metadata provider a stored show ID belongs to */
+export type ShowProvider = "tmdb" | "tvmaze";
+
 export interface UserShow {
   id: string;
   user_id: string;
-  tvmaze_show_id: number;
+  /** Metadata provider whose ID space external_id belongs to */
+  provider: ShowProvider;
+  external_id: number;
   show_name: string;
   show_poster: string | null;
   show_backdrop: string | null;
@@ -117,6 +348,8 @@ export interface UserShow {
 }
 
 export interface EnrichedUserShow extends UserShow {
+  /** Detail page link (see showPath) */
+  href: string;
   /** "soon" if new season within 3 months, "out" if already airing, null otherwise */
   newSeasonTag: "soon" | "out" | null;
   /** ISO date of the next episode air date, if any */
@@ -125,12 +358,75 @@ export interface EnrichedUserShow extends UserShow {
   hasUpcomingEpisodesInCurrentSeason: boolean;
   /** Whether the show is still airing new episodes */
   isRunning: boolean;
+  /** From metadata — empty when it couldn't be fetched */
+  genres: string[];
+  alternativeTitles: string[];
+  /** Subscription services streaming it in the user's region — empty when unknown */
+  streamingProviders: WatchProvider[];
+  /**
+   * Episodes aired so far — regular ones, plus specials when the user
+   * includes them. 0 when metadata couldn't be fetched.
+   */
+  releasedEpisodeCount: number;
+  /** How many of those the user has marked watched */
+  watchedEpisodeCount: number;
+}
+
+/** A past search query, most recent first in lists */
+export interface RecentSearch {
+  query: string;
+  searched_at: string;
+}
+
+/** A named set of /search filters */
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  /** /search filter params as a query string, e.g. "genre=Crime&sort=rating" */
+  params: string;
+  /** First-page discover result IDs when the preset was last opened */
+  seen_ids: number[];
+  last_viewed_at: string;
+  created_at: string;
+}
+
+export interface UserPreferences {
+  user_id: string;
+  /** Count specials (season 0) toward completion and progress */
+  include_specials: boolean;
+  /** Metadata display locale (TMDB language code), e.g. "en-US" */
+  locale: string;
+  /** Watch region (ISO 3166-1) for providers and platform filters, e.g. "IN" */
+  region: string;
+  /** Watch-provider IDs of the streaming services the user subscribes to */
+  subscribed_providers: number[];
+  updated_at: string;
+}
+
+/** An episode in a show's Up Next queue */
+export interface UpNextEpisode {
+  season: number;
+  number: number;
+  name: string;
+  /** Episode still, if any */
+  image: string | null;
+  airdate: string;
+}
+
+/** The next unwatched released episodes of a show, in viewing order */
+export interface UpNext {
+  /** The first few — `episodes[0]` is up next */
+  episodes: UpNextEpisode[];
+  /** All unwatched released episodes, including those in `episodes` */
+  remaining: number;
 }
 
 export interface WatchProgress {
   id: string;
   user_id: string;
-  tvmaze_show_id: number;
+  provider: ShowProvider;
+  external_id: number;
   season: number;
   episode: number;
   watched_at: string;
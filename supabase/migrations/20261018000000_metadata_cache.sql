@@ -0,0 +1,19 @@
+-- ============================================
+-- Persistent metadata cache
+--
+-- Second tier of the server-side TMDB cache (src/lib/metadata-cache.ts),
+-- shared across serverless instances. RLS is enabled with no policies, so
+-- only the service role key can read or write it.
+-- ============================================
+
+begin;
+
+create table if not exists metadata_cache (
+  key         text primary key,
+  value       jsonb not null,
+  stored_at   timestamptz not null default now()
+);
+
+alter table metadata_cache enable row level security;
+
+commit;
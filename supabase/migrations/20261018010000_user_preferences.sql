@@ -0,0 +1,33 @@
+-- ============================================
+-- User preferences
+--
+-- One row per user, created on first save in Settings (src/lib/preferences.ts).
+-- Later migrations add locale, region and subscribed_providers.
+--
+-- Projects set up from an earlier schema.sql may already have the table, so
+-- its policies are recreated rather than assumed absent.
+-- ============================================
+
+begin;
+
+create table if not exists user_preferences (
+  user_id           uuid references auth.users on delete cascade primary key,
+  include_specials  boolean not null default false,
+  updated_at        timestamptz default now()
+);
+
+alter table user_preferences enable row level security;
+
+drop policy if exists "user_preferences_select" on user_preferences;
+create policy "user_preferences_select" on user_preferences
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "user_preferences_insert" on user_preferences;
+create policy "user_preferences_insert" on user_preferences
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "user_preferences_update" on user_preferences;
+create policy "user_preferences_update" on user_preferences
+  for update using (auth.uid() = user_id);
+
+commit;
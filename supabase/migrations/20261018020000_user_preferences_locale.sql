@@ -0,0 +1,13 @@
+-- ============================================
+-- Locale preference
+--
+-- TMDB language code (e.g. "hi-IN") for localized titles, overviews and
+-- images (src/lib/locale.ts).
+-- ============================================
+
+begin;
+
+alter table user_preferences
+  add column if not exists locale text not null default 'en-US';
+
+commit;
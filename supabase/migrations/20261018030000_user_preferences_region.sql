@@ -0,0 +1,13 @@
+-- ============================================
+-- Watch region preference
+--
+-- ISO 3166-1 country code whose streaming providers the show page and
+-- Settings list.
+-- ============================================
+
+begin;
+
+alter table user_preferences
+  add column if not exists region text not null default 'IN';
+
+commit;
@@ -0,0 +1,33 @@
+-- ============================================
+-- Cross-database show IDs
+--
+-- One show's IDs across databases, keyed by TMDB ID (src/lib/show-ids.ts).
+-- Readable by anyone; written only with the service role key.
+--
+-- Projects set up from an earlier schema.sql may already have the table, so
+-- its policy is recreated and indexes are created only if absent.
+-- ============================================
+
+begin;
+
+create table if not exists show_id_map (
+  tmdb_id      integer primary key,
+  tvmaze_id    integer,
+  tvdb_id      integer,
+  imdb_id      text,
+  tvrage_id    integer,
+  wikidata_id  text,
+  updated_at   timestamptz not null default now()
+);
+
+alter table show_id_map enable row level security;
+
+drop policy if exists "show_id_map_select" on show_id_map;
+create policy "show_id_map_select" on show_id_map
+  for select using (true);
+
+create index if not exists idx_show_id_map_tvmaze on show_id_map(tvmaze_id);
+create index if not exists idx_show_id_map_tvdb on show_id_map(tvdb_id);
+create index if not exists idx_show_id_map_imdb on show_id_map(imdb_id);
+
+commit;
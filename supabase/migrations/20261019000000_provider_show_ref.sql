@@ -0,0 +1,46 @@
+-- ============================================
+-- Provider-qualified show references
+--
+-- Replaces user_shows.tvmaze_show_id / watch_progress.tvmaze_show_id with
+-- (provider, external_id). The old column name predates the switch to TMDB
+-- and has held TMDB IDs since, except for rows saved while TVMaze was the
+-- provider — those collide with unrelated TMDB shows.
+--
+-- Every existing row is assumed to be a TMDB ID; afterwards run
+--   npx tsx scripts/backfill-show-refs.ts
+-- to find rows whose ID is really a TVMaze ID and re-point or re-label them.
+-- Deploy the matching app code together with this migration.
+-- ============================================
+
+begin;
+
+-- ── user_shows ──────────────────────────────────────────────────────────────
+
+alter table user_shows rename column tvmaze_show_id to external_id;
+
+alter table user_shows
+  add column provider text not null default 'tmdb'
+  check (provider in ('tmdb', 'tvmaze'));
+
+alter table user_shows drop constraint user_shows_user_id_tvmaze_show_id_key;
+alter table user_shows
+  add constraint user_shows_user_id_provider_external_id_key
+  unique (user_id, provider, external_id);
+
+-- ── watch_progress ──────────────────────────────────────────────────────────
+
+alter table watch_progress rename column tvmaze_show_id to external_id;
+
+alter table watch_progress
+  add column provider text not null default 'tmdb'
+  check (provider in ('tmdb', 'tvmaze'));
+
+alter table watch_progress drop constraint watch_progress_user_id_tvmaze_show_id_season_episode_key;
+alter table watch_progress
+  add constraint watch_progress_user_id_provider_external_id_season_episode_key
+  unique (user_id, provider, external_id, season, episode);
+
+drop index if exists idx_watch_progress_user_show;
+create index idx_watch_progress_user_show on watch_progress(user_id, provider, external_id);
+
+commit;
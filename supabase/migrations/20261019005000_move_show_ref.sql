@@ -0,0 +1,45 @@
+-- ============================================
+-- Atomic show re-pointing for scripts/backfill-show-refs.ts
+--
+-- Moves one user_shows row and that user's watch_progress rows for the show
+-- to a new (provider, external_id) in a single transaction: if either update
+-- fails (e.g. on the unique key, when the user already tracks the target
+-- show), neither is applied, so progress is never orphaned.
+--
+-- Only the service role may call it. New projects have no legacy rows to
+-- backfill, so schema.sql doesn't include it.
+-- ============================================
+
+begin;
+
+create or replace function move_show_ref(
+  show_row_id      uuid,
+  new_provider     text,
+  new_external_id  integer
+) returns void
+language plpgsql
+as $$
+declare
+  source user_shows%rowtype;
+begin
+  select * into source from user_shows where id = show_row_id for update;
+  if not found then
+    raise exception 'user_shows row % not found', show_row_id;
+  end if;
+
+  update watch_progress
+     set provider = new_provider, external_id = new_external_id
+   where user_id = source.user_id
+     and provider = source.provider
+     and external_id = source.external_id;
+
+  update user_shows
+     set provider = new_provider, external_id = new_external_id
+   where id = show_row_id;
+end;
+$$;
+
+revoke execute on function move_show_ref(uuid, text, integer) from public, anon, authenticated;
+grant execute on function move_show_ref(uuid, text, integer) to service_role;
+
+commit;
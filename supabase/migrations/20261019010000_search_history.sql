@@ -0,0 +1,35 @@
+-- ============================================
+-- Recent search history
+--
+-- Backs the recent queries shown in the search box (src/lib/search-history.ts).
+-- One row per user and distinct query; the app trims each user's history to
+-- the newest 20 on save.
+-- ============================================
+
+begin;
+
+create table if not exists search_history (
+  id           uuid default gen_random_uuid() primary key,
+  user_id      uuid references auth.users on delete cascade not null,
+  query        text not null,
+  searched_at  timestamptz not null default now(),
+  unique(user_id, query)
+);
+
+alter table search_history enable row level security;
+
+create policy "search_history_select" on search_history
+  for select using (auth.uid() = user_id);
+
+create policy "search_history_insert" on search_history
+  for insert with check (auth.uid() = user_id);
+
+create policy "search_history_update" on search_history
+  for update using (auth.uid() = user_id);
+
+create policy "search_history_delete" on search_history
+  for delete using (auth.uid() = user_id);
+
+create index idx_search_history_recent on search_history(user_id, searched_at desc);
+
+commit;
@@ -0,0 +1,38 @@
+-- ============================================
+-- Saved discover presets
+--
+-- Named /search filter combinations (src/lib/saved-searches.ts), shown as
+-- "My presets" on /search and the dashboard. seen_ids is the first page of
+-- results when the preset was last opened, for the "new since" count.
+-- ============================================
+
+begin;
+
+create table if not exists saved_searches (
+  id              uuid default gen_random_uuid() primary key,
+  user_id         uuid references auth.users on delete cascade not null,
+  name            text not null,
+  params          text not null,
+  seen_ids        integer[] not null default '{}',
+  last_viewed_at  timestamptz not null default now(),
+  created_at      timestamptz not null default now(),
+  unique(user_id, name)
+);
+
+alter table saved_searches enable row level security;
+
+create policy "saved_searches_select" on saved_searches
+  for select using (auth.uid() = user_id);
+
+create policy "saved_searches_insert" on saved_searches
+  for insert with check (auth.uid() = user_id);
+
+create policy "saved_searches_update" on saved_searches
+  for update using (auth.uid() = user_id);
+
+create policy "saved_searches_delete" on saved_searches
+  for delete using (auth.uid() = user_id);
+
+create index idx_saved_searches_user on saved_searches(user_id, created_at);
+
+commit;
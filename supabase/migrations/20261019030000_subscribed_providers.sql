@@ -0,0 +1,15 @@
+-- ============================================
+-- Streaming subscriptions
+--
+-- The watch providers (TMDB provider IDs) a user pays for, set in Settings.
+-- My Shows de-emphasises shows none of them stream and can filter to them.
+--
+-- Runs after 20261018010000_user_preferences.sql, which creates the table.
+-- ============================================
+
+begin;
+
+alter table user_preferences
+  add column if not exists subscribed_providers integer[] not null default '{}';
+
+commit;
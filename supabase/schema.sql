@@ -1,13 +1,19 @@
 -- ============================================
 -- ShowTrackr Database Schema
 -- Run this in the Supabase SQL Editor
+--
+-- This file is the current schema for new projects.
+-- Existing projects apply supabase/migrations/ in order instead.
 -- ============================================
 
--- user_shows: shows a user has added to their list
+-- user_shows: shows a user has added to their list.
+-- A show is identified by (provider, external_id): the metadata provider
+-- whose ID space external_id belongs to (src/lib/show-ref.ts).
 create table if not exists user_shows (
   id              uuid default gen_random_uuid() primary key,
   user_id         uuid references auth.users on delete cascade not null,
-  tvmaze_show_id  integer not null,
+  provider        text not null default 'tmdb' check (provider in ('tmdb', 'tvmaze')),
+  external_id     integer not null,
   show_name       text not null,
   show_poster     text,
   show_backdrop   text,
@@ -15,23 +21,35 @@ create table if not exists user_shows (
                     'watching', 'completed', 'on_hold', 'dropped', 'plan_to_watch'
                   )) default 'plan_to_watch',
   created_at      timestamptz default now(),
-  unique(user_id, tvmaze_show_id)
+  unique(user_id, provider, external_id)
 );
 
 -- watch_progress: episode-level tracking
 create table if not exists watch_progress (
   id              uuid default gen_random_uuid() primary key,
   user_id         uuid references auth.users on delete cascade not null,
-  tvmaze_show_id  integer not null,
+  provider        text not null default 'tmdb' check (provider in ('tmdb', 'tvmaze')),
+  external_id     integer not null,
   season          integer not null,
   episode         integer not null,
   watched_at      timestamptz default now(),
-  unique(user_id, tvmaze_show_id, season, episode)
+  unique(user_id, provider, external_id, season, episode)
+);
+
+-- user_preferences: one row per user, created on first save
+create table if not exists user_preferences (
+  user_id           uuid references auth.users on delete cascade primary key,
+  include_specials  boolean not null default false,
+  locale            text not null default 'en-US',
+  region            text not null default 'IN',
+  subscribed_providers integer[] not null default '{}',
+  updated_at        timestamptz default now()
 );
 
 -- Enable Row Level Security
 alter table user_shows enable row level security;
 alter table watch_progress enable row level security;
+alter table user_preferences enable row level security;
 
 -- RLS Policies for user_shows
 create policy "user_shows_select" on user_shows
@@ -59,7 +77,104 @@ create policy "watch_progress_update" on watch_progress
 create policy "watch_progress_delete" on watch_progress
   for delete using (auth.uid() = user_id);
 
+-- RLS Policies for user_preferences
+create policy "user_preferences_select" on user_preferences
+  for select using (auth.uid() = user_id);
+
+create policy "user_preferences_insert" on user_preferences
+  for insert with check (auth.uid() = user_id);
+
+create policy "user_preferences_update" on user_preferences
+  for update using (auth.uid() = user_id);
+
 -- Indexes for common queries
 create index idx_user_shows_user_id on user_shows(user_id);
 create index idx_user_shows_status on user_shows(user_id, status);
-create index idx_watch_progress_user_show on watch_progress(user_id, tvmaze_show_id);
+create index idx_watch_progress_user_show on watch_progress(user_id, provider, external_id);
+
+-- metadata_cache: persistent tier of the server-side TMDB cache (src/lib/metadata-cache.ts).
+-- RLS is enabled with no policies, so only the service role key can read or write it.
+create table if not exists metadata_cache (
+  key         text primary key,
+  value       jsonb not null,
+  stored_at   timestamptz not null default now()
+);
+
+alter table metadata_cache enable row level security;
+
+-- show_id_map: one show's IDs across databases, keyed by TMDB ID (src/lib/show-ids.ts).
+-- Readable by anyone; written only with the service role key.
+create table if not exists show_id_map (
+  tmdb_id      integer primary key,
+  tvmaze_id    integer,
+  tvdb_id      integer,
+  imdb_id      text,
+  tvrage_id    integer,
+  wikidata_id  text,
+  updated_at   timestamptz not null default now()
+);
+
+alter table show_id_map enable row level security;
+
+create policy "show_id_map_select" on show_id_map
+  for select using (true);
+
+create index idx_show_id_map_tvmaze on show_id_map(tvmaze_id);
+create index idx_show_id_map_tvdb on show_id_map(tvdb_id);
+create index idx_show_id_map_imdb on show_id_map(imdb_id);
+
+-- search_history: recent search queries per user (src/lib/search-history.ts).
+-- One row per distinct query; searching again bumps searched_at.
+create table if not exists search_history (
+  id           uuid default gen_random_uuid() primary key,
+  user_id      uuid references auth.users on delete cascade not null,
+  query        text not null,
+  searched_at  timestamptz not null default now(),
+  unique(user_id, query)
+);
+
+alter table search_history enable row level security;
+
+create policy "search_history_select" on search_history
+  for select using (auth.uid() = user_id);
+
+create policy "search_history_insert" on search_history
+  for insert with check (auth.uid() = user_id);
+
+create policy "search_history_update" on search_history
+  for update using (auth.uid() = user_id);
+
+create policy "search_history_delete" on search_history
+  for delete using (auth.uid() = user_id);
+
+create index idx_search_history_recent on search_history(user_id, searched_at desc);
+
+-- saved_searches: named /search filter presets (src/lib/saved-searches.ts).
+-- seen_ids holds the first page of results when the preset was last opened,
+-- so the app can count new results since then.
+create table if not exists saved_searches (
+  id              uuid default gen_random_uuid() primary key,
+  user_id         uuid references auth.users on delete cascade not null,
+  name            text not null,
+  params          text not null,
+  seen_ids        integer[] not null default '{}',
+  last_viewed_at  timestamptz not null default now(),
+  created_at      timestamptz not null default now(),
+  unique(user_id, name)
+);
+
+alter table saved_searches enable row level security;
+
+create policy "saved_searches_select" on saved_searches
+  for select using (auth.uid() = user_id);
+
+create policy "saved_searches_insert" on saved_searches
+  for insert with check (auth.uid() = user_id);
+
+create policy "saved_searches_update" on saved_searches
+  for update using (auth.uid() = user_id);
+
+create policy "saved_searches_delete" on saved_searches
+  for delete using (auth.uid() = user_id);
+
+create index idx_saved_searches_user on saved_searches(user_id, created_at);